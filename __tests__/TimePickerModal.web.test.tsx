@@ -0,0 +1,97 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { TextInput } from 'react-native';
+import TimePickerModal from '@/app/TimePickerModal';
+import { SettingsProvider } from '@/hooks/useSettings';
+
+// Icon fonts are assets the web preset cannot load.
+jest.mock('@expo/vector-icons', () => ({ MaterialCommunityIcons: () => null }));
+
+const onConfirm = jest.fn();
+const onCancel = jest.fn();
+
+// A time cell and the picker it opens, as on the table.
+const Picker = ({ visible }: { visible: boolean }) => (
+  <SettingsProvider>
+    <TextInput accessibilityLabel="Fila 1, hora de inicio, 7:00 AM" />
+    <TimePickerModal
+      visible={visible}
+      value={new Date(2026, 9, 19, 7, 0)}
+      timeFormat="12h"
+      minuteStep={1}
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    />
+  </SettingsProvider>
+);
+
+// The modal fades in and out; jsdom runs no animations, so end them by hand.
+const endAnimation = (dialog: HTMLElement) => {
+  let element: HTMLElement | null = dialog;
+  while (element?.parentElement && element.parentElement !== document.body) {
+    element = element.parentElement;
+  }
+  fireEvent.animationEnd(element!.firstElementChild!);
+};
+
+describe('TimePickerModal on web', () => {
+  beforeEach(async () => {
+    onConfirm.mockClear();
+    onCancel.mockClear();
+    await AsyncStorage.setItem(
+      'oxycalc:settings',
+      JSON.stringify({
+        version: 1,
+        currency: 'COP',
+        rounding: { scope: 'total', increment: 1 },
+        language: 'es',
+      })
+    );
+  });
+
+  it('is a labelled dialog with labelled controls', async () => {
+    render(<Picker visible={true} />);
+    const dialog = await screen.findByRole('dialog', { name: 'Seleccionar Fecha y Hora' });
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(screen.getByRole('button', { name: 'Día anterior' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Día siguiente' })).toBeTruthy();
+  });
+
+  it('takes focus when shown and hands it back to the cell when closed', async () => {
+    const { rerender } = render(<Picker visible={false} />);
+    const cell = await screen.findByLabelText('Fila 1, hora de inicio, 7:00 AM');
+    act(() => cell.focus());
+    expect(document.activeElement).toBe(cell);
+
+    rerender(<Picker visible={true} />);
+    const dialog = await screen.findByRole('dialog');
+    act(() => endAnimation(dialog));
+    expect(document.activeElement).toBe(dialog);
+
+    rerender(<Picker visible={false} />);
+    act(() => endAnimation(dialog));
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(cell);
+  });
+
+  it('confirms on Enter', async () => {
+    render(<Picker visible={true} />);
+    fireEvent.keyDown(await screen.findByRole('dialog'), { key: 'Enter' });
+    expect(onConfirm).toHaveBeenCalledWith(new Date(2026, 9, 19, 7, 0));
+  });
+
+  it('leaves Enter on a button to that button', async () => {
+    render(<Picker visible={true} />);
+    fireEvent.keyDown(await screen.findByText('Cancelar'), { key: 'Enter' });
+    fireEvent.keyDown(screen.getByLabelText('Día siguiente'), { key: 'Enter' });
+    expect(onConfirm).not.toHaveBeenCalled();
+  });
+
+  it('closes on Escape', async () => {
+    render(<Picker visible={true} />);
+    await screen.findByRole('dialog');
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
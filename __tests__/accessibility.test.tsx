@@ -0,0 +1,65 @@
+import { fireEvent, screen } from '@testing-library/react-native';
+import React from 'react';
+import OxygenCalculatorScreen from '@/app/index';
+import { entry, session } from './fixtures';
+import { renderScreen } from './renderScreen';
+
+// One hour at 2 L/min, then the blank row to type into.
+const saved = session([
+  entry('entry-1', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' }),
+  entry('entry-2'),
+]);
+
+describe('screen reader support', () => {
+  it('names every cell of a row after its row and column', async () => {
+    await renderScreen(<OxygenCalculatorScreen />, saved);
+
+    const start = await screen.findByLabelText('Fila 1, hora de inicio, 8:00 AM');
+    expect(start.props.accessibilityHint).toBe('Escriba la hora, por ejemplo 730p o 19:30');
+    expect(screen.getByLabelText('Fila 1, hora de fin, 9:00 AM')).toBeTruthy();
+    expect(screen.getByLabelText('Fila 1, flujo en litros por minuto, 2')).toBeTruthy();
+    expect(screen.getByLabelText('Fila 1, minutos, 60')).toBeTruthy();
+    expect(screen.getByLabelText('Fila 1, litros, 120')).toBeTruthy();
+    expect(screen.getByLabelText('Fila 1, valor, $ 120')).toBeTruthy();
+    // Empty cells say so rather than reading nothing.
+    expect(screen.getByLabelText('Fila 2, hora de inicio, sin valor')).toBeTruthy();
+    expect(screen.getByLabelText('Fila 2, minutos, sin valor')).toBeTruthy();
+  });
+
+  it('gives the row buttons a role and a name', async () => {
+    await renderScreen(<OxygenCalculatorScreen />, saved);
+
+    const device = await screen.findByRole('button', { name: 'Fila 1, dispositivo, sin valor' });
+    expect(device.props.accessibilityHint).toBe('Cambia a la siguiente opción');
+    expect(screen.getAllByRole('button', { name: 'Abrir selector de hora' })).toHaveLength(4);
+    expect(screen.getByRole('button', { name: 'Eliminar fila 1' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Iniciar la fila 2 en curso' })).toBeTruthy();
+    // The trailing blank row cannot be deleted.
+    expect(screen.queryByRole('button', { name: 'Eliminar fila 2' })).toBeNull();
+
+    fireEvent.press(device);
+    expect(await screen.findByRole('button', { name: 'Fila 1, dispositivo, CN' })).toBeTruthy();
+  });
+
+  it('offers undo and redo as buttons that say when they are unavailable', async () => {
+    await renderScreen(<OxygenCalculatorScreen />, saved);
+
+    const undo = await screen.findByRole('button', { name: 'Deshacer' });
+    expect(undo).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Rehacer' })).toBeDisabled();
+
+    fireEvent.changeText(screen.getByLabelText('Fila 1, flujo en litros por minuto, 2'), '3');
+    expect(await screen.findByRole('button', { name: 'Deshacer' })).toBeEnabled();
+  });
+
+  it('keeps the total in a polite live region that follows edits', async () => {
+    await renderScreen(<OxygenCalculatorScreen />, saved);
+
+    const total = await screen.findByLabelText('Total a pagar: $ 120');
+    expect(total.props.accessibilityLiveRegion).toBe('polite');
+
+    fireEvent.changeText(screen.getByLabelText('Fila 1, flujo en litros por minuto, 2'), '3');
+    const updated = await screen.findByLabelText('Total a pagar: $ 180');
+    expect(updated.props.accessibilityLiveRegion).toBe('polite');
+  });
+});
@@ -0,0 +1,45 @@
+import { fireEvent, screen } from '@testing-library/react-native';
+import React from 'react';
+import { TextInput } from 'react-native';
+import OxygenCalculatorScreen from '@/app/index';
+import { entry, session } from './fixtures';
+import { renderScreen, settle } from './renderScreen';
+
+const filled = entry('entry-1', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' });
+
+// Labels of the cells focused since the spy was set up.
+const focusedCells = (focus: jest.SpyInstance) =>
+  focus.mock.contexts.map((input: TextInput) => input.props.accessibilityLabel);
+
+describe('the add button', () => {
+  let focus: jest.SpyInstance;
+
+  beforeEach(() => {
+    focus = jest.spyOn(TextInput.prototype, 'focus');
+  });
+
+  afterEach(() => {
+    focus.mockRestore();
+  });
+
+  it('goes to the trailing blank row instead of adding another', async () => {
+    await renderScreen(<OxygenCalculatorScreen />, session([filled, entry('entry-2')]));
+
+    fireEvent.press(screen.getByText('Agregar'));
+    await settle();
+
+    expect(screen.queryByLabelText('Fila 3, hora de inicio, sin valor')).toBeNull();
+    expect(focusedCells(focus)).toEqual(['Fila 2, hora de inicio, sin valor']);
+    expect(screen.getByRole('button', { name: 'Deshacer' })).toBeDisabled();
+  });
+
+  it('adds the blank row where a saved table lacks one', async () => {
+    await renderScreen(<OxygenCalculatorScreen />, session([filled]));
+
+    fireEvent.press(screen.getByText('Agregar'));
+    await settle();
+
+    expect(screen.getByLabelText('Fila 2, hora de inicio, sin valor')).toBeTruthy();
+    expect(focusedCells(focus)).toEqual(['Fila 2, hora de inicio, sin valor']);
+  });
+});
@@ -0,0 +1,55 @@
+import { fireEvent, screen } from '@testing-library/react-native';
+import React from 'react';
+import OxygenCalculatorScreen from '@/app/index';
+import { formatTime } from '@/utils/billing';
+import { toDateKey } from '@/utils/dates';
+import { entry, session } from './fixtures';
+import { renderScreen, settle } from './renderScreen';
+
+// Ids of the rows drawn, in order, by the real row wrapped in a counter.
+const mockRenders: string[] = [];
+
+jest.mock('@/app/EntryRow', () => {
+  const React = jest.requireActual<typeof import('react')>('react');
+  const actual = jest.requireActual('@/app/EntryRow');
+  const { type: EntryRow, compare } = actual.default;
+  const CountedRow = (props: { entry: { id: string } }) => {
+    mockRenders.push(props.entry.id);
+    return EntryRow(props);
+  };
+  return { __esModule: true, ...actual, default: React.memo(CountedRow, compare) };
+});
+
+// Back-to-back hours from 19 Oct 2026, 7:00 AM, at 2 L/min except every
+// tenth row at 16, which validation warns about.
+const longLog = (rows: number) =>
+  Array.from({ length: rows }, (_, i) => {
+    const start = new Date(2026, 9, 19, 7 + i);
+    const end = new Date(2026, 9, 19, 8 + i);
+    return entry(`entry-${i}`, {
+      startTime: formatTime(start),
+      endTime: formatTime(end),
+      startDate: toDateKey(start),
+      endDate: toDateKey(end),
+      flowRate: i % 10 === 0 ? '16' : '2',
+    });
+  });
+
+describe('entry table', () => {
+  it('redraws only the edited row of a 1,000-row log', async () => {
+    await renderScreen(<OxygenCalculatorScreen />, session(longLog(1000)));
+    const flow = screen.getByLabelText('Fila 3, flujo en litros por minuto, 2');
+
+    // Only the rows around the screen are drawn at all.
+    expect(new Set(mockRenders).size).toBeLessThan(100);
+
+    mockRenders.length = 0;
+    fireEvent.changeText(flow, '3');
+    await settle();
+
+    expect(screen.getByLabelText('Fila 3, flujo en litros por minuto, 3')).toBeTruthy();
+    expect(new Set(mockRenders)).toEqual(new Set(['entry-2']));
+    // 100 h at 16 L/min and 900 at 2, one of them now at 3: 204,060 L at 1 per liter.
+    expect(screen.getByLabelText('Total a pagar: $ 204.060')).toBeTruthy();
+  });
+});
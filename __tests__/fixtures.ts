@@ -0,0 +1,27 @@
+// Rows and sessions for tests, with only the fields a test sets filled in.
+import type { OxygenEntry, OxygenSession } from '@/types/oxygen';
+import { EMPTY_PATIENT } from '@/utils/patient';
+
+export const entry = (id: string, fields: Partial<OxygenEntry> = {}): OxygenEntry => ({
+  id,
+  startTime: '',
+  endTime: '',
+  flowRate: '',
+  ...fields,
+});
+
+// One patient on the contributory regime at factor 1, so costs equal liters.
+export const session = (
+  entries: OxygenEntry[],
+  fields: Partial<OxygenSession> = {}
+): OxygenSession => ({
+  id: 'session-1',
+  patientLabel: 'Ana Pérez',
+  patient: EMPTY_PATIENT,
+  insuranceType: 'contributivo',
+  tariff: { rateId: 'rate-1', label: 'Contributivo', factor: 1, effectiveFrom: '2026-01-01' },
+  entries,
+  createdAt: '2026-10-19T13:00:00.000Z',
+  updatedAt: '2026-10-19T13:00:00.000Z',
+  ...fields,
+});
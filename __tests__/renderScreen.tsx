@@ -0,0 +1,53 @@
+// Renders a screen inside the app's providers, over storage seeded with one
+// session, the way it comes up after a restart.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, render } from '@testing-library/react-native';
+import React from 'react';
+import { PrescriptionsProvider } from '@/hooks/usePrescriptions';
+import { SessionsProvider } from '@/hooks/useSessions';
+import { SettingsProvider } from '@/hooks/useSettings';
+import { TariffsProvider } from '@/hooks/useTariffs';
+import type { OxygenSession } from '@/types/oxygen';
+import type { Settings } from '@/types/settings';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Lets pending storage reads and edits render, then the entry list draw the
+// rows it renders in later batches.
+export const settle = async () => {
+  await act(() => wait(0));
+  await act(() => wait(200));
+};
+
+export const renderScreen = async (
+  screen: React.ReactElement,
+  saved: OxygenSession,
+  settings: Partial<Settings> = {}
+) => {
+  await AsyncStorage.clear();
+  await AsyncStorage.multiSet([
+    ['oxycalc:state', JSON.stringify({ version: 4, sessions: [saved], activeSessionId: saved.id })],
+    [
+      'oxycalc:settings',
+      JSON.stringify({
+        version: 1,
+        currency: 'COP',
+        rounding: { scope: 'total', increment: 1 },
+        language: 'es',
+        shifts: [],
+        ...settings,
+      }),
+    ],
+  ]);
+  const result = render(
+    <SettingsProvider>
+      <TariffsProvider>
+        <SessionsProvider>
+          <PrescriptionsProvider>{screen}</PrescriptionsProvider>
+        </SessionsProvider>
+      </TariffsProvider>
+    </SettingsProvider>
+  );
+  await settle();
+  return result;
+};
@@ -0,0 +1,61 @@
+import { act } from '@testing-library/react-native';
+import React from 'react';
+import { useSessions } from '@/hooks/useSessions';
+import { EMPTY_PATIENT } from '@/utils/patient';
+import { entry, session } from './fixtures';
+import { renderScreen, settle } from './renderScreen';
+
+let sessions: ReturnType<typeof useSessions>;
+
+const Probe = () => {
+  sessions = useSessions();
+  return null;
+};
+
+const saved = session([
+  entry('entry-1', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' }),
+  entry('entry-2'),
+]);
+
+const imported = [entry('imported-1', { startTime: '1:00 PM', endTime: '2:00 PM', flowRate: '3' })];
+
+describe('undoing an import', () => {
+  it('brings back the patient a replace import overwrote', async () => {
+    await renderScreen(<Probe />, saved);
+
+    act(() =>
+      sessions.importEntries(imported, 'replace', {
+        patientLabel: 'Luis Gómez',
+        patient: { documentNumber: '998877' },
+      })
+    );
+    await settle();
+    expect(sessions.activeSession.patientLabel).toBe('Luis Gómez');
+    expect(sessions.activeSession.patient.documentNumber).toBe('998877');
+
+    act(() => sessions.undo());
+    await settle();
+    expect(sessions.activeSession.patientLabel).toBe('Ana Pérez');
+    expect(sessions.activeSession.patient).toEqual(EMPTY_PATIENT);
+    expect(sessions.activeSession.entries.map((e) => e.id)).toEqual(['entry-1', 'entry-2']);
+
+    act(() => sessions.redo());
+    await settle();
+    expect(sessions.activeSession.patientLabel).toBe('Luis Gómez');
+    expect(sessions.activeSession.entries[0].id).toBe('imported-1');
+  });
+
+  it('keeps patient edits made after a table edit', async () => {
+    await renderScreen(<Probe />, saved);
+
+    act(() => sessions.importEntries(imported, 'append'));
+    await settle();
+    act(() => sessions.updatePatient({ bed: '302B' }));
+    await settle();
+
+    act(() => sessions.undo());
+    await settle();
+    expect(sessions.activeSession.entries.map((e) => e.id)).toEqual(['entry-1', 'entry-2']);
+    expect(sessions.activeSession.patient.bed).toBe('302B');
+  });
+});
@@ -1,38 +1,46 @@
 import { Link, Stack } from "expo-router";
 import { StyleSheet, Text, View } from "react-native";
+import type { Palette } from "@/constants/colors";
+import { useI18n } from "@/hooks/useI18n";
+import { useThemedStyles } from "@/hooks/useTheme";
 
 export default function NotFoundScreen() {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
   return (
     <>
-      <Stack.Screen options={{ title: "¡Página no encontrada!" }} />
+      <Stack.Screen options={{ title: t("navigation.notFound") }} />
       <View style={styles.container}>
-        <Text style={styles.title}>Esta pantalla no existe.</Text>
+        <Text style={styles.title}>{t("navigation.notFoundMessage")}</Text>
 
         <Link href="/" style={styles.link}>
-          <Text style={styles.linkText}>Ir a la calculadora</Text>
+          <Text style={styles.linkText}>{t("navigation.home")}</Text>
         </Link>
       </View>
     </>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    alignItems: "center",
-    justifyContent: "center",
-    padding: 20,
-  },
-  title: {
-    fontSize: 20,
-    fontWeight: "bold",
-  },
-  link: {
-    marginTop: 15,
-    paddingVertical: 15,
-  },
-  linkText: {
-    fontSize: 14,
-    color: "#0F766E",
-  },
-});
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      padding: 20,
+      backgroundColor: colors.background,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: "bold",
+      color: colors.text,
+    },
+    link: {
+      marginTop: 15,
+      paddingVertical: 15,
+    },
+    linkText: {
+      fontSize: 14,
+      color: colors.link,
+    },
+  });
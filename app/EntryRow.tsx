@@ -0,0 +1,376 @@
+import React, { memo, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import createStyles from './styles';
+import TimeCell from './TimeCell';
+import { HIT_SLOP } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { Messages } from '@/locales/es';
+import type { Cylinder, EntryField, OxygenEntry, TimeField } from '@/types/oxygen';
+import type { RoundingPolicy, TimeFormat } from '@/types/settings';
+import {
+  calculateEntryCost,
+  calculateLiters,
+  calculateMinutes,
+  displayEntryCost,
+  displayTime,
+} from '@/utils/billing';
+import { VENTURI_SETTINGS, deviceShort, estimateFio2 } from '@/utils/devices';
+import { formatCurrency, litersFormatter } from '@/utils/format';
+import { CYLINDER_TYPES, PRESSURE_UNITS, isPressureEntry } from '@/utils/pressure';
+import type { EntryIssue } from '@/utils/validation';
+
+// Table cells with a screen reader label, keys of a11y.cell.
+type CellLabel = keyof Messages['a11y']['cell'];
+
+// What a row can do to the session. The screen keeps these the same across
+// renders so rows only re-render when their own data changes.
+export interface EntryRowActions {
+  updateEntry: (id: string, field: EntryField, value: string) => void;
+  commitTypedTime: (id: string, field: TimeField, text: string) => void;
+  openTimePicker: (id: string, field: TimeField) => void;
+  registerCell: (id: string, column: number) => (input: TextInput | null) => void;
+  focusNextCell: (row: number, column: number) => void;
+  cycleDevice: (entry: OxygenEntry) => void;
+  cycleCylinder: (entry: OxygenEntry) => void;
+  startLive: (id: string) => void;
+  removeEntry: (id: string) => void;
+  setVenturiFio2: (id: string, fio2: number) => void;
+}
+
+interface EntryRowProps {
+  entry: OxygenEntry;
+  // What the row shows and costs: the live row as if stopped now, else the entry.
+  shown: OxygenEntry;
+  index: number;
+  isLive: boolean;
+  // Another row is being timed, so this one cannot be started.
+  hasLive: boolean;
+  removable: boolean;
+  readOnly: boolean;
+  issues: EntryIssue[] | undefined;
+  cylinders: Cylinder[];
+  paymentFactor: number;
+  rounding: RoundingPolicy;
+  currency: string;
+  timeFormat: TimeFormat;
+  actions: EntryRowActions;
+}
+
+// One row of the entry table with its option chips and validation messages.
+function EntryRow({
+  entry,
+  shown,
+  index,
+  isLive,
+  hasLive,
+  removable,
+  readOnly,
+  issues,
+  cylinders,
+  paymentFactor,
+  rounding,
+  currency,
+  timeFormat,
+  actions,
+}: EntryRowProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+  const litersFormat = useMemo(() => litersFormatter(locale), [locale]);
+  const formatLiters = (liters: number) => litersFormat.format(liters);
+  const formatMoney = (amount: number) => formatCurrency(amount, currency, rounding, locale);
+  const {
+    updateEntry,
+    commitTypedTime,
+    openTimePicker,
+    registerCell,
+    focusNextCell,
+    cycleDevice,
+    cycleCylinder,
+    startLive,
+    removeEntry,
+    setVenturiFio2,
+  } = actions;
+
+  const isPressure = isPressureEntry(entry);
+  const fio2 = estimateFio2(entry);
+  const minutes = calculateMinutes(shown);
+  const liters = calculateLiters(shown);
+  const cost = calculateEntryCost(shown, paymentFactor);
+  const hasError = issues?.some((issue) => issue.severity === 'error');
+  const row = index + 1;
+  const unit = entry.pressureUnit ?? 'psi';
+  const cellLabel = (key: CellLabel, value: string) =>
+    t(`a11y.cell.${key}`, { row, unit, value: value || t('a11y.empty') });
+  const cylinderLabel = cylinders.find((c) => c.id === entry.cylinderId)?.label;
+
+  return (
+    <View>
+      <View
+        style={[
+          styles.tableRow,
+          issues && (hasError ? styles.tableRowError : styles.tableRowWarning),
+          isLive && styles.tableRowLive,
+        ]}
+      >
+        <Text style={[styles.rowNumber, { width: 30 }]}>{row}</Text>
+        {isPressure ? (
+          <>
+            <TextInput
+              style={[styles.inputFixed, { width: 90 }]}
+              placeholder={t('index.startPressure', { unit })}
+              placeholderTextColor={colors.placeholder}
+              value={entry.startPressure ?? ''}
+              accessibilityLabel={cellLabel('startPressure', entry.startPressure ?? '')}
+              onChangeText={(value) => updateEntry(entry.id, 'startPressure', value)}
+              keyboardType="decimal-pad"
+              editable={!readOnly}
+              ref={registerCell(entry.id, 0)}
+              returnKeyType="next"
+              submitBehavior="submit"
+              onSubmitEditing={() => focusNextCell(index, 0)}
+            />
+            <TextInput
+              style={[styles.inputFixed, { width: 90 }]}
+              placeholder={t('index.endPressure', { unit })}
+              placeholderTextColor={colors.placeholder}
+              value={entry.endPressure ?? ''}
+              accessibilityLabel={cellLabel('endPressure', entry.endPressure ?? '')}
+              onChangeText={(value) => updateEntry(entry.id, 'endPressure', value)}
+              keyboardType="decimal-pad"
+              editable={!readOnly}
+              ref={registerCell(entry.id, 1)}
+              returnKeyType="next"
+              submitBehavior="submit"
+              onSubmitEditing={() => focusNextCell(index, 1)}
+            />
+          </>
+        ) : (
+          <>
+            <TimeCell
+              value={entry.startTime}
+              date={entry.startDate}
+              timeFormat={timeFormat}
+              editable={!readOnly}
+              accessibilityLabel={cellLabel(
+                'start',
+                displayTime(entry.startTime, timeFormat)
+              )}
+              inputRef={registerCell(entry.id, 0)}
+              onCommit={(text) => commitTypedTime(entry.id, 'startTime', text)}
+              onOpenPicker={() => openTimePicker(entry.id, 'startTime')}
+              onSubmit={() => focusNextCell(index, 0)}
+            />
+            <TimeCell
+              value={entry.endTime}
+              date={entry.endDate}
+              timeFormat={timeFormat}
+              editable={!readOnly}
+              accessibilityLabel={cellLabel(
+                'end',
+                displayTime(entry.endTime, timeFormat)
+              )}
+              inputRef={registerCell(entry.id, 1)}
+              onCommit={(text) => commitTypedTime(entry.id, 'endTime', text)}
+              onOpenPicker={() => openTimePicker(entry.id, 'endTime')}
+              onSubmit={() => focusNextCell(index, 1)}
+            />
+          </>
+        )}
+        <TextInput
+          style={[styles.inputFixed, { width: 55 }]}
+          placeholder="0.0"
+          placeholderTextColor={colors.placeholder}
+          value={entry.flowRate}
+          accessibilityLabel={cellLabel('flow', entry.flowRate)}
+          onChangeText={(value) => updateEntry(entry.id, 'flowRate', value)}
+          keyboardType="decimal-pad"
+          editable={!readOnly}
+          ref={registerCell(entry.id, 2)}
+          returnKeyType="next"
+          submitBehavior="submit"
+          onSubmitEditing={() => focusNextCell(index, 2)}
+        />
+        <TouchableOpacity
+          style={[styles.inputFixed, { width: 70 }]}
+          onPress={() => cycleDevice(entry)}
+          disabled={readOnly}
+          accessibilityRole="button"
+          accessibilityLabel={cellLabel(
+            'device',
+            entry.device ? deviceShort(entry.device, t) : ''
+          )}
+          accessibilityHint={t('a11y.cycleHint')}
+        >
+          <Text style={styles.deviceCell}>{entry.device ? deviceShort(entry.device, t) : '-'}</Text>
+          {fio2 !== null && <Text style={styles.deviceFio2}>FiO2 {fio2} %</Text>}
+        </TouchableOpacity>
+        <Text
+          style={[styles.calculatedValue, { width: 80 }]}
+          accessibilityLabel={cellLabel('minutes', minutes > 0 ? String(minutes) : '')}
+        >
+          {minutes > 0 ? minutes : '-'}
+        </Text>
+        <Text
+          style={[styles.calculatedValue, { width: 70 }]}
+          accessibilityLabel={cellLabel('liters', liters > 0 ? formatLiters(liters) : '')}
+        >
+          {liters > 0 ? formatLiters(liters) : '-'}
+        </Text>
+        <Text
+          style={[styles.calculatedValue, { width: 80 }]}
+          accessibilityLabel={cellLabel(
+            'cost',
+            cost > 0 ? formatMoney(displayEntryCost(cost, rounding)) : ''
+          )}
+        >
+          {cost > 0 ? formatMoney(displayEntryCost(cost, rounding)) : '-'}
+        </Text>
+        {cylinders.length > 0 && (
+          <TouchableOpacity
+            style={[styles.inputFixed, { width: 90 }]}
+            onPress={() => cycleCylinder(entry)}
+            disabled={readOnly}
+            accessibilityRole="button"
+            accessibilityLabel={cellLabel('cylinder', cylinderLabel ?? '')}
+            accessibilityHint={t('a11y.cycleHint')}
+          >
+            <Text style={styles.cylinderCell} numberOfLines={1}>
+              {cylinderLabel ?? '-'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.deleteButton}>
+          {isLive ? (
+            <MaterialCommunityIcons
+              name="record-circle"
+              size={18}
+              color={colors.danger}
+              accessible={true}
+              accessibilityLabel={t('a11y.live', { row })}
+            />
+          ) : (
+            !readOnly &&
+            !hasLive &&
+            !isPressure &&
+            !entry.startTime && (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => startLive(entry.id)}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.startLive', { row })}
+              >
+                <MaterialCommunityIcons name="play" size={20} color={colors.success} />
+              </TouchableOpacity>
+            )
+          )}
+        </View>
+        {removable ? (
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={() => removeEntry(entry.id)}
+            disabled={readOnly}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.deleteRow', { row })}
+            accessibilityState={{ disabled: readOnly }}
+          >
+            <MaterialCommunityIcons name="delete" size={18} color={colors.danger} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.deleteButton} />
+        )}
+      </View>
+      {isPressure && (
+        <View style={styles.rowOptions}>
+          {CYLINDER_TYPES.map((type) => (
+            <TouchableOpacity
+              key={type.id}
+              style={[styles.chip, entry.cylinderType === type.id && styles.chipActive]}
+              onPress={() => updateEntry(entry.id, 'cylinderType', type.id)}
+              disabled={readOnly}
+              hitSlop={HIT_SLOP}
+              accessibilityRole="button"
+              accessibilityState={{ selected: entry.cylinderType === type.id }}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  entry.cylinderType === type.id && styles.chipTextActive,
+                ]}
+              >
+                {type.label} · {type.litersPerPsi} L/psi
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {PRESSURE_UNITS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, unit === option && styles.chipActive]}
+              onPress={() => updateEntry(entry.id, 'pressureUnit', option)}
+              disabled={readOnly}
+              hitSlop={HIT_SLOP}
+              accessibilityRole="button"
+              accessibilityState={{ selected: unit === option }}
+            >
+              <Text style={[styles.chipText, unit === option && styles.chipTextActive]}>
+                {option}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {entry.device === 'venturi' && (
+        <View style={styles.rowOptions}>
+          {VENTURI_SETTINGS.map((setting) => {
+            const active = entry.fio2 === String(setting.fio2);
+            return (
+              <TouchableOpacity
+                key={setting.fio2}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => setVenturiFio2(entry.id, setting.fio2)}
+                disabled={readOnly}
+                hitSlop={HIT_SLOP}
+                accessibilityRole="button"
+                accessibilityState={{ selected: active }}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {setting.fio2} % · {setting.flow} L/min
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+      {issues && (
+        <View style={styles.rowIssues}>
+          {issues.map((issue, i) => (
+            <Text
+              key={i}
+              style={issue.severity === 'error' ? styles.rowIssueError : styles.rowIssueWarning}
+            >
+              {issue.message}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+// Validation rebuilds every row's issue list on each edit, so lists are
+// compared by content; everything else by identity.
+const sameIssues = (a: EntryIssue[] | undefined, b: EntryIssue[] | undefined) =>
+  a === b ||
+  (!!a &&
+    !!b &&
+    a.length === b.length &&
+    a.every((issue, i) => issue.severity === b[i].severity && issue.message === b[i].message));
+
+const arePropsEqual = (prev: EntryRowProps, next: EntryRowProps) =>
+  (Object.keys(next) as (keyof EntryRowProps)[]).every((key) =>
+    key === 'issues' ? sameIssues(prev.issues, next.issues) : prev[key] === next[key]
+  );
+
+export default memo(EntryRow, arePropsEqual);
@@ -0,0 +1,196 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import type { Palette } from '@/constants/colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { PatientInfo } from '@/types/oxygen';
+import { DOCUMENT_TYPES, documentTypeLabel, validateDocumentNumber } from '@/utils/patient';
+
+interface PatientFormProps {
+  patientLabel: string;
+  patient: PatientInfo;
+  editable: boolean;
+  onChangeLabel: (patientLabel: string) => void;
+  onChange: (patch: Partial<PatientInfo>) => void;
+}
+
+interface FieldProps {
+  label: string;
+  value: string;
+  editable: boolean;
+  placeholder?: string;
+  keyboardType?: 'default' | 'decimal-pad';
+  onChangeText: (value: string) => void;
+}
+
+function Field({ label, value, editable, placeholder, keyboardType, onChangeText }: FieldProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={value}
+        placeholder={placeholder}
+        placeholderTextColor={colors.placeholder}
+        keyboardType={keyboardType}
+        editable={editable}
+        onChangeText={onChangeText}
+      />
+    </View>
+  );
+}
+
+export default function PatientForm({
+  patientLabel,
+  patient,
+  editable,
+  onChangeLabel,
+  onChange,
+}: PatientFormProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const documentError = validateDocumentNumber(patient.documentType, patient.documentNumber, t);
+
+  return (
+    <View>
+      <Field
+        label={t('patient.name')}
+        value={patientLabel}
+        placeholder={t('patient.namePlaceholder')}
+        editable={editable}
+        onChangeText={onChangeLabel}
+      />
+
+      <Text style={styles.label}>{t('patient.field.documentNumber')}</Text>
+      <View style={styles.documentTypes}>
+        {DOCUMENT_TYPES.map((doc) => {
+          const active = doc.value === patient.documentType;
+          return (
+            <TouchableOpacity
+              key={doc.value}
+              style={[styles.documentType, active && styles.documentTypeActive]}
+              onPress={() => onChange({ documentType: doc.value })}
+              disabled={!editable}
+            >
+              <Text style={[styles.documentTypeText, active && styles.documentTypeTextActive]}>
+                {documentTypeLabel(doc.value, t)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <TextInput
+        style={[styles.input, documentError && styles.inputError]}
+        value={patient.documentNumber}
+        placeholder={t('patient.documentPlaceholder')}
+        placeholderTextColor={colors.placeholder}
+        autoCapitalize="characters"
+        editable={editable}
+        onChangeText={(documentNumber) => onChange({ documentNumber })}
+      />
+      {documentError && <Text style={styles.error}>{documentError}</Text>}
+
+      <View style={styles.row}>
+        <Field
+          label={t('patient.field.eps')}
+          value={patient.eps}
+          editable={editable}
+          onChangeText={(eps) => onChange({ eps })}
+        />
+        <Field
+          label={t('patient.field.bed')}
+          value={patient.bed}
+          editable={editable}
+          onChangeText={(bed) => onChange({ bed })}
+        />
+      </View>
+      <View style={styles.row}>
+        <Field
+          label={t('patient.field.service')}
+          value={patient.service}
+          placeholder={t('patient.servicePlaceholder')}
+          editable={editable}
+          onChangeText={(service) => onChange({ service })}
+        />
+        <Field
+          label={`${t('patient.field.prescribedFlow')} (L/min)`}
+          value={patient.prescribedFlow}
+          keyboardType="decimal-pad"
+          editable={editable}
+          onChangeText={(prescribedFlow) => onChange({ prescribedFlow })}
+        />
+      </View>
+      <Field
+        label={t('patient.field.physician')}
+        value={patient.physician}
+        editable={editable}
+        onChangeText={(physician) => onChange({ physician })}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    field: {
+      flex: 1,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textMuted,
+      marginBottom: 4,
+    },
+    input: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: 12,
+    },
+    inputError: {
+      borderColor: colors.danger,
+      marginBottom: 4,
+    },
+    error: {
+      fontSize: 12,
+      color: colors.danger,
+      marginBottom: 12,
+    },
+    documentTypes: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 8,
+    },
+    documentType: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 6,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    documentTypeActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    documentTypeText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    documentTypeTextActive: {
+      color: colors.onPrimary,
+    },
+  });
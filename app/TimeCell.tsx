@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { Palette } from '@/constants/colors';
+import { HIT_SLOP } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { TimeFormat } from '@/types/settings';
+import { displayTime, formatClock, parseTime } from '@/utils/billing';
+import { formatShortDate } from '@/utils/dates';
+
+interface TimeCellProps {
+  value: string;
+  date?: string;
+  // How the stored 12h text is shown.
+  timeFormat: TimeFormat;
+  editable: boolean;
+  // Read out for the cell, e.g. 'Fila 3, hora de inicio, 7:00 AM'.
+  accessibilityLabel: string;
+  inputRef?: (input: TextInput | null) => void;
+  // Called on blur with text parseTime accepts, or '' to clear the cell.
+  onCommit: (text: string) => void;
+  onOpenPicker: () => void;
+  // Enter: move on to the next cell.
+  onSubmit: () => void;
+}
+
+// A time cell that takes typed text ('730p', '19:30', '0730') as well as the
+// picker. Text is only committed once it parses; until then the cell stays
+// red with what was typed, so nothing is lost.
+export default function TimeCell({
+  value,
+  date,
+  timeFormat,
+  editable,
+  accessibilityLabel,
+  inputRef,
+  onCommit,
+  onOpenPicker,
+  onSubmit,
+}: TimeCellProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  // What is being typed, or null while the cell shows the stored value.
+  const [draft, setDraft] = useState<string | null>(null);
+  const shown = displayTime(value, timeFormat);
+  const text = (draft ?? shown).trim();
+  const minutes = parseTime(text);
+  const invalid = draft !== null && text !== '' && minutes === null;
+  const preview = draft !== null && minutes !== null ? formatClock(minutes, timeFormat) : null;
+
+  const commit = () => {
+    if (draft === null || invalid) return;
+    if (text !== shown) onCommit(text);
+    setDraft(null);
+  };
+
+  const hint = invalid
+    ? t('time.invalid')
+    : preview && preview !== text
+      ? preview
+      : date
+        ? formatShortDate(date)
+        : null;
+
+  return (
+    <View style={[styles.cell, invalid && styles.cellInvalid]}>
+      <View style={styles.row}>
+        <TextInput
+          ref={inputRef}
+          style={styles.input}
+          value={draft ?? shown}
+          placeholder={t('time.placeholder')}
+          placeholderTextColor={colors.placeholder}
+          editable={editable}
+          accessibilityLabel={accessibilityLabel}
+          accessibilityHint={t('a11y.timeHint')}
+          autoCorrect={false}
+          autoCapitalize="none"
+          returnKeyType="next"
+          submitBehavior="submit"
+          onFocus={() => setDraft((prev) => prev ?? shown)}
+          onChangeText={setDraft}
+          onBlur={commit}
+          onSubmitEditing={onSubmit}
+        />
+        {editable && (
+          <TouchableOpacity
+            style={styles.picker}
+            onPress={onOpenPicker}
+            focusable={false}
+            hitSlop={HIT_SLOP}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.openPicker')}
+          >
+            <MaterialCommunityIcons name="clock-outline" size={14} color={colors.textFaint} />
+          </TouchableOpacity>
+        )}
+      </View>
+      {hint !== null && <Text style={[styles.hint, invalid && styles.hintInvalid]}>{hint}</Text>}
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    cell: {
+      width: 90,
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 6,
+      paddingHorizontal: 4,
+      paddingVertical: 4,
+      borderWidth: 1,
+      borderColor: colors.border,
+      justifyContent: 'center',
+    },
+    cellInvalid: {
+      borderColor: colors.danger,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    input: {
+      flex: 1,
+      minWidth: 0,
+      paddingVertical: 4,
+      fontSize: 14,
+      color: colors.text,
+      textAlign: 'center',
+    },
+    picker: {
+      paddingHorizontal: 2,
+      paddingVertical: 4,
+    },
+    hint: {
+      fontSize: 10,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    hintInvalid: {
+      color: colors.danger,
+    },
+  });
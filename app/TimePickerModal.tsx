@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,86 +9,247 @@ import {
   Platform,
 } from 'react-native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { Palette } from '@/constants/colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { MinuteStep, TimeFormat } from '@/types/settings';
+import { formatClock, snapToMinuteStep } from '@/utils/billing';
 
 interface TimePickerModalProps {
   visible: boolean;
   value: Date;
+  timeFormat: TimeFormat;
+  minuteStep: MinuteStep;
   onConfirm: (date: Date) => void;
   onCancel: () => void;
 }
 
-const HOURS = Array.from({ length: 12 }, (_, i) => i + 1);
-const MINUTES = Array.from({ length: 60 }, (_, i) => i);
+type Column = 'hour' | 'minute' | 'period';
+
+// Options are a fixed height so the selected one can be scrolled into view.
+const ITEM_HEIGHT = 48;
+const SCROLL_HEIGHT = 200;
+// Digits typed within this long of each other build one time, e.g. '1', '9',
+// '3', '0' for 19:30.
+const TYPING_MS = 1000;
+
+const HOURS_12 = Array.from({ length: 12 }, (_, i) => i + 1);
+const HOURS_24 = Array.from({ length: 24 }, (_, i) => i);
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const pad = (n: number) => String(n).padStart(2, '0');
+const wrap = (i: number, length: number) => (i + length) % length;
+
+// Hour as listed in the hour column.
+const hourOption = (hours: number, timeFormat: TimeFormat) =>
+  timeFormat === '24h' ? hours : hours % 12 || 12;
+
+// Back to 0-23 from an option of the hour column, keeping AM/PM in 12h mode.
+const fromHourOption = (option: number, hours: number, timeFormat: TimeFormat) =>
+  timeFormat === '24h' ? option : (option % 12) + (hours >= 12 ? 12 : 0);
 
 export default function TimePickerModal({
   visible,
   value,
+  timeFormat,
+  minuteStep,
   onConfirm,
   onCancel,
 }: TimePickerModalProps) {
-  const [hour, setHour] = useState(value.getHours() % 12 || 12);
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+  const [hours, setHours] = useState(value.getHours());
   const [minute, setMinute] = useState(value.getMinutes());
-  const [ampm, setAmpm] = useState(value.getHours() >= 12 ? 'PM' : 'AM');
+  const [day, setDay] = useState(startOfDay(value));
+  // Column the arrow keys act on.
+  const [column, setColumn] = useState<Column>('hour');
+  const typed = useRef({ digits: '', at: 0 });
+  const hourScroll = useRef<ScrollView>(null);
+  const minuteScroll = useRef<ScrollView>(null);
+  const dialog = useRef<View>(null);
+
+  const hourOptions = timeFormat === '24h' ? HOURS_24 : HOURS_12;
+  const minuteOptions = Array.from({ length: 60 / minuteStep }, (_, i) => i * minuteStep);
+  const columns: Column[] = timeFormat === '24h' ? ['hour', 'minute'] : ['hour', 'minute', 'period'];
+  const selectedHour = hourOption(hours, timeFormat);
+  const hourIndex = hourOptions.indexOf(selectedHour);
+  const minuteIndex = Math.max(0, minuteOptions.indexOf(minute));
 
   useEffect(() => {
     if (visible) {
-      const h = value.getHours();
-      setHour(h % 12 || 12);
-      setMinute(value.getMinutes());
-      setAmpm(h >= 12 ? 'PM' : 'AM');
+      const snapped = snapToMinuteStep(value, minuteStep);
+      setDay(startOfDay(snapped));
+      setHours(snapped.getHours());
+      setMinute(snapped.getMinutes());
+      setColumn('hour');
+      typed.current = { digits: '', at: 0 };
     }
-  }, [visible, value]);
+  }, [visible, value, minuteStep]);
 
-  const handleConfirm = () => {
-    let hours = hour;
-    if (ampm === 'PM' && hours < 12) hours += 12;
-    if (ampm === 'AM' && hours === 12) hours = 0;
+  // Keep the selected options in the middle of their columns.
+  useEffect(() => {
+    if (!visible) return;
+    const center = (index: number) =>
+      Math.max(0, index * ITEM_HEIGHT - (SCROLL_HEIGHT - ITEM_HEIGHT) / 2);
+    hourScroll.current?.scrollTo({ y: center(hourIndex), animated: false });
+    minuteScroll.current?.scrollTo({ y: center(minuteIndex), animated: false });
+  }, [visible, hourIndex, minuteIndex]);
 
-    const newDate = new Date(value);
+  const handleConfirm = () => {
+    const newDate = new Date(day);
     newDate.setHours(hours);
     newDate.setMinutes(minute);
     newDate.setSeconds(0);
     onConfirm(newDate);
   };
 
+  const shiftDay = (days: number) =>
+    setDay((prev) => new Date(prev.getFullYear(), prev.getMonth(), prev.getDate() + days));
+
+  const setPeriod = (period: 'AM' | 'PM') => setHours((h) => (h % 12) + (period === 'PM' ? 12 : 0));
+
+  // Typed digits: one or two set the hour, three or four the hour and minutes.
+  // In 12h mode hours 1-12 keep AM/PM and 0 or 13-23 are read as 24h.
+  const typeDigit = (digit: string) => {
+    const now = Date.now();
+    const prev = typed.current;
+    const digits =
+      now - prev.at < TYPING_MS && prev.digits.length < 4 ? prev.digits + digit : digit;
+    typed.current = { digits, at: now };
+    const hourText = digits.length > 2 ? digits.slice(0, -2) : digits;
+    const h = parseInt(hourText, 10);
+    const m = digits.length > 2 ? parseInt(digits.slice(-2), 10) : null;
+    if (h > 23 || (m !== null && m > 59)) return;
+    setHours((current) =>
+      timeFormat === '12h' && h >= 1 && h <= 12 ? fromHourOption(h, current, timeFormat) : h
+    );
+    // Minutes off the step round down to it.
+    if (m !== null) setMinute(Math.floor(m / minuteStep) * minuteStep);
+  };
+
+  useEffect(() => {
+    if (!visible || Platform.OS !== 'web') return;
+    const move = (delta: number) => {
+      if (column === 'hour') {
+        const i = wrap(hourIndex + delta, hourOptions.length);
+        setHours(fromHourOption(hourOptions[i], hours, timeFormat));
+      } else if (column === 'minute') {
+        const i = wrap(minuteIndex + delta, minuteOptions.length);
+        setMinute(minuteOptions[i]);
+      } else {
+        setHours((hours + 12) % 24);
+      }
+    };
+    // Enter on a button, such as Cancel or a day arrow, presses that button
+    // rather than confirming.
+    const isButton = (target: EventTarget | null) =>
+      target instanceof Element && !!target.closest('[role="button"]');
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const key = event.key;
+      if (key === 'Enter' && isButton(event.target)) return;
+      if (key === 'Enter') handleConfirm();
+      else if (key === 'Escape') onCancel();
+      else if (key === 'ArrowUp') move(-1);
+      else if (key === 'ArrowDown') move(1);
+      else if (key === 'ArrowLeft' || key === 'ArrowRight') {
+        const i = columns.indexOf(column) + (key === 'ArrowLeft' ? -1 : 1);
+        setColumn(columns[wrap(i, columns.length)]);
+      } else if (/^[0-9]$/.test(key)) typeDigit(key);
+      else if (timeFormat === '12h' && /^[ap]$/i.test(key)) setPeriod(key.toLowerCase() === 'a' ? 'AM' : 'PM');
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   if (Platform.OS !== 'web') {
     return null; // Use native picker for mobile
   }
 
+  const period = hours >= 12 ? 'PM' : 'AM';
+
+  // The modal keeps focus inside and returns it on close; focus starts on the
+  // dialog itself so its title is read before the first button.
   return (
     <Modal
       visible={visible}
       transparent={true}
       animationType="fade"
       onRequestClose={onCancel}
+      onShow={() => dialog.current?.focus()}
     >
       <View style={styles.backdrop}>
-        <View style={styles.container}>
-          <Text style={styles.title}>Seleccionar Hora</Text>
+        <View
+          ref={dialog}
+          style={styles.container}
+          role="dialog"
+          aria-modal={true}
+          accessibilityViewIsModal={true}
+          accessibilityLabel={t('time.pickerTitle')}
+          tabIndex={-1}
+        >
+          <Text style={styles.title}>{t('time.pickerTitle')}</Text>
+
+          <View style={styles.dateRow}>
+            <TouchableOpacity
+              style={styles.dateArrow}
+              onPress={() => shiftDay(-1)}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.previousDay')}
+            >
+              <MaterialCommunityIcons name="chevron-left" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <Text style={styles.dateText}>
+              {day.toLocaleDateString(locale, {
+                weekday: 'short',
+                day: 'numeric',
+                month: 'short',
+                year: 'numeric',
+              })}
+            </Text>
+            <TouchableOpacity
+              style={styles.dateArrow}
+              onPress={() => shiftDay(1)}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.nextDay')}
+            >
+              <MaterialCommunityIcons name="chevron-right" size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
 
           <View style={styles.pickers}>
             {/* Hour Picker */}
             <View style={styles.pickerColumn}>
-              <Text style={styles.label}>Hora</Text>
+              <Text style={[styles.label, column === 'hour' && styles.labelActive]}>{t('time.hour')}</Text>
               <ScrollView
+                ref={hourScroll}
                 style={styles.scroll}
-                snapToInterval={44}
+                snapToInterval={ITEM_HEIGHT}
                 decelerationRate="fast"
                 showsVerticalScrollIndicator={false}
               >
-                {HOURS.map((h) => (
+                {hourOptions.map((h) => (
                   <TouchableOpacity
                     key={h}
-                    style={[styles.option, hour === h && styles.optionActive]}
-                    onPress={() => setHour(h)}
+                    style={[styles.option, selectedHour === h && styles.optionActive]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${t('time.hour')} ${pad(h)}`}
+                    accessibilityState={{ selected: selectedHour === h }}
+                    onPress={() => {
+                      setHours(fromHourOption(h, hours, timeFormat));
+                      setColumn('hour');
+                    }}
                   >
                     <Text
                       style={[
                         styles.optionText,
-                        hour === h && styles.optionTextActive,
+                        selectedHour === h && styles.optionTextActive,
                       ]}
                     >
-                      {String(h).padStart(2, '0')}
+                      {pad(h)}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -97,18 +258,25 @@ export default function TimePickerModal({
 
             {/* Minute Picker */}
             <View style={styles.pickerColumn}>
-              <Text style={styles.label}>Minuto</Text>
+              <Text style={[styles.label, column === 'minute' && styles.labelActive]}>{t('time.minute')}</Text>
               <ScrollView
+                ref={minuteScroll}
                 style={styles.scroll}
-                snapToInterval={44}
+                snapToInterval={ITEM_HEIGHT}
                 decelerationRate="fast"
                 showsVerticalScrollIndicator={false}
               >
-                {MINUTES.map((m) => (
+                {minuteOptions.map((m) => (
                   <TouchableOpacity
                     key={m}
                     style={[styles.option, minute === m && styles.optionActive]}
-                    onPress={() => setMinute(m)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${t('time.minute')} ${pad(m)}`}
+                    accessibilityState={{ selected: minute === m }}
+                    onPress={() => {
+                      setMinute(m);
+                      setColumn('minute');
+                    }}
                   >
                     <Text
                       style={[
@@ -116,7 +284,7 @@ export default function TimePickerModal({
                         minute === m && styles.optionTextActive,
                       ]}
                     >
-                      {String(m).padStart(2, '0')}
+                      {pad(m)}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -124,42 +292,53 @@ export default function TimePickerModal({
             </View>
 
             {/* AM/PM Picker */}
-            <View style={styles.pickerColumn}>
-              <Text style={styles.label}>AM/PM</Text>
-              <View style={styles.ampmContainer}>
-                {['AM', 'PM'].map((ap) => (
-                  <TouchableOpacity
-                    key={ap}
-                    style={[styles.option, ampm === ap && styles.optionActive]}
-                    onPress={() => setAmpm(ap)}
-                  >
-                    <Text
-                      style={[
-                        styles.optionText,
-                        ampm === ap && styles.optionTextActive,
-                      ]}
+            {timeFormat === '12h' && (
+              <View style={styles.pickerColumn}>
+                <Text style={[styles.label, column === 'period' && styles.labelActive]}>AM/PM</Text>
+                <View style={styles.ampmContainer}>
+                  {(['AM', 'PM'] as const).map((ap) => (
+                    <TouchableOpacity
+                      key={ap}
+                      style={[styles.option, period === ap && styles.optionActive]}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: period === ap }}
+                      onPress={() => {
+                        setPeriod(ap);
+                        setColumn('period');
+                      }}
                     >
-                      {ap}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
+                      <Text
+                        style={[
+                          styles.optionText,
+                          period === ap && styles.optionTextActive,
+                        ]}
+                      >
+                        {ap}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
               </View>
-            </View>
+            )}
           </View>
 
-          <View style={styles.preview}>
-            <Text style={styles.previewLabel}>Hora seleccionada:</Text>
-            <Text style={styles.previewTime}>
-              {String(hour).padStart(2, '0')}:{String(minute).padStart(2, '0')} {ampm}
-            </Text>
+          <View style={styles.preview} accessible={true} accessibilityLiveRegion="polite">
+            <Text style={styles.previewLabel}>{t('time.selected')}</Text>
+            <Text style={styles.previewTime}>{formatClock(hours * 60 + minute, timeFormat)}</Text>
           </View>
 
+          <Text style={styles.keyboardHint}>{t('time.keyboardHint')}</Text>
+
           <View style={styles.buttons}>
-            <TouchableOpacity style={styles.buttonCancel} onPress={onCancel}>
-              <Text style={styles.buttonText}>Cancelar</Text>
+            <TouchableOpacity style={styles.buttonCancel} onPress={onCancel} accessibilityRole="button">
+              <Text style={styles.buttonText}>{t('common.cancel')}</Text>
             </TouchableOpacity>
-            <TouchableOpacity style={styles.buttonConfirm} onPress={handleConfirm}>
-              <Text style={styles.buttonTextConfirm}>Confirmar</Text>
+            <TouchableOpacity
+              style={styles.buttonConfirm}
+              onPress={handleConfirm}
+              accessibilityRole="button"
+            >
+              <Text style={styles.buttonTextConfirm}>{t('time.confirm')}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -168,110 +347,138 @@ export default function TimePickerModal({
   );
 }
 
-const styles = StyleSheet.create({
-  backdrop: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  container: {
-    backgroundColor: '#FFFFFF',
-    borderRadius: 16,
-    padding: 24,
-    width: '90%',
-    maxWidth: 400,
-  },
-  title: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#1E293B',
-    marginBottom: 16,
-    textAlign: 'center',
-  },
-  pickers: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-    marginBottom: 16,
-  },
-  pickerColumn: {
-    width: '30%',
-  },
-  label: {
-    fontSize: 12,
-    fontWeight: '600',
-    color: '#64748B',
-    textAlign: 'center',
-    marginBottom: 8,
-  },
-  scroll: {
-    maxHeight: 200,
-  },
-  option: {
-    paddingVertical: 10,
-    paddingHorizontal: 12,
-    borderRadius: 8,
-    marginVertical: 4,
-  },
-  optionActive: {
-    backgroundColor: '#9575CD',
-  },
-  optionText: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: '#1E293B',
-    textAlign: 'center',
-  },
-  optionTextActive: {
-    color: '#FFFFFF',
-    fontWeight: '700',
-  },
-  ampmContainer: {
-    flexDirection: 'column',
-  },
-  preview: {
-    backgroundColor: '#F5F6FA',
-    borderRadius: 12,
-    padding: 12,
-    marginBottom: 16,
-    alignItems: 'center',
-  },
-  previewLabel: {
-    fontSize: 12,
-    color: '#64748B',
-    marginBottom: 4,
-  },
-  previewTime: {
-    fontSize: 24,
-    fontWeight: '700',
-    color: '#9575CD',
-  },
-  buttons: {
-    flexDirection: 'row',
-    gap: 12,
-  },
-  buttonCancel: {
-    flex: 1,
-    paddingVertical: 12,
-    borderRadius: 8,
-    backgroundColor: '#E2E8F0',
-  },
-  buttonText: {
-    textAlign: 'center',
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#64748B',
-  },
-  buttonConfirm: {
-    flex: 1,
-    paddingVertical: 12,
-    borderRadius: 8,
-    backgroundColor: '#9575CD',
-  },
-  buttonTextConfirm: {
-    textAlign: 'center',
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#FFFFFF',
-  },
-});
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: colors.backdrop,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 16,
+      textAlign: 'center',
+    },
+    dateRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    dateArrow: {
+      width: 44,
+      height: 44,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    dateText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    pickers: {
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+      marginBottom: 16,
+    },
+    pickerColumn: {
+      width: '30%',
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    labelActive: {
+      color: colors.primary,
+    },
+    scroll: {
+      maxHeight: SCROLL_HEIGHT,
+    },
+    option: {
+      height: ITEM_HEIGHT - 8,
+      justifyContent: 'center',
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      marginVertical: 4,
+    },
+    optionActive: {
+      backgroundColor: colors.primary,
+    },
+    optionText: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+      textAlign: 'center',
+    },
+    optionTextActive: {
+      color: colors.onPrimary,
+      fontWeight: '700',
+    },
+    ampmContainer: {
+      flexDirection: 'column',
+    },
+    preview: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 16,
+      alignItems: 'center',
+    },
+    previewLabel: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginBottom: 4,
+    },
+    previewTime: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    keyboardHint: {
+      fontSize: 11,
+      color: colors.textFaint,
+      textAlign: 'center',
+      marginBottom: 12,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    buttonCancel: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+    },
+    buttonText: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    buttonConfirm: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+    },
+    buttonTextConfirm: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+  });
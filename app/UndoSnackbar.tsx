@@ -0,0 +1,89 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, AccessibilityInfo, Platform } from 'react-native';
+import type { Palette } from '@/constants/colors';
+import { HIT_SLOP } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useThemedStyles } from '@/hooks/useTheme';
+
+// How long the bar stays up before it dismisses itself.
+const VISIBLE_MS = 5000;
+
+interface UndoSnackbarProps {
+  notice: { id: number; message: string } | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export default function UndoSnackbar({ notice, onUndo, onDismiss }: UndoSnackbarProps) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(onDismiss, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [notice, onDismiss]);
+  // The bar is a live region elsewhere; iOS only reads announcements.
+  useEffect(() => {
+    if (notice && Platform.OS === 'ios') AccessibilityInfo.announceForAccessibility(notice.message);
+  }, [notice]);
+
+  if (!notice) return null;
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.bar} accessibilityLiveRegion="polite">
+        <Text style={styles.message}>{notice.message}</Text>
+        <TouchableOpacity
+          style={styles.action}
+          onPress={onUndo}
+          hitSlop={HIT_SLOP}
+          accessibilityRole="button"
+        >
+          <Text style={styles.actionText}>{t('common.undo')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      bottom: 24,
+      alignItems: 'center',
+      paddingHorizontal: 16,
+    },
+    bar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      maxWidth: 560,
+      backgroundColor: colors.inverseSurface,
+      borderRadius: 8,
+      paddingLeft: 16,
+      paddingRight: 8,
+      paddingVertical: 8,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      elevation: 6,
+    },
+    message: {
+      flexShrink: 1,
+      fontSize: 14,
+      color: colors.onInverseSurface,
+    },
+    action: {
+      paddingHorizontal: 8,
+      paddingVertical: 6,
+    },
+    actionText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.inversePrimary,
+    },
+  });
@@ -2,8 +2,15 @@
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Stack } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
+import { StatusBar } from "expo-status-bar";
 import React, { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
+import { PrescriptionsProvider } from "@/hooks/usePrescriptions";
+import { SessionsProvider } from "@/hooks/useSessions";
+import { useI18n } from "@/hooks/useI18n";
+import { SettingsProvider } from "@/hooks/useSettings";
+import { TariffsProvider } from "@/hooks/useTariffs";
+import { useTheme } from "@/hooks/useTheme";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -11,10 +18,29 @@ SplashScreen.preventAutoHideAsync();
 const queryClient = new QueryClient();
 
 function RootLayoutNav() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
   return (
-    <Stack screenOptions={{ headerBackTitle: "Atrás" }}>
-      <Stack.Screen name="index" options={{ headerShown: false }} />
-    </Stack>
+    <>
+      <StatusBar style={colors.statusBar} />
+      <Stack
+        screenOptions={{
+          headerBackTitle: t("navigation.back"),
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          contentStyle: { backgroundColor: colors.background },
+        }}
+      >
+        <Stack.Screen name="index" options={{ headerShown: false }} />
+        <Stack.Screen name="sessions" options={{ title: t("navigation.sessions") }} />
+        <Stack.Screen name="tariffs" options={{ title: t("navigation.tariffs") }} />
+        <Stack.Screen name="settings" options={{ title: t("navigation.settings") }} />
+        <Stack.Screen name="import" options={{ title: t("navigation.import") }} />
+        <Stack.Screen name="report" options={{ title: t("navigation.report") }} />
+        <Stack.Screen name="cylinders" options={{ title: t("navigation.cylinders") }} />
+        <Stack.Screen name="prescriptions" options={{ title: t("navigation.prescriptions") }} />
+      </Stack>
+    </>
   );
 }
 
@@ -25,9 +51,17 @@ export default function RootLayout() {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <GestureHandlerRootView style={{ flex: 1 }}>
-        <RootLayoutNav />
-      </GestureHandlerRootView>
+      <SettingsProvider>
+        <TariffsProvider>
+          <SessionsProvider>
+            <PrescriptionsProvider>
+              <GestureHandlerRootView style={{ flex: 1 }}>
+                <RootLayoutNav />
+              </GestureHandlerRootView>
+            </PrescriptionsProvider>
+          </SessionsProvider>
+        </TariffsProvider>
+      </SettingsProvider>
     </QueryClientProvider>
   );
 }
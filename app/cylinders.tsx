@@ -0,0 +1,307 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { Palette } from '@/constants/colors';
+import { MIN_TOUCH_TARGET } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useNow } from '@/hooks/useNow';
+import { useSessions } from '@/hooks/useSessions';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { Cylinder } from '@/types/oxygen';
+import { confirmAction } from '@/utils/confirm';
+import {
+  CYLINDER_SIZES,
+  formatTimeToEmpty,
+  getCylinderUsage,
+  parseCapacity,
+  parseFillPercent,
+} from '@/utils/cylinders';
+import { getLiveEntry, previewLiveEntry } from '@/utils/live';
+
+export default function CylindersScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+  const litersFormat = useMemo(
+    () => new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }),
+    [locale]
+  );
+  const formatLiters = (liters: number) => litersFormat.format(liters);
+  const { activeSession, addCylinder, removeCylinder } = useSessions();
+  const liveEntry = getLiveEntry(activeSession);
+  const now = useNow(!!liveEntry);
+  const readOnly = !!activeSession.closedAt;
+  const cylinders = activeSession.cylinders ?? [];
+
+  const [label, setLabel] = useState('');
+  const [capacity, setCapacity] = useState(String(CYLINDER_SIZES[0]));
+  const [fill, setFill] = useState('100');
+  const [error, setError] = useState<string | null>(null);
+
+  // The live row counts up to now against its cylinder.
+  const entries = activeSession.entries.map((entry) =>
+    entry.id === liveEntry?.id ? previewLiveEntry(entry, now) : entry
+  );
+  const usage = getCylinderUsage(cylinders, entries);
+
+  const submit = () => {
+    const capacityLiters = parseCapacity(capacity);
+    const fillPercent = parseFillPercent(fill);
+    if (capacityLiters === null) {
+      setError(t('cylinders.invalidCapacity'));
+      return;
+    }
+    if (fillPercent === null) {
+      setError(t('cylinders.invalidFill'));
+      return;
+    }
+    addCylinder(
+      label.trim() || t('cylinders.defaultLabel', { number: cylinders.length + 1 }),
+      capacityLiters,
+      fillPercent
+    );
+    setLabel('');
+    setError(null);
+  };
+
+  const confirmRemove = (cylinder: Cylinder) =>
+    confirmAction(
+      t('cylinders.remove'),
+      t('cylinders.removeMessage', { cylinder: cylinder.label }),
+      t('cylinders.removeConfirm'),
+      t('common.cancel'),
+      () => removeCylinder(cylinder.id)
+    );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {usage.length === 0 && (
+        <Text style={styles.hint}>{t('cylinders.hint')}</Text>
+      )}
+      {usage.map(({ cylinder, consumedLiters, remainingLiters, currentFlow, minutesToEmpty }) => {
+        const initial = (cylinder.capacityLiters * cylinder.fillPercent) / 100;
+        const ratio = initial > 0 ? remainingLiters / initial : 0;
+        return (
+          <View key={cylinder.id} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>{cylinder.label}</Text>
+              {!readOnly && (
+                <TouchableOpacity
+                  style={styles.action}
+                  onPress={() => confirmRemove(cylinder)}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('cylinders.remove')}
+                >
+                  <MaterialCommunityIcons name="delete" size={18} color={colors.danger} />
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.meta}>
+              {t('cylinders.meta', {
+                capacity: formatLiters(cylinder.capacityLiters),
+                fill: cylinder.fillPercent,
+                consumed: formatLiters(consumedLiters),
+              })}
+            </Text>
+            <View style={styles.gauge}>
+              <View
+                style={[
+                  styles.gaugeFill,
+                  { width: `${Math.round(ratio * 100)}%` },
+                  ratio < 0.2 && styles.gaugeLow,
+                ]}
+              />
+            </View>
+            <Text style={styles.remaining}>
+              {t('cylinders.remaining', { liters: formatLiters(remainingLiters) })}
+            </Text>
+            <Text style={styles.meta}>
+              {minutesToEmpty === null
+                ? t('cylinders.noFlow')
+                : remainingLiters === 0
+                  ? t('cylinders.empty')
+                  : t('cylinders.empties', {
+                      time: formatTimeToEmpty(minutesToEmpty, t),
+                      flow: currentFlow ?? '',
+                    })}
+            </Text>
+          </View>
+        );
+      })}
+
+      {!readOnly && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('cylinders.add')}</Text>
+          <Text style={styles.label}>{t('cylinders.name')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={t('cylinders.defaultLabel', { number: cylinders.length + 1 })}
+            placeholderTextColor={colors.placeholder}
+            value={label}
+            onChangeText={setLabel}
+          />
+          <Text style={styles.label}>{t('cylinders.capacity')}</Text>
+          <View style={styles.sizes}>
+            {CYLINDER_SIZES.map((size) => {
+              const active = capacity === String(size);
+              return (
+                <TouchableOpacity
+                  key={size}
+                  style={[styles.size, active && styles.sizeActive]}
+                  onPress={() => setCapacity(String(size))}
+                >
+                  <Text style={[styles.sizeText, active && styles.sizeTextActive]}>
+                    {formatLiters(size)} L
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TextInput
+            style={styles.input}
+            keyboardType="decimal-pad"
+            value={capacity}
+            onChangeText={setCapacity}
+          />
+          <Text style={styles.label}>{t('cylinders.fill')}</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType="decimal-pad"
+            value={fill}
+            onChangeText={setFill}
+          />
+          {error && <Text style={styles.error}>{error}</Text>}
+          <TouchableOpacity style={styles.button} onPress={submit}>
+            <MaterialCommunityIcons name="plus" size={18} color={colors.onPrimary} />
+            <Text style={styles.buttonText}>{t('cylinders.submit')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      gap: 12,
+    },
+    hint: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 2,
+      borderColor: colors.border,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    cardTitle: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    action: {
+      width: MIN_TOUCH_TARGET,
+      height: MIN_TOUCH_TARGET,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    meta: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+    gauge: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.border,
+      marginVertical: 8,
+      overflow: 'hidden',
+    },
+    gaugeFill: {
+      height: '100%',
+      backgroundColor: colors.success,
+    },
+    gaugeLow: {
+      backgroundColor: colors.danger,
+    },
+    remaining: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textMuted,
+      marginBottom: 4,
+    },
+    input: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 6,
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: 12,
+    },
+    sizes: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 8,
+    },
+    size: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 6,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    sizeActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    sizeText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    sizeTextActive: {
+      color: colors.onPrimary,
+    },
+    error: {
+      fontSize: 12,
+      color: colors.danger,
+      marginBottom: 12,
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      paddingVertical: 12,
+      borderRadius: 8,
+      gap: 6,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+  });
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import type { Palette } from '@/constants/colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useSessions } from '@/hooks/useSessions';
+import { useSettings } from '@/hooks/useSettings';
+import { useTariffs } from '@/hooks/useTariffs';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { calculateMinutes } from '@/utils/billing';
+import { confirmAction } from '@/utils/confirm';
+import { isEntryEmpty } from '@/utils/entries';
+import { formatEntryEnd, formatEntryStart } from '@/utils/format';
+import { parseImportText } from '@/utils/importText';
+import { EMPTY_PATIENT, describePatient } from '@/utils/patient';
+
+export default function ImportScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const router = useRouter();
+  const { activeSession, importEntries } = useSessions();
+  const { regimes } = useTariffs();
+  const { settings } = useSettings();
+  const [text, setText] = useState('');
+
+  const result = useMemo(() => parseImportText(text, regimes), [text, regimes]);
+  const regime = regimes.find((r) => r.id === result.regimeId);
+  const hasRows = activeSession.entries.some((entry) => !isEntryEmpty(entry));
+
+  const apply = (mode: 'replace' | 'append') => {
+    importEntries(result.entries, mode, {
+      patientLabel: result.patientLabel,
+      patient: result.patient,
+      insuranceType: result.regimeId,
+    });
+    router.back();
+  };
+
+  const confirmReplace = () => {
+    if (!hasRows) {
+      apply('replace');
+      return;
+    }
+    confirmAction(
+      t('import.replaceTitle'),
+      t('import.replaceMessage', { patient: activeSession.patientLabel }),
+      t('import.replace'),
+      t('common.cancel'),
+      () => apply('replace')
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.label}>{t('import.label')}</Text>
+        <TextInput
+          style={styles.input}
+          multiline={true}
+          placeholder={'7:00am-9:30am 2L\n9:30am-1:00pm 1,5L'}
+          placeholderTextColor={colors.placeholder}
+          value={text}
+          onChangeText={setText}
+          autoCorrect={false}
+          autoCapitalize="none"
+        />
+
+        {text.trim() !== '' && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {t('import.preview', { count: result.entries.length })}
+            </Text>
+            {result.patientLabel && (
+              <Text style={styles.meta}>
+                {t('document.patient')}: {result.patientLabel}
+              </Text>
+            )}
+            {describePatient({ ...EMPTY_PATIENT, ...result.patient }, t).map(([label, value]) => (
+              <Text key={label} style={styles.meta}>
+                {label}: {value}
+              </Text>
+            ))}
+            {result.factor !== undefined && (
+              <Text style={styles.meta}>
+                {regime
+                  ? t('import.regime', { regime: regime.label, factor: result.factor })
+                  : t('import.noRegime', { factor: result.factor })}
+              </Text>
+            )}
+            {result.entries.map((entry, i) => (
+              <Text key={entry.id} style={styles.row}>
+                {i + 1}. {formatEntryStart(entry, settings.timeFormat) || '-'} →{' '}
+                {formatEntryEnd(entry, settings.timeFormat) || '-'} ·{' '}
+                {entry.flowRate ? `${entry.flowRate} L/min` : t('import.noFlow')} ·{' '}
+                {calculateMinutes(entry)} min
+              </Text>
+            ))}
+            {result.skipped.length > 0 && (
+              <>
+                <Text style={styles.skippedTitle}>{t('import.skipped')}</Text>
+                {result.skipped.map((line) => (
+                  <Text key={line.line} style={styles.skipped}>
+                    {t('import.skippedLine', { line: line.line, text: line.text })}
+                  </Text>
+                ))}
+              </>
+            )}
+          </View>
+        )}
+
+        {result.entries.length > 0 && (
+          <>
+            <Text style={styles.hint}>{t('import.hint')}</Text>
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.buttonSecondary} onPress={() => apply('append')}>
+                <Text style={styles.buttonText}>{t('import.append')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.buttonConfirm} onPress={confirmReplace}>
+                <Text style={styles.buttonTextConfirm}>{t('import.replace')}</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      gap: 12,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      minHeight: 160,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      textAlignVertical: 'top',
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 2,
+      borderColor: colors.border,
+      gap: 4,
+    },
+    cardTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    meta: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+    row: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    skippedTitle: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.danger,
+      marginTop: 8,
+    },
+    skipped: {
+      fontSize: 12,
+      color: colors.danger,
+    },
+    hint: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    buttonSecondary: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+    },
+    buttonText: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    buttonConfirm: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+    },
+    buttonTextConfirm: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+  });
@@ -1,45 +1,160 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
   ScrollView,
+  FlatList,
   TouchableOpacity,
   TextInput,
   Platform,
   Linking,
   Alert,
   Share,
+  ActivityIndicator,
+  Modal,
+  AccessibilityInfo,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import DateTimePicker, { DateTimePickerAndroid } from '@react-native-community/datetimepicker';
-import styles from './styles';
+import createStyles from './styles';
+import EntryRow, { type EntryRowActions } from './EntryRow';
+import PatientForm from './PatientForm';
 import TimePickerModal from './TimePickerModal';
-
-type InsuranceType = 'contributivo' | 'subsidiado';
-
-interface OxygenEntry {
-  id: string;
-  startTime: string;
-  endTime: string;
-  flowRate: string;
-}
+import UndoSnackbar from './UndoSnackbar';
+import { useRouter } from 'expo-router';
+import { HIT_SLOP, MIN_TOUCH_TARGET } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useNow } from '@/hooks/useNow';
+import { useSessions } from '@/hooks/useSessions';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { useTariffs } from '@/hooks/useTariffs';
+import type { Cylinder, OxygenEntry, TimeField } from '@/types/oxygen';
+import {
+  calculateEntryCost,
+  calculateLitersByKind,
+  calculateMinutes,
+  displayEntryCost,
+  formatTime,
+  getSessionRounding,
+  getSessionTotal,
+  parseFlowRate,
+  parseTime,
+} from '@/utils/billing';
+import { confirmAction } from '@/utils/confirm';
+import { formatTimeToEmpty, getCylinderUsage } from '@/utils/cylinders';
+import { addDays, dateKeyToDate, toDateKey } from '@/utils/dates';
+import { DELIVERY_DEVICES } from '@/utils/devices';
+import { countBlankRows, isEntryEmpty } from '@/utils/entries';
+import {
+  CSV_MIME_TYPE,
+  XLSX_MIME_TYPE,
+  buildExportTable,
+  exportFileName,
+  toCsv,
+  toXlsx,
+} from '@/utils/export';
+import { describeRounding, formatCurrency, litersFormatter } from '@/utils/format';
+import { getLiveEntry, previewLiveEntry } from '@/utils/live';
+import { buildReportHtml } from '@/utils/report';
+import { buildShareMessage } from '@/utils/share';
+import { calculateShiftTotals, describeShiftTotal } from '@/utils/shifts';
+import { shareFile, sharePdf } from '@/utils/shareFile';
+import { countRowsWithErrors, validateEntries } from '@/utils/validation';
+import { withBasePath } from '@/utils/webPath';
+
+// Pause in edits after which iOS reads out the new total.
+const ANNOUNCE_DELAY_MS = 1000;
+
+// Shared by sessions without a cylinder inventory, so rows see the same list.
+const NO_CYLINDERS: Cylinder[] = [];
+
+const parseTimeToDate = (time: string, base: Date = new Date()) => {
+  const d = new Date(base);
+  const minutes = parseTime(time);
+  if (minutes === null) return d;
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return d;
+};
+
+// Day the picker opens on when the cell has no date yet: the start date for
+// an end time, the previous row's end date for a start time, else today.
+const defaultDateKey = (entries: OxygenEntry[], entryId: string, field: TimeField) => {
+  const idx = entries.findIndex((e) => e.id === entryId);
+  const entry = entries[idx];
+  if (!entry) return toDateKey(new Date());
+  const own = field === 'startTime' ? entry.startDate : entry.endDate;
+  const inherited = field === 'endTime' ? entry.startDate : entries[idx - 1]?.endDate;
+  return own ?? inherited ?? toDateKey(new Date());
+};
 
 export default function OxygenCalculatorScreen() {
-  const [insuranceType, setInsuranceType] = useState<InsuranceType>('contributivo');
-  const [entries, setEntries] = useState<OxygenEntry[]>(() => {
-    return Array.from({ length: 20 }, (_, i) => ({
-      id: `entry-${i}`,
-      startTime: '',
-      endTime: '',
-      flowRate: '',
-    }));
-  });
+  const { name: themeName, colors } = useTheme();
+  const { t, locale, report } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const {
+    hydrated,
+    activeSession,
+    newSession,
+    renameSession,
+    updatePatient,
+    setInsuranceType,
+    addEntry,
+    addPressureEntry,
+    removeEntry,
+    compactEntries,
+    updateEntry,
+    setEntryTime,
+    startLive,
+    stopLive,
+    changeLiveFlow,
+    assignCylinder,
+    setEntryDevice,
+    setVenturiFio2,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    notice,
+    dismissNotice,
+  } = useSessions();
+  const { regimes, resolveTariff } = useTariffs();
+  const { insuranceType, tariff, entries } = activeSession;
+  const currentTariff = resolveTariff(insuranceType);
+  const { settings } = useSettings();
+  // Closed sessions keep the currency and rounding they were totalled with.
+  const rounding = getSessionRounding(activeSession, settings.rounding);
+  const currency = activeSession.currency ?? settings.currency;
+  const formatMoney = (amount: number) => formatCurrency(amount, currency, rounding, locale);
+  const litersFormat = useMemo(() => litersFormatter(locale), [locale]);
+  const formatLiters = (liters: number) => litersFormat.format(liters);
+  const readOnly = !!activeSession.closedAt;
+  const liveEntry = getLiveEntry(activeSession);
+  const now = useNow(!!liveEntry);
+  const [flowDraft, setFlowDraft] = useState<string | null>(null);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo table edits on web.
+  // Inside a text field the browser's own undo for that field wins.
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
 
   const [timePicker, setTimePicker] = useState<{
     visible: boolean;
     entryId?: string;
-    field?: keyof OxygenEntry;
+    field?: TimeField;
     date?: Date;
   }>({ visible: false });
 
@@ -47,78 +162,129 @@ export default function OxygenCalculatorScreen() {
   const [webTimePickerDate, setWebTimePickerDate] = useState<Date>(new Date());
   const [webTimePickerEntry, setWebTimePickerEntry] = useState<{
     entryId?: string;
-    field?: keyof OxygenEntry;
+    field?: TimeField;
   }>({});
 
-  const parseTimeToDate = (time: string) => {
-    const d = new Date();
-    if (!time) return d;
-    let s = time.trim().toUpperCase();
-
-    // Handle 12h format with AM/PM
-    const ampmMatch = /(AM|PM)$/.exec(s);
-    if (ampmMatch) {
-      const ampm = ampmMatch[1];
-      const timePart = s.replace(/\s?(AM|PM)$/i, '').trim();
-      const parts = timePart.split(':');
-      if (parts.length !== 2) return d;
-      let h = parseInt(parts[0], 10);
-      const m = parseInt(parts[1], 10) || 0;
-      if (isNaN(h)) h = 0;
-      if (ampm === 'PM' && h < 12) h += 12;
-      if (ampm === 'AM' && h === 12) h = 0;
-      d.setHours(h);
-      d.setMinutes(m);
-      d.setSeconds(0);
-      d.setMilliseconds(0);
-      return d;
-    }
-
-    // Fallback: accept 24h HH:MM
-    const parts = s.split(':');
-    if (parts.length !== 2) return d;
-    const hours = parseInt(parts[0], 10);
-    const minutes = parseInt(parts[1], 10);
-    if (!isNaN(hours)) d.setHours(hours);
-    if (!isNaN(minutes)) d.setMinutes(minutes);
-    d.setSeconds(0);
-    d.setMilliseconds(0);
-    return d;
-  };
+  // Latest rows, for the handlers below, which stay the same across renders
+  // so the memoized rows are not redrawn on every edit.
+  const entriesRef = useRef(entries);
+  useEffect(() => {
+    entriesRef.current = entries;
+  }, [entries]);
+
+  const commitPickedTime = useCallback(
+    (entryId: string, field: TimeField, selectedDate: Date) => {
+      const entry = entriesRef.current.find((e) => e.id === entryId);
+      const time = formatTime(selectedDate);
+      let dateKey = toDateKey(selectedDate);
+      // Picking an end time earlier than the start on the same day almost always
+      // means the administration ran past midnight, as with time-only rows.
+      if (field === 'endTime' && entry && !entry.endDate && entry.startDate === dateKey) {
+        const start = parseTime(entry.startTime);
+        const end = parseTime(time);
+        if (start !== null && end !== null && end < start) dateKey = addDays(dateKey, 1);
+      }
+      setEntryTime(entryId, field, time, dateKey);
+    },
+    [setEntryTime]
+  );
 
-  const formatDateToTime = (date: Date) => {
-    const hours = date.getHours();
-    const mm = String(date.getMinutes()).padStart(2, '0');
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-    let h12 = hours % 12;
-    if (h12 === 0) h12 = 12;
-    return `${h12}:${mm} ${ampm}`;
-  };
+  // Typed times are stamped like picked ones, on the day the picker would
+  // have opened on. Clearing the text clears the time.
+  const commitTypedTime = useCallback(
+    (entryId: string, field: TimeField, text: string) => {
+      if (!text) {
+        updateEntry(entryId, field, '');
+        return;
+      }
+      const base = dateKeyToDate(defaultDateKey(entriesRef.current, entryId, field)) ?? new Date();
+      commitPickedTime(entryId, field, parseTimeToDate(text, base));
+    },
+    [updateEntry, commitPickedTime]
+  );
 
-  const openTimePicker = (entryId: string, field: keyof OxygenEntry) => {
-    const entry = entries.find((e) => e.id === entryId);
-    const date = entry ? parseTimeToDate(entry[field]) : new Date();
+  // Text cells by row and column (start, end, flow), so Enter can move on
+  // like in a spreadsheet: along the row, then to the next row's start. The
+  // list keeps the rows around the visible ones mounted, so the next cell is
+  // there to take focus.
+  const cellRefs = useRef(new Map<string, TextInput>());
+  // A cell to focus once its row is rendered, for rows scrolled out of view.
+  const pendingFocus = useRef<string | null>(null);
+  const registerCell = useCallback(
+    (entryId: string, column: number) => (input: TextInput | null) => {
+      const key = `${entryId}:${column}`;
+      if (!input) {
+        cellRefs.current.delete(key);
+        return;
+      }
+      cellRefs.current.set(key, input);
+      if (pendingFocus.current === key) {
+        pendingFocus.current = null;
+        input.focus();
+      }
+    },
+    []
+  );
+  const focusNextCell = useCallback((row: number, column: number) => {
+    const rows = entriesRef.current;
+    const [nextRow, nextColumn] = column < 2 ? [row, column + 1] : [row + 1, 0];
+    const next = rows[nextRow] && cellRefs.current.get(`${rows[nextRow].id}:${nextColumn}`);
+    if (next) next.focus();
+    else cellRefs.current.get(`${rows[row].id}:${column}`)?.blur();
+  }, []);
+
+  // Adding a row means going to the trailing blank one, once it is rendered.
+  const listRef = useRef<FlatList<OxygenEntry>>(null);
+  const [blankRowRequest, setBlankRowRequest] = useState(0);
+  const goToBlankRow = useCallback(() => {
+    addEntry();
+    setBlankRowRequest((n) => n + 1);
+  }, [addEntry]);
+  useEffect(() => {
+    if (!blankRowRequest) return;
+    const rows = entriesRef.current;
+    const key = `${rows[rows.length - 1].id}:0`;
+    listRef.current?.scrollToEnd({ animated: false });
+    const cell = cellRefs.current.get(key);
+    if (cell) cell.focus();
+    else pendingFocus.current = key;
+  }, [blankRowRequest]);
+
+  const openTimePicker = useCallback((entryId: string, field: TimeField) => {
+    const entry = entriesRef.current.find((e) => e.id === entryId);
+    const base = dateKeyToDate(defaultDateKey(entriesRef.current, entryId, field)) ?? new Date();
+    const date = entry ? parseTimeToDate(entry[field], base) : new Date();
     // Web: use custom modal picker
     if (Platform.OS === 'web') {
+      // The modal hands focus back to whatever had it when it opened, and the
+      // clock button is not focusable, so give it to the cell first.
+      cellRefs.current.get(`${entryId}:${field === 'startTime' ? 0 : 1}`)?.focus();
       setWebTimePickerDate(date);
       setWebTimePickerEntry({ entryId, field });
       setWebTimePickerVisible(true);
       return;
     }
-    // On Android use the native dialog helper for more reliable behavior
+    // On Android use the native dialog helper for more reliable behavior.
+    // It has no combined mode, so ask for the day first and then the time.
     if (Platform.OS === 'android' && DateTimePickerAndroid) {
       try {
         DateTimePickerAndroid.open({
           value: date,
-          onChange: (event, selectedDate) => {
-            // on Android, update directly using the captured entryId/field
-            if (selectedDate) {
-              const formatted = formatDateToTime(selectedDate as Date);
-              updateEntry(entryId, field, formatted);
-            }
+          onChange: (event, selectedDay) => {
+            if (event.type !== 'set' || !selectedDay) return;
+            DateTimePickerAndroid.open({
+              value: selectedDay,
+              onChange: (timeEvent, selectedDate) => {
+                // on Android, update directly using the captured entryId/field
+                if (timeEvent.type === 'set' && selectedDate) {
+                  commitPickedTime(entryId, field, selectedDate);
+                }
+              },
+              mode: 'time',
+              is24Hour: settings.timeFormat === '24h',
+            });
           },
-          mode: 'time',
-          is24Hour: false,
+          mode: 'date',
         });
         return;
       } catch (e) {
@@ -128,91 +294,119 @@ export default function OxygenCalculatorScreen() {
     }
 
     setTimePicker({ visible: true, entryId, field, date });
-  };
+  }, [commitPickedTime, settings.timeFormat]);
 
   const onTimeChange = (_event: any, selectedDate?: Date) => {
     if (selectedDate && timePicker.entryId && timePicker.field) {
-      const formatted = formatDateToTime(selectedDate);
-      updateEntry(timePicker.entryId, timePicker.field, formatted);
+      commitPickedTime(timePicker.entryId, timePicker.field, selectedDate);
     }
     // Close picker after selection or dismissal
     setTimePicker({ visible: false });
   };
 
-  const paymentFactor = insuranceType === 'contributivo' ? 0.45 : 0.25;
-
-  const calculateMinutes = (startTime: string, endTime: string): number => {
-    if (!startTime || !endTime) return 0;
-    const parseTime = (time: string): number | null => {
-      if (!time) return null;
-      const s = time.trim().toUpperCase();
-      // Match formats like '7:00 AM', '07:00 AM', '14:30', '14:30 PM' (last is invalid but handled)
-      const m = s.match(/^\s*(\d{1,2}):(\d{2})(?:\s*(AM|PM))?\s*$/i);
-      if (!m) return null;
-      let hours = parseInt(m[1], 10);
-      const minutes = parseInt(m[2], 10);
-      const ampm = m[3];
-      if (isNaN(hours) || isNaN(minutes)) return null;
-      if (ampm) {
-        // Convert 12h to 24h
-        if (ampm === 'PM' && hours < 12) hours += 12;
-        if (ampm === 'AM' && hours === 12) hours = 0;
-      }
-      if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) return null;
-      return hours * 60 + minutes;
-    };
+  const paymentFactor = tariff.factor;
 
-    const startMinutes = parseTime(startTime);
-    const endMinutes = parseTime(endTime);
+  const totalCost = useMemo(
+    () => getSessionTotal(activeSession, rounding),
+    [activeSession, rounding]
+  );
 
-    if (startMinutes === null || endMinutes === null) return 0;
+  // The total is a polite live region on Android and web; iOS has none, so
+  // it is announced there once edits pause rather than on every keystroke.
+  const totalMessage = t('a11y.total', { total: formatMoney(totalCost) });
+  const announcedTotal = useRef(totalMessage);
+  useEffect(() => {
+    if (Platform.OS !== 'ios' || totalMessage === announcedTotal.current) return;
+    const timer = setTimeout(() => {
+      announcedTotal.current = totalMessage;
+      AccessibilityInfo.announceForAccessibility(totalMessage);
+    }, ANNOUNCE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [totalMessage]);
+
+  const issues = useMemo(
+    () => validateEntries(entries, t, liveEntry?.id),
+    [entries, t, liveEntry?.id]
+  );
 
-    let diff = endMinutes - startMinutes;
-    if (diff < 0) {
-      diff += 24 * 60;
-    }
+  const litersByKind = useMemo(() => calculateLitersByKind(entries), [entries]);
+  const totalLiters = litersByKind.time + litersByKind.pressure;
 
-    return diff;
-  };
+  const shiftTotals = useMemo(
+    () => calculateShiftTotals(entries, settings.shifts, paymentFactor),
+    [entries, settings.shifts, paymentFactor]
+  );
 
-  const calculateCost = useMemo(() => {
-    return (entry: OxygenEntry): number => {
-      const minutes = calculateMinutes(entry.startTime, entry.endTime);
-      const flow = parseFloat(entry.flowRate) || 0;
-      return minutes * flow * paymentFactor;
-    };
-  }, [paymentFactor]);
-
-  const totalCost = useMemo(() => {
-    return entries.reduce((sum, entry) => sum + calculateCost(entry), 0);
-  }, [entries, calculateCost]);
-
-  const buildShareMessage = () => {
-    const lines: string[] = [];
-    lines.push('Registro de suministros de oxígeno');
-    lines.push('');
-    // Header row
-    lines.push('No. | Inicio | Fin | L/min | Min | Costo');
-    lines.push('---------------------------------------------');
-    entries.forEach((entry, i) => {
-      // Include only rows with minutes > 0
-      const mins = calculateMinutes(entry.startTime, entry.endTime);
-      if (!mins || mins <= 0) return;
-      const cost = calculateCost(entry);
-      const inicio = entry.startTime || '-';
-      const fin = entry.endTime || '-';
-      const flow = entry.flowRate || '-';
-      const costStr = cost > 0 ? cost.toFixed(2) : '-';
-      lines.push(`${i + 1} | ${inicio} | ${fin} | ${flow} | ${mins} | ${costStr}`);
-    });
-    lines.push('');
-    lines.push(`Total a Pagar: $${totalCost.toFixed(2)}`);
-    lines.push(`Factor aplicado: ${paymentFactor} (${insuranceType})`);
-    return lines.join('\n');
+  // The live row is shown and costed as if it were stopped right now.
+  const livePreview = liveEntry ? previewLiveEntry(liveEntry, now) : undefined;
+
+  const cylinders = activeSession.cylinders ?? NO_CYLINDERS;
+  const cylinderUsage = getCylinderUsage(
+    cylinders,
+    entries.map((entry) => (entry.id === livePreview?.id ? livePreview : entry))
+  );
+
+  // Tapping a row's device cell steps through the devices, then back to none.
+  const cycleDevice = useCallback(
+    (entry: OxygenEntry) => {
+      const idx = DELIVERY_DEVICES.findIndex((d) => d.id === entry.device);
+      setEntryDevice(entry.id, DELIVERY_DEVICES[idx + 1]?.id);
+    },
+    [setEntryDevice]
+  );
+
+  // Tapping a row's cylinder cell steps through the inventory, then back to none.
+  const cycleCylinder = useCallback(
+    (entry: OxygenEntry) => {
+      const idx = cylinders.findIndex((c) => c.id === entry.cylinderId);
+      assignCylinder(entry.id, cylinders[idx + 1]?.id);
+    },
+    [cylinders, assignCylinder]
+  );
+
+  const rowActions = useMemo<EntryRowActions>(
+    () => ({
+      updateEntry,
+      commitTypedTime,
+      openTimePicker,
+      registerCell,
+      focusNextCell,
+      cycleDevice,
+      cycleCylinder,
+      startLive,
+      removeEntry,
+      setVenturiFio2,
+    }),
+    [
+      updateEntry,
+      commitTypedTime,
+      openTimePicker,
+      registerCell,
+      focusNextCell,
+      cycleDevice,
+      cycleCylinder,
+      startLive,
+      removeEntry,
+      setVenturiFio2,
+    ]
+  );
+
+  const submitFlowChange = () => {
+    if (flowDraft && parseFlowRate(flowDraft)) {
+      changeLiveFlow(flowDraft);
+      setFlowDraft(null);
+    }
   };
 
-  const shareViaWhatsApp = async () => {
-    const msg = buildShareMessage();
+  const sendShareMessage = async () => {
+    // Written in the report language, like the exports.
+    const msg = buildShareMessage(activeSession, {
+      currency,
+      rounding,
+      timeFormat: settings.timeFormat,
+      shifts: settings.shifts,
+      i18n: report,
+    });
     const url = `whatsapp://send?text=${encodeURIComponent(msg)}`;
     try {
       const supported = await Linking.canOpenURL(url);
@@ -228,123 +422,289 @@ export default function OxygenCalculatorScreen() {
     try {
       await Share.share({ message: msg });
     } catch (e) {
-      Alert.alert('No se pudo compartir', 'Asegúrate de tener WhatsApp instalado o copia el texto manualmente.');
+      Alert.alert(t('index.shareFailed'), t('index.shareFailedMessage'));
     }
   };
 
-  const addEntry = () => {
-    setEntries([
-      ...entries,
-      {
-        id: `entry-${Date.now()}`,
-        startTime: '',
-        endTime: '',
-        flowRate: '',
-      },
-    ]);
+  const shareViaWhatsApp = () => {
+    const rowsWithErrors = countRowsWithErrors(issues);
+    if (rowsWithErrors === 0) {
+      sendShareMessage();
+      return;
+    }
+    confirmAction(
+      t('index.unresolved'),
+      t('index.unresolvedMessage', { count: rowsWithErrors }),
+      t('index.send'),
+      t('common.cancel'),
+      sendShareMessage
+    );
   };
 
-  const removeEntry = (id: string) => {
-    if (entries.length > 1) {
-      setEntries(entries.filter((entry) => entry.id !== id));
+  const exportSpreadsheet = async (format: 'csv' | 'xlsx') => {
+    const table = buildExportTable(
+      activeSession,
+      currency,
+      rounding,
+      settings.timeFormat,
+      report
+    );
+    try {
+      if (format === 'csv') {
+        await shareFile(exportFileName(activeSession, 'csv', report.t), toCsv(table, report.locale), CSV_MIME_TYPE);
+      } else {
+        const sheet = toXlsx(table, report.t);
+        await shareFile(exportFileName(activeSession, 'xlsx', report.t), sheet, XLSX_MIME_TYPE);
+      }
+    } catch (e) {
+      Alert.alert(t('index.exportFailed'), t('index.noFileSharing'));
     }
   };
 
-  const updateEntry = (id: string, field: keyof OxygenEntry, value: string) => {
-    setEntries((prev) => {
-      const idx = prev.findIndex((e) => e.id === id);
-      if (idx === -1) return prev;
-      const next = prev[idx + 1];
-      const updated = prev.map((entry, i) => (i === idx ? { ...entry, [field]: value } : entry));
-      if (field === 'endTime' && next && !next.startTime) {
-        updated[idx + 1] = { ...next, startTime: value };
-      }
-      return updated;
+  // On web the report opens in its own tab so it prints without the app around
+  // it; on mobile it goes straight to the share sheet as a PDF.
+  const openReport = async () => {
+    if (Platform.OS === 'web') {
+      window.open(withBasePath(`/report?session=${encodeURIComponent(activeSession.id)}`), '_blank');
+      return;
+    }
+    const html = buildReportHtml(activeSession, {
+      institution: settings.institution,
+      currency,
+      rounding,
+      timeFormat: settings.timeFormat,
+      i18n: report,
     });
+    try {
+      await sharePdf(exportFileName(activeSession, 'pdf', report.t), html);
+    } catch (e) {
+      Alert.alert(t('index.pdfFailed'), t('index.noFileSharing'));
+    }
   };
 
+  const confirmNewSession = () =>
+    confirmAction(
+      t('index.newSession'),
+      t('index.newSessionMessage'),
+      t('common.continue'),
+      t('common.cancel'),
+      newSession
+    );
+
+  if (!hydrated) {
+    return (
+      <View style={[styles.container, styles.loading]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <SafeAreaView edges={['top']} style={styles.safeArea}>
           <View style={styles.headerContent}>
             <View style={styles.titleContainer}>
-              <MaterialCommunityIcons name="calculator" size={28} color="#FFFFFF" />
-              <Text style={styles.headerTitle}>Calculadora de Oxígeno</Text>
+              <MaterialCommunityIcons name="calculator" size={28} color={colors.onPrimary} />
+              <Text style={styles.headerTitle}>{t('index.title')}</Text>
+            </View>
+            <Text style={styles.headerSubtitle}>{t('index.subtitle')}</Text>
+            <View style={styles.headerActions}>
+              <TouchableOpacity style={styles.newSessionButton} onPress={confirmNewSession}>
+                <MaterialCommunityIcons
+                  name="archive-arrow-down"
+                  size={16}
+                  color={colors.onPrimary}
+                />
+                <Text style={styles.newSessionButtonText}>{t('index.newSession')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.newSessionButton} onPress={() => router.push('/sessions')}>
+                <MaterialCommunityIcons name="history" size={16} color={colors.onPrimary} />
+                <Text style={styles.newSessionButtonText}>{t('index.sessions')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.newSessionButton} onPress={() => router.push('/settings')}>
+                <MaterialCommunityIcons name="cog" size={16} color={colors.onPrimary} />
+                <Text style={styles.newSessionButtonText}>{t('index.settings')}</Text>
+              </TouchableOpacity>
             </View>
-            <Text style={styles.headerSubtitle}>Cálculo de costo por suministro</Text>
           </View>
         </SafeAreaView>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {readOnly && (
+          <View style={styles.closedBanner}>
+            <MaterialCommunityIcons name="lock" size={16} color={colors.textMuted} />
+            <Text style={styles.closedBannerText}>
+              {t('index.closed', { date: new Date(activeSession.closedAt!).toLocaleString(locale) })}
+            </Text>
+          </View>
+        )}
+
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Tipo de Seguro</Text>
-          <View style={styles.insuranceButtons}>
-            <TouchableOpacity
-              style={[
-                styles.insuranceButton,
-                insuranceType === 'contributivo' && styles.insuranceButtonActive,
-              ]}
-              onPress={() => setInsuranceType('contributivo')}
-            >
-              <Text
-                style={[
-                  styles.insuranceButtonText,
-                  insuranceType === 'contributivo' &&
-                    styles.insuranceButtonTextActive,
-                ]}
-              >
-                Contributivo
-              </Text>
-              <Text
-                style={[
-                  styles.insuranceButtonFactor,
-                  insuranceType === 'contributivo' &&
-                    styles.insuranceButtonFactorActive,
-                ]}
-              >
-                Factor: 0.45
-              </Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.insuranceButton,
-                insuranceType === 'subsidiado' && styles.insuranceButtonActive,
-              ]}
-              onPress={() => setInsuranceType('subsidiado')}
-            >
-              <Text
-                style={[
-                  styles.insuranceButtonText,
-                  insuranceType === 'subsidiado' &&
-                    styles.insuranceButtonTextActive,
-                ]}
-              >
-                Subsidiado
-              </Text>
-              <Text
-                style={[
-                  styles.insuranceButtonFactor,
-                  insuranceType === 'subsidiado' &&
-                    styles.insuranceButtonFactorActive,
-                ]}
-              >
-                Factor: 0.25
-              </Text>
+          <Text style={styles.sectionTitle}>{t('index.patient')}</Text>
+          <PatientForm
+            patientLabel={activeSession.patientLabel}
+            patient={activeSession.patient}
+            editable={!readOnly}
+            onChangeLabel={(value) => renameSession(activeSession.id, value)}
+            onChange={updatePatient}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{t('index.insurance')}</Text>
+            <TouchableOpacity onPress={() => router.push('/tariffs')}>
+              <Text style={styles.linkText}>{t('index.editTariffs')}</Text>
             </TouchableOpacity>
           </View>
+          <View style={styles.insuranceButtons}>
+            {regimes.map((regime) => {
+              const active = insuranceType === regime.id;
+              // The active regime shows the rate snapshotted on the session.
+              const factor = active ? tariff.factor : resolveTariff(regime.id)?.factor;
+              return (
+                <TouchableOpacity
+                  key={regime.id}
+                  style={[styles.insuranceButton, active && styles.insuranceButtonActive]}
+                  onPress={() => setInsuranceType(regime.id)}
+                  disabled={readOnly || factor === undefined}
+                >
+                  <Text
+                    style={[
+                      styles.insuranceButtonText,
+                      active && styles.insuranceButtonTextActive,
+                    ]}
+                  >
+                    {regime.label}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.insuranceButtonFactor,
+                      active && styles.insuranceButtonFactorActive,
+                    ]}
+                  >
+                    {factor === undefined ? t('index.noTariff') : t('index.factor', { factor })}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {!readOnly && currentTariff && currentTariff.rateId !== tariff.rateId && (
+            <Text style={styles.tariffNotice}>
+              {t('index.tariffNotice', {
+                date: tariff.effectiveFrom,
+                factor: tariff.factor,
+                current: currentTariff.factor,
+              })}
+            </Text>
+          )}
         </View>
 
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Registros de Suministro</Text>
-            <TouchableOpacity style={styles.addButton} onPress={addEntry}>
-              <MaterialCommunityIcons name="plus" size={20} color="#FFFFFF" />
-              <Text style={styles.addButtonText}>Agregar</Text>
-            </TouchableOpacity>
+            <Text style={styles.sectionTitle}>{t('index.entries')}</Text>
+            {!readOnly && (
+              <View style={styles.sectionActions}>
+                <TouchableOpacity
+                  onPress={undo}
+                  disabled={!canUndo}
+                  hitSlop={HIT_SLOP}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('common.undo')}
+                  accessibilityState={{ disabled: !canUndo }}
+                >
+                  <MaterialCommunityIcons
+                    name="undo"
+                    size={22}
+                    color={canUndo ? colors.primary : colors.disabled}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={redo}
+                  disabled={!canRedo}
+                  hitSlop={HIT_SLOP}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('a11y.redo')}
+                  accessibilityState={{ disabled: !canRedo }}
+                >
+                  <MaterialCommunityIcons
+                    name="redo"
+                    size={22}
+                    color={canRedo ? colors.primary : colors.disabled}
+                  />
+                </TouchableOpacity>
+                {countBlankRows(entries) > 0 && (
+                  <TouchableOpacity onPress={compactEntries}>
+                    <Text style={styles.linkText}>{t('index.compact')}</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => router.push('/import')}>
+                  <Text style={styles.linkText}>{t('index.import')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => router.push('/cylinders')}>
+                  <Text style={styles.linkText}>{t('index.cylinders')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => router.push('/prescriptions')}>
+                  <Text style={styles.linkText}>{t('index.prescription')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.addButton} onPress={addPressureEntry}>
+                  <MaterialCommunityIcons name="gauge" size={20} color={colors.onPrimary} />
+                  <Text style={styles.addButtonText}>{t('index.pressure')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.addButton} onPress={goToBlankRow}>
+                  <MaterialCommunityIcons name="plus" size={20} color={colors.onPrimary} />
+                  <Text style={styles.addButtonText}>{t('common.add')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
 
+          {cylinderUsage.length > 0 && (
+            <TouchableOpacity style={styles.cylinderSummary} onPress={() => router.push('/cylinders')}>
+              {cylinderUsage.map(({ cylinder, remainingLiters, currentFlow, minutesToEmpty }) => (
+                <Text key={cylinder.id} style={styles.cylinderSummaryText}>
+                  {t('index.cylinderLeft', { cylinder: cylinder.label, liters: formatLiters(remainingLiters) })}
+                  {minutesToEmpty !== null && remainingLiters > 0
+                    ? t('index.cylinderEmpties', {
+                        time: formatTimeToEmpty(minutesToEmpty, t),
+                        flow: currentFlow ?? '',
+                      })
+                    : ''}
+                </Text>
+              ))}
+            </TouchableOpacity>
+          )}
+
+          {liveEntry && livePreview && !readOnly && (
+            <View style={styles.liveBanner}>
+              <View style={styles.liveInfo}>
+                <MaterialCommunityIcons name="record-circle" size={18} color={colors.danger} />
+                <Text style={styles.liveText}>
+                  {t('index.live', {
+                    row: entries.indexOf(liveEntry) + 1,
+                    minutes: calculateMinutes(livePreview),
+                    cost: formatMoney(displayEntryCost(calculateEntryCost(livePreview, paymentFactor), rounding)),
+                  })}
+                </Text>
+              </View>
+              <View style={styles.liveActions}>
+                <TouchableOpacity
+                  style={styles.liveButton}
+                  onPress={() => setFlowDraft(liveEntry.flowRate)}
+                >
+                  <MaterialCommunityIcons name="swap-vertical" size={16} color={colors.onPrimary} />
+                  <Text style={styles.liveButtonText}>{t('index.changeFlow')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.liveButton, styles.liveButtonStop]} onPress={stopLive}>
+                  <MaterialCommunityIcons name="stop" size={16} color={colors.onPrimary} />
+                  <Text style={styles.liveButtonText}>{t('index.stop')}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
           <ScrollView
             horizontal={true}
             showsHorizontalScrollIndicator={true}
@@ -354,66 +714,60 @@ export default function OxygenCalculatorScreen() {
             <View>
               <View style={styles.tableHeader}>
                 <Text style={[styles.tableHeaderText, { width: 30 }]}>#</Text>
-                <Text style={[styles.tableHeaderText, { width: 90 }]}>Inicio</Text>
-                <Text style={[styles.tableHeaderText, { width: 90 }]}>Fin</Text>
-                <Text style={[styles.tableHeaderText, { width: 55 }]}>L/min</Text>
-                <Text style={[styles.tableHeaderText, { width: 80 }]}>Min</Text>
-                <Text style={[styles.tableHeaderText, { width: 80 }]}>Costo</Text>
-                <View style={{ width: 40 }} />
+                <Text style={[styles.tableHeaderText, { width: 90 }]}>{t('columns.start')}</Text>
+                <Text style={[styles.tableHeaderText, { width: 90 }]}>{t('columns.end')}</Text>
+                <Text style={[styles.tableHeaderText, { width: 55 }]}>{t('columns.flow')}</Text>
+                <Text style={[styles.tableHeaderText, { width: 70 }]}>{t('columns.deviceShort')}</Text>
+                <Text style={[styles.tableHeaderText, { width: 80 }]}>{t('columns.minutesShort')}</Text>
+                <Text style={[styles.tableHeaderText, { width: 70 }]}>{t('columns.liters')}</Text>
+                <Text style={[styles.tableHeaderText, { width: 80 }]}>{t('columns.cost')}</Text>
+                {cylinders.length > 0 && (
+                  <Text style={[styles.tableHeaderText, { width: 90 }]}>{t('columns.cylinder')}</Text>
+                )}
+                <View style={{ width: MIN_TOUCH_TARGET }} />
+                <View style={{ width: MIN_TOUCH_TARGET }} />
               </View>
 
-              {entries.map((entry, index) => {
-                const minutes = calculateMinutes(entry.startTime, entry.endTime);
-                const cost = calculateCost(entry);
-                return (
-                  <View key={entry.id} style={styles.tableRow}>
-                    <Text style={[styles.rowNumber, { width: 30 }]}>{index + 1}</Text>
-                    <TouchableOpacity
-                      style={[styles.inputFixed, { width: 90 }]}
-                      onPress={() => openTimePicker(entry.id, 'startTime')}
-                    >
-                      <Text style={{ color: entry.startTime ? '#1E293B' : '#999', textAlign: 'center' }}>
-                        {entry.startTime || 'HH:MM'}
-                      </Text>
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      style={[styles.inputFixed, { width: 90 }]}
-                      onPress={() => openTimePicker(entry.id, 'endTime')}
-                    >
-                      <Text style={{ color: entry.endTime ? '#1E293B' : '#999', textAlign: 'center' }}>
-                        {entry.endTime || 'HH:MM'}
-                      </Text>
-                    </TouchableOpacity>
-                    <TextInput
-                      style={[styles.inputFixed, { width: 55 }]}
-                      placeholder="0.0"
-                      placeholderTextColor="#999"
-                      value={entry.flowRate}
-                      onChangeText={(value) => updateEntry(entry.id, 'flowRate', value)}
-                      keyboardType="decimal-pad"
+              <FlatList
+                ref={listRef}
+                data={entries}
+                keyExtractor={(entry) => entry.id}
+                renderItem={({ item: entry, index }) => {
+                  const isLive = entry.id === liveEntry?.id;
+                  // The trailing blank row stays, there to type into.
+                  const removable = index < entries.length - 1 || !isEntryEmpty(entry);
+                  return (
+                    <EntryRow
+                      entry={entry}
+                      shown={isLive && livePreview ? livePreview : entry}
+                      index={index}
+                      isLive={isLive}
+                      hasLive={!!liveEntry}
+                      removable={removable}
+                      readOnly={readOnly}
+                      issues={issues[entry.id]}
+                      cylinders={cylinders}
+                      paymentFactor={paymentFactor}
+                      rounding={rounding}
+                      currency={currency}
+                      timeFormat={settings.timeFormat}
+                      actions={rowActions}
                     />
-                    <Text style={[styles.calculatedValue, { width: 80 }]}> 
-                      {minutes > 0 ? minutes : '-'}
-                    </Text>
-                    <Text style={[styles.calculatedValue, { width: 80 }]}> 
-                      {cost > 0 ? `${cost.toFixed(2)}` : '-'}
-                    </Text>
-                    <TouchableOpacity
-                      style={styles.deleteButton}
-                      onPress={() => removeEntry(entry.id)}
-                    >
-                      <MaterialCommunityIcons name="delete" size={18} color="#D32F2F" />
-                    </TouchableOpacity>
-                  </View>
-                );
-              })}
+                  );
+                }}
+                style={styles.tableBody}
+                nestedScrollEnabled={true}
+                keyboardShouldPersistTaps="handled"
+              />
             </View>
           </ScrollView>
           {timePicker.visible && (
             <DateTimePicker
               value={timePicker.date || new Date()}
-              mode="time"
-              is24Hour={false}
+              mode={Platform.OS === 'ios' ? 'datetime' : 'time'}
+              is24Hour={settings.timeFormat === '24h'}
+              minuteInterval={settings.minuteStep}
+              themeVariant={themeName === 'light' ? 'light' : 'dark'}
               display={Platform.OS === 'ios' ? 'spinner' : 'default'}
               onChange={onTimeChange}
             />
@@ -422,15 +776,63 @@ export default function OxygenCalculatorScreen() {
 
         <View style={styles.totalSection}>
           <View style={styles.totalCard}>
-            <Text style={styles.totalLabel}>Total a Pagar</Text>
-            <Text style={styles.totalAmount}>${totalCost.toFixed(2)}</Text>
+            <Text style={styles.totalLabel}>{t('index.totalDue')}</Text>
+            <Text
+              style={styles.totalAmount}
+              accessibilityLabel={totalMessage}
+              accessibilityLiveRegion="polite"
+            >
+              {formatMoney(totalCost)}
+            </Text>
             <Text style={styles.totalInfo}>
-              Factor aplicado: {paymentFactor} ({insuranceType})
+              {t('index.totalLiters', { liters: formatLiters(totalLiters) })}
             </Text>
+            {litersByKind.pressureRows > 0 && (
+              <>
+                <Text style={styles.totalInfo}>
+                  {t('share.litersByKind', {
+                    time: formatLiters(litersByKind.time),
+                    pressure: formatLiters(litersByKind.pressure),
+                  })}
+                </Text>
+                <Text style={styles.totalNote}>{t('pressure.note')}</Text>
+              </>
+            )}
+            {shiftTotals.length > 0 && (
+              <View style={styles.shiftTotals}>
+                <Text style={styles.shiftTotalsTitle}>{t('index.byShift')}</Text>
+                {shiftTotals.map((total) => (
+                  <View key={total.window?.shift.id ?? 'unplaced'} style={styles.shiftTotalRow}>
+                    <Text style={styles.shiftTotalLabel}>{describeShiftTotal(total, settings.timeFormat, t)}</Text>
+                    <Text style={styles.shiftTotalValue}>
+                      {total.minutes} min · {formatLiters(total.liters)} L · {formatMoney(total.cost)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            <Text style={styles.totalInfo}>
+              {t('index.factorApplied', { factor: paymentFactor, tariff: tariff.label })}
+            </Text>
+            <Text style={styles.totalInfo}>{describeRounding(rounding, t)}</Text>
             <TouchableOpacity style={styles.shareButton} onPress={shareViaWhatsApp}>
-              <MaterialCommunityIcons name="whatsapp" size={18} color="#FFFFFF" />
-              <Text style={styles.shareButtonText}>Compartir por WhatsApp</Text>
+              <MaterialCommunityIcons name="whatsapp" size={18} color={colors.onPrimary} />
+              <Text style={styles.shareButtonText}>{t('index.shareWhatsApp')}</Text>
             </TouchableOpacity>
+            <View style={styles.exportActions}>
+              <TouchableOpacity style={styles.exportButton} onPress={() => exportSpreadsheet('csv')}>
+                <MaterialCommunityIcons name="file-delimited" size={18} color={colors.primary} />
+                <Text style={styles.exportButtonText}>{t('index.exportCsv')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.exportButton} onPress={() => exportSpreadsheet('xlsx')}>
+                <MaterialCommunityIcons name="microsoft-excel" size={18} color={colors.primary} />
+                <Text style={styles.exportButtonText}>{t('index.exportExcel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.exportButton} onPress={openReport}>
+                <MaterialCommunityIcons name="file-pdf-box" size={18} color={colors.primary} />
+                <Text style={styles.exportButtonText}>{t('index.report')}</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
 
@@ -440,15 +842,50 @@ export default function OxygenCalculatorScreen() {
       <TimePickerModal
         visible={webTimePickerVisible}
         value={webTimePickerDate}
+        timeFormat={settings.timeFormat}
+        minuteStep={settings.minuteStep}
         onConfirm={(selectedDate) => {
-          const formatted = formatDateToTime(selectedDate);
           if (webTimePickerEntry.entryId && webTimePickerEntry.field) {
-            updateEntry(webTimePickerEntry.entryId, webTimePickerEntry.field, formatted);
+            commitPickedTime(webTimePickerEntry.entryId, webTimePickerEntry.field, selectedDate);
           }
           setWebTimePickerVisible(false);
         }}
         onCancel={() => setWebTimePickerVisible(false)}
       />
+
+      <Modal
+        visible={flowDraft !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setFlowDraft(null)}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{t('index.changeFlow')}</Text>
+            <Text style={styles.modalText}>{t('index.changeFlowMessage')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="L/min"
+              placeholderTextColor={colors.placeholder}
+              keyboardType="decimal-pad"
+              value={flowDraft ?? ''}
+              onChangeText={setFlowDraft}
+              onSubmitEditing={submitFlowChange}
+              autoFocus={true}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalButtonCancel} onPress={() => setFlowDraft(null)}>
+                <Text style={styles.modalButtonCancelText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalButtonConfirm} onPress={submitFlowChange}>
+                <Text style={styles.modalButtonConfirmText}>{t('index.apply')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <UndoSnackbar notice={notice} onUndo={undo} onDismiss={dismissNotice} />
     </View>
   );
 }
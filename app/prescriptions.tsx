@@ -0,0 +1,435 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { Palette } from '@/constants/colors';
+import { MIN_TOUCH_TARGET } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { usePrescriptions } from '@/hooks/usePrescriptions';
+import { useSessions } from '@/hooks/useSessions';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { DeliveryDevice } from '@/types/oxygen';
+import type { PrescriptionSegment, PrescriptionTemplate } from '@/types/prescription';
+import { confirmAction } from '@/utils/confirm';
+import { toDateKey } from '@/utils/dates';
+import { DELIVERY_DEVICES, deviceLabel } from '@/utils/devices';
+import { isEntryEmpty } from '@/utils/entries';
+import {
+  MAX_PRESCRIPTION_DAYS,
+  countRangeDays,
+  createSegment,
+  describeTemplate,
+  generateEntries,
+  validateTemplate,
+} from '@/utils/prescriptions';
+
+interface Draft {
+  name: string;
+  segments: PrescriptionSegment[];
+  device?: DeliveryDevice;
+}
+
+const newDraft = (): Draft => ({ name: '', segments: [createSegment('00:00', '00:00')] });
+
+export default function PrescriptionsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const router = useRouter();
+  const { templates, addTemplate, deleteTemplate } = usePrescriptions();
+  const { activeSession, setPrescription, importEntries } = useSessions();
+  const readOnly = !!activeSession.closedAt;
+  const selected = templates.find((template) => template.id === activeSession.prescriptionId);
+
+  const today = toDateKey(new Date());
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const days = countRangeDays(from, to);
+  const rangeError =
+    days === null
+      ? t('prescriptions.invalidRange')
+      : days > MAX_PRESCRIPTION_DAYS
+        ? t('prescriptions.tooManyDays', { max: MAX_PRESCRIPTION_DAYS })
+        : null;
+  const hasRows = activeSession.entries.some((entry) => !isEntryEmpty(entry));
+
+  const apply = (mode: 'replace' | 'append') => {
+    if (!selected || rangeError) return;
+    importEntries(generateEntries(selected, from, to), mode);
+    router.back();
+  };
+
+  const confirmReplace = () => {
+    if (!hasRows) {
+      apply('replace');
+      return;
+    }
+    confirmAction(
+      t('import.replaceTitle'),
+      t('prescriptions.replaceMessage', { patient: activeSession.patientLabel }),
+      t('import.replace'),
+      t('common.cancel'),
+      () => apply('replace')
+    );
+  };
+
+  const confirmDelete = (template: PrescriptionTemplate) =>
+    confirmAction(
+      t('prescriptions.delete'),
+      t('prescriptions.deleteMessage', { name: template.name }),
+      t('common.delete'),
+      t('common.cancel'),
+      () => deleteTemplate(template.id)
+    );
+
+  const updateSegment = (id: string, patch: Partial<PrescriptionSegment>) =>
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        segments: prev.segments.map((s) => (s.id === id ? { ...s, ...patch } : s)),
+      }
+    );
+
+  const submitDraft = () => {
+    if (!draft) return;
+    const message = validateTemplate(draft.name, draft.segments, t);
+    if (message) {
+      setError(message);
+      return;
+    }
+    const template = addTemplate(draft.name.trim(), draft.segments, draft.device);
+    if (!readOnly && !selected) setPrescription(template.id);
+    setDraft(null);
+    setError(null);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {templates.length === 0 && !draft && (
+        <Text style={styles.hint}>{t('prescriptions.hint')}</Text>
+      )}
+
+      {templates.map((template) => {
+        const active = template.id === selected?.id;
+        return (
+          <View key={template.id} style={[styles.card, active && styles.cardActive]}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>{template.name}</Text>
+              <TouchableOpacity
+                style={styles.action}
+                onPress={() => confirmDelete(template)}
+                accessibilityRole="button"
+                accessibilityLabel={t('prescriptions.delete')}
+              >
+                <MaterialCommunityIcons name="delete" size={18} color={colors.danger} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.meta}>{describeTemplate(template, t)}</Text>
+            {template.device && <Text style={styles.meta}>{deviceLabel(template.device, t)}</Text>}
+            {!readOnly && (
+              <TouchableOpacity
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => setPrescription(active ? undefined : template.id)}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {active
+                    ? t('prescriptions.activeFor', { patient: activeSession.patientLabel })
+                    : t('prescriptions.use')}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      {selected && !readOnly && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('prescriptions.generate')}</Text>
+          <View style={styles.row}>
+            <View style={styles.field}>
+              <Text style={styles.label}>{t('prescriptions.from')}</Text>
+              <TextInput style={styles.input} value={from} onChangeText={setFrom} />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>{t('prescriptions.to')}</Text>
+              <TextInput style={styles.input} value={to} onChangeText={setTo} />
+            </View>
+          </View>
+          {rangeError ? (
+            <Text style={styles.error}>{rangeError}</Text>
+          ) : (
+            <Text style={styles.meta}>
+              {t('prescriptions.summary', {
+                count: days ?? 0,
+                rows: (days ?? 0) * selected.segments.length,
+                name: selected.name,
+              })}
+            </Text>
+          )}
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.buttonSecondary}
+              onPress={() => apply('append')}
+              disabled={!!rangeError}
+            >
+              <Text style={styles.buttonSecondaryText}>{t('import.append')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={confirmReplace} disabled={!!rangeError}>
+              <Text style={styles.buttonText}>{t('import.replace')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {draft ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('prescriptions.new')}</Text>
+          <Text style={styles.label}>{t('prescriptions.name')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={t('prescriptions.namePlaceholder')}
+            placeholderTextColor={colors.placeholder}
+            value={draft.name}
+            onChangeText={(name) => setDraft({ ...draft, name })}
+          />
+          <Text style={styles.label}>{t('prescriptions.bands')}</Text>
+          {draft.segments.map((segment, i) => (
+            <View key={segment.id} style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.field]}
+                placeholder={t('columns.start')}
+                placeholderTextColor={colors.placeholder}
+                value={segment.start}
+                onChangeText={(start) => updateSegment(segment.id, { start })}
+              />
+              <TextInput
+                style={[styles.input, styles.field]}
+                placeholder={t('columns.end')}
+                placeholderTextColor={colors.placeholder}
+                value={segment.end}
+                onChangeText={(end) => updateSegment(segment.id, { end })}
+              />
+              <TextInput
+                style={[styles.input, styles.field]}
+                placeholder="L/min"
+                placeholderTextColor={colors.placeholder}
+                keyboardType="decimal-pad"
+                value={segment.flowRate}
+                onChangeText={(flowRate) => updateSegment(segment.id, { flowRate })}
+              />
+              <TouchableOpacity
+                style={styles.action}
+                onPress={() =>
+                  setDraft({ ...draft, segments: draft.segments.filter((s) => s.id !== segment.id) })
+                }
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.removeBand', { band: i + 1 })}
+              >
+                <MaterialCommunityIcons name="close" size={18} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TouchableOpacity
+            style={styles.link}
+            onPress={() => setDraft({ ...draft, segments: [...draft.segments, createSegment()] })}
+          >
+            <Text style={styles.linkText}>{t('prescriptions.addBand')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.label}>{t('prescriptions.device')}</Text>
+          <View style={styles.chips}>
+            {DELIVERY_DEVICES.map((device) => {
+              const active = draft.device === device.id;
+              return (
+                <TouchableOpacity
+                  key={device.id}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setDraft({ ...draft, device: active ? undefined : device.id })}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {deviceLabel(device.id, t)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {error && <Text style={styles.error}>{error}</Text>}
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.buttonSecondary} onPress={() => setDraft(null)}>
+              <Text style={styles.buttonSecondaryText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={submitDraft}>
+              <Text style={styles.buttonText}>{t('common.save')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.newButton}
+          onPress={() => {
+            setError(null);
+            setDraft(newDraft());
+          }}
+        >
+          <MaterialCommunityIcons name="plus" size={18} color={colors.onPrimary} />
+          <Text style={styles.buttonText}>{t('prescriptions.new')}</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      gap: 12,
+    },
+    hint: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 2,
+      borderColor: colors.border,
+      gap: 4,
+    },
+    cardActive: {
+      borderColor: colors.primary,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    cardTitle: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    action: {
+      width: MIN_TOUCH_TARGET,
+      height: MIN_TOUCH_TARGET,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    meta: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    field: {
+      flex: 1,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textMuted,
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    input: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 6,
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: 4,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      alignSelf: 'flex-start',
+      marginTop: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 6,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    link: {
+      alignSelf: 'flex-start',
+      paddingVertical: 4,
+    },
+    linkText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    error: {
+      fontSize: 12,
+      color: colors.danger,
+      marginTop: 4,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 12,
+    },
+    button: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+    },
+    buttonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    buttonSecondary: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+      alignItems: 'center',
+    },
+    buttonSecondaryText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    newButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      paddingVertical: 12,
+      borderRadius: 8,
+      gap: 6,
+    },
+  });
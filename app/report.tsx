@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useLocalSearchParams } from 'expo-router';
+import type { Palette } from '@/constants/colors';
+import { useI18n } from '@/hooks/useI18n';
+import { useSessions } from '@/hooks/useSessions';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import { getSessionRounding } from '@/utils/billing';
+import { exportFileName } from '@/utils/export';
+import { buildReportHtml } from '@/utils/report';
+import { sharePdf } from '@/utils/shareFile';
+
+// Printable report of one session (`?session=<id>`, default the active one).
+// The web build shows the HTML and prints it; mobile shares it as a PDF.
+export default function ReportScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, report } = useI18n();
+  const { session: sessionId } = useLocalSearchParams<{ session?: string }>();
+  const { hydrated, sessions, activeSession } = useSessions();
+  const { settings } = useSettings();
+  const frame = useRef<HTMLIFrameElement>(null);
+  const [sharing, setSharing] = useState(false);
+
+  if (!hydrated) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  const session = sessions.find((s) => s.id === sessionId) ?? activeSession;
+  const html = buildReportHtml(session, {
+    institution: settings.institution,
+    currency: session.currency ?? settings.currency,
+    rounding: getSessionRounding(session, settings.rounding),
+    timeFormat: settings.timeFormat,
+    i18n: report,
+  });
+
+  const share = async () => {
+    setSharing(true);
+    try {
+      await sharePdf(exportFileName(session, 'pdf', report.t), html);
+    } catch (e) {
+      Alert.alert(t('index.pdfFailed'), t('index.noFileSharing'));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  if (Platform.OS === 'web') {
+    return (
+      <View style={styles.container}>
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => frame.current?.contentWindow?.print()}
+          >
+            <MaterialCommunityIcons name="printer" size={18} color={colors.onPrimary} />
+            <Text style={styles.buttonText}>{t('report.print')}</Text>
+          </TouchableOpacity>
+        </View>
+        <iframe ref={frame} srcDoc={html} title={t('navigation.report')} style={{ flex: 1, border: 0 }} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, styles.centered]}>
+      <Text style={styles.title}>{session.patientLabel || t('document.unnamed')}</Text>
+      <Text style={styles.hint}>{t('report.hint')}</Text>
+      <TouchableOpacity style={styles.button} onPress={share} disabled={sharing}>
+        {sharing ? (
+          <ActivityIndicator color={colors.onPrimary} />
+        ) : (
+          <MaterialCommunityIcons name="file-pdf-box" size={18} color={colors.onPrimary} />
+        )}
+        <Text style={styles.buttonText}>{t('report.share')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    toolbar: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      padding: 12,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    hint: {
+      fontSize: 14,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.primary,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 8,
+      gap: 8,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+  });
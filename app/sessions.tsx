@@ -0,0 +1,388 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import type { Palette } from '@/constants/colors';
+import { MIN_TOUCH_TARGET } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useSessions } from '@/hooks/useSessions';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { OxygenSession } from '@/types/oxygen';
+import { getSessionRounding, getSessionTotal } from '@/utils/billing';
+import { confirmAction } from '@/utils/confirm';
+import { isEntryEmpty } from '@/utils/entries';
+import { formatCurrency } from '@/utils/format';
+import { matchesSessionQuery } from '@/utils/patient';
+
+export default function SessionsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+  const router = useRouter();
+  const {
+    sessions,
+    activeSession,
+    newSession,
+    openSession,
+    duplicateSession,
+    renameSession,
+    closeSession,
+    deleteSession,
+  } = useSessions();
+  const { settings } = useSettings();
+  const [renaming, setRenaming] = useState<{ id: string; label: string } | null>(null);
+  const [query, setQuery] = useState('');
+
+  const sorted = sessions
+    .filter((s) => matchesSessionQuery(s, query))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  const open = (id: string) => {
+    openSession(id);
+    router.back();
+  };
+
+  const create = () => {
+    newSession();
+    router.back();
+  };
+
+  const duplicate = (id: string) => {
+    duplicateSession(id);
+    router.back();
+  };
+
+  const confirmClose = (session: OxygenSession) =>
+    confirmAction(
+      t('sessions.close'),
+      t('sessions.closeMessage', { patient: session.patientLabel }),
+      t('sessions.closeConfirm'),
+      t('common.cancel'),
+      () => closeSession(session.id)
+    );
+
+  const confirmDelete = (session: OxygenSession) =>
+    confirmAction(
+      t('sessions.delete'),
+      t('sessions.deleteMessage', { patient: session.patientLabel }),
+      t('common.delete'),
+      t('common.cancel'),
+      () => deleteSession(session.id)
+    );
+
+  const submitRename = () => {
+    if (renaming && renaming.label.trim()) {
+      renameSession(renaming.id, renaming.label.trim());
+    }
+    setRenaming(null);
+  };
+
+  const renderItem = ({ item }: { item: OxygenSession }) => {
+    const rows = item.entries.filter((entry) => !isEntryEmpty(entry)).length;
+    const isActive = item.id === activeSession.id;
+    const rounding = getSessionRounding(item, settings.rounding);
+    const total = formatCurrency(
+      getSessionTotal(item, rounding),
+      item.currency ?? settings.currency,
+      rounding,
+      locale
+    );
+    return (
+      <TouchableOpacity
+        style={[styles.card, isActive && styles.cardActive]}
+        onPress={() => open(item.id)}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {item.patientLabel || t('document.unnamed')}
+          </Text>
+          <View style={[styles.badge, item.closedAt ? styles.badgeClosed : styles.badgeOpen]}>
+            <Text style={styles.badgeText}>{item.closedAt ? t('sessions.closed') : t('sessions.open')}</Text>
+          </View>
+        </View>
+        <Text style={styles.cardMeta}>
+          {new Date(item.createdAt).toLocaleString(locale)} · {item.tariff.label} ·{' '}
+          {t('sessions.rows', { count: rows })}
+        </Text>
+        {!!(item.patient.documentNumber || item.patient.bed || item.patient.service) && (
+          <Text style={styles.cardMeta}>
+            {[
+              item.patient.documentNumber &&
+                `${item.patient.documentType} ${item.patient.documentNumber}`,
+              item.patient.bed && t('sessions.bed', { bed: item.patient.bed }),
+              item.patient.service,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        )}
+        <Text style={styles.cardTotal}>{total}</Text>
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.action}
+            onPress={() => duplicate(item.id)}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.duplicateSession')}
+          >
+            <MaterialCommunityIcons name="content-copy" size={18} color={colors.textMuted} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.action}
+            onPress={() => setRenaming({ id: item.id, label: item.patientLabel })}
+            accessibilityRole="button"
+            accessibilityLabel={t('sessions.rename')}
+          >
+            <MaterialCommunityIcons name="pencil" size={18} color={colors.textMuted} />
+          </TouchableOpacity>
+          {!item.closedAt && (
+            <TouchableOpacity
+              style={styles.action}
+              onPress={() => confirmClose(item)}
+              accessibilityRole="button"
+              accessibilityLabel={t('sessions.close')}
+            >
+              <MaterialCommunityIcons name="lock" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.action}
+            onPress={() => confirmDelete(item)}
+            accessibilityRole="button"
+            accessibilityLabel={t('sessions.delete')}
+          >
+            <MaterialCommunityIcons name="delete" size={18} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={sorted}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.newButton} onPress={create}>
+              <MaterialCommunityIcons name="plus" size={20} color={colors.onPrimary} />
+              <Text style={styles.newButtonText}>{t('sessions.new')}</Text>
+            </TouchableOpacity>
+            <TextInput
+              style={styles.search}
+              value={query}
+              onChangeText={setQuery}
+              placeholder={t('sessions.search')}
+              placeholderTextColor={colors.placeholder}
+              autoCorrect={false}
+            />
+          </View>
+        }
+        ListEmptyComponent={<Text style={styles.empty}>{t('sessions.empty')}</Text>}
+      />
+
+      <Modal
+        visible={renaming !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setRenaming(null)}
+      >
+        <View style={styles.backdrop}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>{t('sessions.rename')}</Text>
+            <TextInput
+              style={styles.input}
+              value={renaming?.label ?? ''}
+              onChangeText={(label) => setRenaming((prev) => (prev ? { ...prev, label } : prev))}
+              onSubmitEditing={submitRename}
+              autoFocus={true}
+            />
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.buttonCancel} onPress={() => setRenaming(null)}>
+                <Text style={styles.buttonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.buttonConfirm} onPress={submitRename}>
+                <Text style={styles.buttonTextConfirm}>{t('common.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    list: {
+      padding: 20,
+      gap: 12,
+    },
+    header: {
+      gap: 12,
+    },
+    search: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    empty: {
+      fontSize: 14,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    newButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.accent,
+      paddingVertical: 12,
+      borderRadius: 8,
+      gap: 6,
+    },
+    newButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 2,
+      borderColor: colors.border,
+    },
+    cardActive: {
+      borderColor: colors.primary,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    cardTitle: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    cardMeta: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginTop: 4,
+    },
+    cardTotal: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.primary,
+      marginTop: 8,
+    },
+    badge: {
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 6,
+    },
+    badgeOpen: {
+      backgroundColor: colors.success,
+    },
+    badgeClosed: {
+      backgroundColor: colors.textFaint,
+    },
+    badgeText: {
+      fontSize: 11,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      marginTop: 8,
+    },
+    action: {
+      width: MIN_TOUCH_TARGET,
+      height: MIN_TOUCH_TARGET,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    backdrop: {
+      flex: 1,
+      backgroundColor: colors.backdrop,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    dialog: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+    },
+    dialogTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 16,
+      textAlign: 'center',
+    },
+    input: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 6,
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: 16,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    buttonCancel: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+    },
+    buttonText: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    buttonConfirm: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+    },
+    buttonTextConfirm: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+  });
@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { Palette } from '@/constants/colors';
+import { MIN_TOUCH_TARGET } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useSettings } from '@/hooks/useSettings';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type {
+  LanguagePreference,
+  MinuteStep,
+  ReportLanguage,
+  RoundingIncrement,
+  RoundingPolicy,
+  ShiftDefinition,
+  ThemePreference,
+  TimeFormat,
+} from '@/types/settings';
+import { formatClock } from '@/utils/billing';
+import { describeRounding, formatCurrency, isValidCurrency } from '@/utils/format';
+import { LANGUAGES, type MessageKey } from '@/utils/i18n';
+import { createShift, defaultShifts, formatShiftRange, getShiftWindows, validateShifts } from '@/utils/shifts';
+
+// Labels are catalog keys, translated when the options are drawn.
+const SCOPES: { value: RoundingPolicy['scope']; label: MessageKey }[] = [
+  { value: 'total', label: 'settings.scope.total' },
+  { value: 'row', label: 'settings.scope.row' },
+];
+
+const INCREMENTS: { value: RoundingIncrement; label: MessageKey }[] = [
+  { value: 0.01, label: 'settings.increment.cent' },
+  { value: 1, label: 'settings.increment.unit' },
+  { value: 100, label: 'settings.increment.hundred' },
+];
+
+const THEMES: { value: ThemePreference; label: MessageKey }[] = [
+  { value: 'system', label: 'settings.system' },
+  { value: 'light', label: 'settings.themes.light' },
+  { value: 'dark', label: 'settings.themes.dark' },
+  { value: 'contrast', label: 'settings.themes.contrast' },
+];
+
+const TIME_FORMATS: { value: TimeFormat; label: string }[] = [
+  { value: '12h', label: '12 h (AM/PM)' },
+  { value: '24h', label: '24 h' },
+];
+
+const MINUTE_STEPS: { value: MinuteStep; label: string }[] = [
+  { value: 1, label: '1 min' },
+  { value: 5, label: '5 min' },
+  { value: 15, label: '15 min' },
+];
+
+interface OptionGroupProps<T> {
+  options: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+}
+
+function OptionGroup<T>({ options, selected, onSelect }: OptionGroupProps<T>) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.options}>
+      {options.map((option) => {
+        const active = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.option, active && styles.optionActive]}
+            onPress={() => onSelect(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: active }}
+          >
+            <Text style={[styles.optionText, active && styles.optionTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+export default function SettingsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+  const { settings, updateSettings } = useSettings();
+  const [currency, setCurrency] = useState(settings.currency);
+  const currencyValid = isValidCurrency(currency);
+  // Shifts are edited as a draft and saved only while they form a valid set.
+  const [shifts, setShifts] = useState(settings.shifts);
+  const shiftsError = validateShifts(shifts, t);
+
+  const translated = <T,>(options: { value: T; label: MessageKey }[]) =>
+    options.map((option) => ({ ...option, label: t(option.label) }));
+  // Languages are listed by their own names.
+  const languages: { value: LanguagePreference; label: string }[] = [
+    { value: 'system', label: t('settings.system') },
+    ...LANGUAGES.map(({ id, label }) => ({ value: id, label })),
+  ];
+  const reportLanguages: { value: ReportLanguage; label: string }[] = [
+    { value: 'app', label: t('settings.sameAsApp') },
+    ...LANGUAGES.map(({ id, label }) => ({ value: id, label })),
+  ];
+
+  const changeShifts = (next: ShiftDefinition[]) => {
+    setShifts(next);
+    if (!validateShifts(next, t)) updateSettings({ shifts: next });
+  };
+
+  const updateShift = (id: string, patch: Partial<ShiftDefinition>) =>
+    changeShifts(shifts.map((shift) => (shift.id === id ? { ...shift, ...patch } : shift)));
+
+  const setRounding = (patch: Partial<RoundingPolicy>) =>
+    updateSettings({ rounding: { ...settings.rounding, ...patch } });
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>{t('settings.institution')}</Text>
+      <TextInput
+        style={styles.input}
+        placeholder={t('settings.institutionPlaceholder')}
+        placeholderTextColor={colors.placeholder}
+        value={settings.institution}
+        onChangeText={(institution) => updateSettings({ institution })}
+      />
+      <Text style={styles.hint}>{t('settings.institutionHint')}</Text>
+
+      <Text style={styles.sectionTitle}>{t('settings.currency')}</Text>
+      <TextInput
+        style={[styles.input, !currencyValid && styles.inputError]}
+        value={currency}
+        autoCapitalize="characters"
+        maxLength={3}
+        onChangeText={(value) => {
+          const code = value.toUpperCase();
+          setCurrency(code);
+          if (isValidCurrency(code)) updateSettings({ currency: code });
+        }}
+      />
+      <Text style={currencyValid ? styles.hint : styles.error}>
+        {currencyValid
+          ? t('settings.currencyExample', {
+              amount: formatCurrency(1234567.5, currency, settings.rounding, locale),
+            })
+          : t('settings.currencyError')}
+      </Text>
+
+      <Text style={styles.sectionTitle}>{t('settings.rounding')}</Text>
+      <Text style={styles.label}>{t('settings.roundingScope')}</Text>
+      <OptionGroup
+        options={translated(SCOPES)}
+        selected={settings.rounding.scope}
+        onSelect={(scope) => setRounding({ scope })}
+      />
+      <Text style={styles.label}>{t('settings.roundingIncrement')}</Text>
+      <OptionGroup
+        options={translated(INCREMENTS)}
+        selected={settings.rounding.increment}
+        onSelect={(increment) => setRounding({ increment })}
+      />
+      <Text style={styles.hint}>
+        {t('settings.roundingHint', { rounding: describeRounding(settings.rounding, t) })}
+      </Text>
+
+      <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
+      <OptionGroup
+        options={languages}
+        selected={settings.language}
+        onSelect={(language) => updateSettings({ language })}
+      />
+      <Text style={styles.label}>{t('settings.reportLanguage')}</Text>
+      <OptionGroup
+        options={reportLanguages}
+        selected={settings.reportLanguage}
+        onSelect={(reportLanguage) => updateSettings({ reportLanguage })}
+      />
+      <Text style={styles.hint}>{t('settings.languageHint')}</Text>
+
+      <Text style={styles.sectionTitle}>{t('settings.theme')}</Text>
+      <OptionGroup
+        options={translated(THEMES)}
+        selected={settings.theme}
+        onSelect={(theme) => updateSettings({ theme })}
+      />
+      <Text style={styles.hint}>{t('settings.themeHint')}</Text>
+
+      <Text style={styles.sectionTitle}>{t('settings.time')}</Text>
+      <Text style={styles.label}>{t('settings.timeFormat')}</Text>
+      <OptionGroup
+        options={TIME_FORMATS}
+        selected={settings.timeFormat}
+        onSelect={(timeFormat) => updateSettings({ timeFormat })}
+      />
+      <Text style={styles.label}>{t('settings.minuteStep')}</Text>
+      <OptionGroup
+        options={MINUTE_STEPS}
+        selected={settings.minuteStep}
+        onSelect={(minuteStep) => updateSettings({ minuteStep })}
+      />
+      <Text style={styles.hint}>
+        {t('settings.timeHint', { time: formatClock(19 * 60 + 30, settings.timeFormat) })}
+      </Text>
+
+      <Text style={styles.sectionTitle}>{t('settings.shifts')}</Text>
+      {shifts.map((shift) => (
+        <View key={shift.id} style={styles.shiftRow}>
+          <TextInput
+            style={[styles.input, styles.shiftLabel]}
+            placeholder={t('settings.shiftName')}
+            placeholderTextColor={colors.placeholder}
+            value={shift.label}
+            onChangeText={(label) => updateShift(shift.id, { label })}
+          />
+          <TextInput
+            style={[styles.input, styles.shiftStart]}
+            placeholder={t('time.placeholder')}
+            placeholderTextColor={colors.placeholder}
+            value={shift.start}
+            onChangeText={(start) => updateShift(shift.id, { start })}
+          />
+          <TouchableOpacity
+            style={styles.shiftRemove}
+            onPress={() => changeShifts(shifts.filter((s) => s.id !== shift.id))}
+            disabled={shifts.length === 1}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.removeShift', { shift: shift.label })}
+            accessibilityState={{ disabled: shifts.length === 1 }}
+          >
+            <MaterialCommunityIcons
+              name="delete"
+              size={18}
+              color={shifts.length === 1 ? colors.disabled : colors.danger}
+            />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <View style={styles.options}>
+        <TouchableOpacity
+          style={styles.option}
+          onPress={() => changeShifts([...shifts, createShift(t('settings.shiftLabel', { number: shifts.length + 1 }), '')])}
+        >
+          <Text style={styles.optionText}>{t('settings.addShift')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.option} onPress={() => changeShifts(defaultShifts(t))}>
+          <Text style={styles.optionText}>{t('common.reset')}</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={shiftsError ? styles.error : styles.hint}>
+        {shiftsError ??
+          t('settings.shiftsHint', {
+            shifts: getShiftWindows(shifts)
+              .map((window) => `${window.shift.label} ${formatShiftRange(window, settings.timeFormat)}`)
+              .join(', '),
+          })}
+      </Text>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginTop: 8,
+      marginBottom: 12,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textMuted,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 6,
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    hint: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginTop: 8,
+      marginBottom: 16,
+    },
+    error: {
+      fontSize: 12,
+      color: colors.danger,
+      marginTop: 8,
+      marginBottom: 16,
+    },
+    shiftRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 8,
+    },
+    shiftLabel: {
+      flex: 1,
+    },
+    shiftStart: {
+      width: 80,
+      textAlign: 'center',
+    },
+    shiftRemove: {
+      width: MIN_TOUCH_TARGET,
+      height: MIN_TOUCH_TARGET,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    options: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    option: {
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    optionActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    optionText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    optionTextActive: {
+      color: colors.onPrimary,
+    },
+  });
@@ -1,226 +1,521 @@
 import { StyleSheet } from 'react-native';
+import type { Palette } from '@/constants/colors';
+import { MIN_TOUCH_TARGET } from '@/constants/layout';
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#FFFFFF',
-  },
-  header: {
-    backgroundColor: '#9575CD',
-    paddingBottom: 24,
-  },
-  safeArea: {
-    backgroundColor: 'transparent',
-  },
-  headerContent: {
-    paddingHorizontal: 20,
-    paddingTop: 8,
-  },
-  titleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 12,
-  },
-  headerTitle: {
-    fontSize: 24,
-    fontWeight: '700' as const,
-    color: '#FFFFFF',
-  },
-  headerSubtitle: {
-    fontSize: 14,
-    color: '#FFFFFF',
-    marginTop: 4,
-  },
-  content: {
-    flex: 1,
-  },
-  section: {
-    padding: 20,
-  },
-  sectionHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  sectionTitle: {
-    fontSize: 18,
-    fontWeight: '600' as const,
-    color: '#1E293B',
-    marginBottom: 12,
-  },
-  insuranceButtons: {
-    flexDirection: 'row',
-    gap: 12,
-  },
-  insuranceButton: {
-    flex: 1,
-    backgroundColor: '#FFFFFF',
-    borderRadius: 12,
-    padding: 16,
-    borderWidth: 2,
-    borderColor: '#E2E8F0',
-    alignItems: 'center',
-  },
-  insuranceButtonActive: {
-    backgroundColor: '#F48FB1',
-    borderColor: '#F48FB1',
-  },
-  insuranceButtonText: {
-    fontSize: 16,
-    fontWeight: '600' as const,
-    color: '#334155',
-    marginBottom: 4,
-  },
-  insuranceButtonTextActive: {
-    color: '#FFFFFF',
-  },
-  insuranceButtonFactor: {
-    fontSize: 12,
-    color: '#64748B',
-  },
-  insuranceButtonFactorActive: {
-    color: '#FFFFFF',
-  },
-  addButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#F48FB1',
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    borderRadius: 8,
-    gap: 6,
-  },
-  addButtonText: {
-    fontSize: 14,
-    fontWeight: '600' as const,
-    color: '#FFFFFF',
-  },
-  tableHeader: {
-    flexDirection: 'row',
-    backgroundColor: '#FFFFFF',
-    paddingVertical: 12,
-    paddingHorizontal: 12,
-    borderRadius: 8,
-    marginBottom: 8,
-    alignItems: 'center',
-    gap: 8,
-  },
-  tableHeaderText: {
-    fontSize: 12,
-    fontWeight: '700' as const,
-    color: '#475569',
-    textAlign: 'center',
-  },
-  tableRow: {
-    flexDirection: 'row',
-    backgroundColor: '#FFFFFF',
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 8,
-    marginBottom: 8,
-    alignItems: 'center',
-    gap: 8,
-  },
-  rowNumber: {
-    fontSize: 14,
-    fontWeight: '600' as const,
-    color: '#64748B',
-    textAlign: 'center',
-  },
-  input: {
-    backgroundColor: '#F5F6FA',
-    borderRadius: 6,
-    paddingHorizontal: 8,
-    paddingVertical: 8,
-    fontSize: 14,
-    color: '#1E293B',
-    borderWidth: 1,
-    borderColor: '#E2E8F0',
-    textAlign: 'center',
-  },
-  inputFixed: {
-    backgroundColor: '#F5F6FA',
-    borderRadius: 6,
-    paddingHorizontal: 8,
-    paddingVertical: 8,
-    fontSize: 14,
-    color: '#1E293B',
-    borderWidth: 1,
-    borderColor: '#E2E8F0',
-    textAlign: 'center',
-    minWidth: 50,
-    flexShrink: 0,
-  },
-  tableScroll: {
-    width: '100%',
-  },
-  tableInner: {
-    paddingRight: 12,
-    minWidth: 600,
-  },
-  calculatedValue: {
-    fontSize: 14,
-    fontWeight: '500' as const,
-    color: '#CE93D8',
-    textAlign: 'center',
-  },
-  deleteButton: {
-    width: 40,
-    height: 40,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  totalSection: {
-    paddingHorizontal: 20,
-    paddingTop: 8,
-  },
-  totalCard: {
-    backgroundColor: '#FFFFFF',
-    borderRadius: 16,
-    padding: 24,
-    alignItems: 'center',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 8,
-    elevation: 4,
-    borderWidth: 2,
-    borderColor: '#9575CD',
-  },
-  totalLabel: {
-    fontSize: 14,
-    fontWeight: '600' as const,
-    color: '#64748B',
-    textTransform: 'uppercase' as const,
-    letterSpacing: 0.5,
-  },
-  totalAmount: {
-    fontSize: 40,
-    fontWeight: '700' as const,
-    color: '#9575CD',
-    marginTop: 8,
-  },
-  totalInfo: {
-    fontSize: 13,
-    color: '#64748B',
-    marginTop: 8,
-  },
-  shareButton: {
-    marginTop: 12,
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#4CAF50',
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    borderRadius: 8,
-    gap: 8,
-  },
-  shareButtonText: {
-    color: '#FFFFFF',
-    fontWeight: '600' as const,
-    marginLeft: 6,
-  },
-});
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface,
+    },
+    loading: {
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    header: {
+      backgroundColor: colors.primary,
+      paddingBottom: 24,
+    },
+    safeArea: {
+      backgroundColor: 'transparent',
+    },
+    headerContent: {
+      paddingHorizontal: 20,
+      paddingTop: 8,
+    },
+    titleContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: '700' as const,
+      color: colors.onPrimary,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      color: colors.onPrimary,
+      marginTop: 4,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    newSessionButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.onPrimary,
+      gap: 6,
+    },
+    newSessionButtonText: {
+      fontSize: 13,
+      fontWeight: '600' as const,
+      color: colors.onPrimary,
+    },
+    content: {
+      flex: 1,
+    },
+    section: {
+      padding: 20,
+    },
+    closedBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginHorizontal: 20,
+      marginTop: 16,
+      padding: 12,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceMuted,
+    },
+    closedBannerText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.textMuted,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    sectionActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 16,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '600' as const,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    linkText: {
+      fontSize: 14,
+      fontWeight: '600' as const,
+      color: colors.primary,
+      marginBottom: 12,
+    },
+    insuranceButtons: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+    },
+    insuranceButton: {
+      flexGrow: 1,
+      flexBasis: 140,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 2,
+      borderColor: colors.border,
+      alignItems: 'center',
+    },
+    insuranceButtonActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    insuranceButtonText: {
+      fontSize: 16,
+      fontWeight: '600' as const,
+      color: colors.textSecondary,
+      marginBottom: 4,
+    },
+    insuranceButtonTextActive: {
+      color: colors.onPrimary,
+    },
+    insuranceButtonFactor: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+    insuranceButtonFactorActive: {
+      color: colors.onPrimary,
+    },
+    tariffNotice: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginTop: 12,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.accent,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderRadius: 8,
+      gap: 6,
+    },
+    addButtonText: {
+      fontSize: 14,
+      fontWeight: '600' as const,
+      color: colors.onPrimary,
+    },
+    liveBanner: {
+      backgroundColor: colors.successSoft,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 12,
+      gap: 8,
+    },
+    liveInfo: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    liveText: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: '600' as const,
+      color: colors.text,
+    },
+    liveActions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    liveButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.primary,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      gap: 6,
+    },
+    liveButtonStop: {
+      backgroundColor: colors.danger,
+    },
+    liveButtonText: {
+      fontSize: 13,
+      fontWeight: '600' as const,
+      color: colors.onPrimary,
+    },
+    tableHeader: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      paddingVertical: 12,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      marginBottom: 8,
+      alignItems: 'center',
+      gap: 8,
+    },
+    tableHeaderText: {
+      fontSize: 12,
+      fontWeight: '700' as const,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    tableRow: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      marginBottom: 8,
+      alignItems: 'center',
+      gap: 8,
+    },
+    tableRowError: {
+      borderWidth: 1,
+      borderColor: colors.danger,
+    },
+    tableRowWarning: {
+      borderWidth: 1,
+      borderColor: colors.warning,
+    },
+    tableRowLive: {
+      borderWidth: 1,
+      borderColor: colors.success,
+    },
+    rowIssues: {
+      marginTop: -4,
+      marginBottom: 8,
+      paddingHorizontal: 12,
+      gap: 2,
+    },
+    rowIssueError: {
+      fontSize: 12,
+      color: colors.danger,
+    },
+    rowIssueWarning: {
+      fontSize: 12,
+      color: colors.warningText,
+    },
+    rowNumber: {
+      fontSize: 14,
+      fontWeight: '600' as const,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    input: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 6,
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      textAlign: 'center',
+    },
+    inputFixed: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 6,
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      textAlign: 'center',
+      minWidth: 50,
+      flexShrink: 0,
+    },
+    cellDate: {
+      fontSize: 10,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    tableScroll: {
+      width: '100%',
+    },
+    tableInner: {
+      paddingRight: 12,
+      minWidth: 600,
+    },
+    // Rows scroll under the header within this height instead of growing the
+    // page, so only the rows in view are rendered.
+    tableBody: {
+      maxHeight: 560,
+    },
+    calculatedValue: {
+      fontSize: 14,
+      fontWeight: '500' as const,
+      color: colors.primary,
+      textAlign: 'center',
+    },
+    deleteButton: {
+      width: MIN_TOUCH_TARGET,
+      height: MIN_TOUCH_TARGET,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    totalSection: {
+      paddingHorizontal: 20,
+      paddingTop: 8,
+    },
+    totalCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      alignItems: 'center',
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 8,
+      elevation: 4,
+      borderWidth: 2,
+      borderColor: colors.primary,
+    },
+    totalLabel: {
+      fontSize: 14,
+      fontWeight: '600' as const,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: 0.5,
+    },
+    totalAmount: {
+      fontSize: 40,
+      fontWeight: '700' as const,
+      color: colors.primary,
+      marginTop: 8,
+    },
+    totalInfo: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginTop: 8,
+    },
+    shareButton: {
+      marginTop: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.success,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      gap: 8,
+    },
+    shareButtonText: {
+      color: colors.onPrimary,
+      fontWeight: '600' as const,
+      marginLeft: 6,
+    },
+    rowOptions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+      paddingHorizontal: 8,
+      paddingBottom: 8,
+    },
+    chip: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 6,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 11,
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    totalNote: {
+      fontSize: 11,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 4,
+    },
+    shiftTotals: {
+      alignSelf: 'stretch',
+      marginTop: 12,
+      paddingTop: 8,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      gap: 4,
+    },
+    shiftTotalsTitle: {
+      fontSize: 12,
+      fontWeight: '600' as const,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+    },
+    shiftTotalRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    shiftTotalLabel: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    shiftTotalValue: {
+      fontSize: 13,
+      fontWeight: '600' as const,
+      color: colors.text,
+    },
+    deviceCell: {
+      fontSize: 12,
+      fontWeight: '600' as const,
+      color: colors.text,
+      textAlign: 'center',
+    },
+    deviceFio2: {
+      fontSize: 10,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    cylinderCell: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    cylinderSummary: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 8,
+      padding: 12,
+      marginBottom: 12,
+      gap: 4,
+    },
+    cylinderSummaryText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    exportActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      marginTop: 8,
+      gap: 8,
+    },
+    exportButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      gap: 6,
+    },
+    exportButtonText: {
+      color: colors.primary,
+      fontWeight: '600' as const,
+    },
+    modalBackdrop: {
+      flex: 1,
+      backgroundColor: colors.backdrop,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+      gap: 12,
+    },
+    modalTitle: {
+      fontSize: 18,
+      fontWeight: '600' as const,
+      color: colors.text,
+      textAlign: 'center',
+    },
+    modalText: {
+      fontSize: 13,
+      color: colors.textMuted,
+    },
+    modalButtons: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    modalButtonCancel: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+    },
+    modalButtonCancelText: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600' as const,
+      color: colors.textMuted,
+    },
+    modalButtonConfirm: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+    },
+    modalButtonConfirmText: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600' as const,
+      color: colors.onPrimary,
+    },
+  });
 
-export default styles;
+export default createStyles;
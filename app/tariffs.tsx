@@ -0,0 +1,351 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import type { Palette } from '@/constants/colors';
+import { MIN_TOUCH_TARGET } from '@/constants/layout';
+import { useI18n } from '@/hooks/useI18n';
+import { useTariffs } from '@/hooks/useTariffs';
+import { useTheme, useThemedStyles } from '@/hooks/useTheme';
+import type { TariffRegime } from '@/types/tariff';
+import { confirmAction } from '@/utils/confirm';
+import { isValidDateKey, toDateKey } from '@/utils/dates';
+import { getEffectiveRate, parseFactor } from '@/utils/tariffs';
+
+// `regimeId` is set when adding a rate version to an existing regime;
+// otherwise the draft creates a new regime.
+interface Draft {
+  regimeId?: string;
+  label: string;
+  factor: string;
+  effectiveFrom: string;
+}
+
+export default function TariffsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const { regimes, addRegime, renameRegime, deleteRegime, addRate, removeRate } = useTariffs();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDraft = (regime?: TariffRegime) => {
+    setError(null);
+    setDraft({
+      regimeId: regime?.id,
+      label: regime?.label ?? '',
+      factor: '',
+      effectiveFrom: toDateKey(new Date()),
+    });
+  };
+
+  const submitDraft = () => {
+    if (!draft) return;
+    const factor = parseFactor(draft.factor);
+    if (!draft.regimeId && !draft.label.trim()) {
+      setError(t('tariffs.error.name'));
+      return;
+    }
+    if (factor === null) {
+      setError(t('tariffs.error.factor'));
+      return;
+    }
+    if (!isValidDateKey(draft.effectiveFrom)) {
+      setError(t('tariffs.error.date'));
+      return;
+    }
+    if (draft.regimeId) {
+      addRate(draft.regimeId, factor, draft.effectiveFrom);
+    } else {
+      addRegime(draft.label.trim(), factor, draft.effectiveFrom);
+    }
+    setDraft(null);
+  };
+
+  const confirmDelete = (regime: TariffRegime) =>
+    confirmAction(
+      t('tariffs.delete'),
+      t('tariffs.deleteMessage', { regime: regime.label }),
+      t('common.delete'),
+      t('common.cancel'),
+      () => deleteRegime(regime.id)
+    );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.list}>
+        <TouchableOpacity style={styles.newButton} onPress={() => openDraft()}>
+          <MaterialCommunityIcons name="plus" size={20} color={colors.onPrimary} />
+          <Text style={styles.newButtonText}>{t('tariffs.newRegime')}</Text>
+        </TouchableOpacity>
+
+        {regimes.map((regime) => {
+          const effective = getEffectiveRate(regime);
+          const rates = [...regime.rates].sort((a, b) =>
+            b.effectiveFrom.localeCompare(a.effectiveFrom)
+          );
+          return (
+            <View key={regime.id} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <TextInput
+                  style={styles.cardTitle}
+                  defaultValue={regime.label}
+                  onEndEditing={(e) => {
+                    const label = e.nativeEvent.text.trim();
+                    if (label) renameRegime(regime.id, label);
+                  }}
+                />
+                {regimes.length > 1 && (
+                  <TouchableOpacity
+                    style={styles.action}
+                    onPress={() => confirmDelete(regime)}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('tariffs.delete')}
+                  >
+                    <MaterialCommunityIcons name="delete" size={18} color={colors.danger} />
+                  </TouchableOpacity>
+                )}
+              </View>
+              {rates.map((rate) => (
+                <View key={rate.id} style={styles.rateRow}>
+                  <Text style={styles.rateText}>
+                    {t('tariffs.rate', { factor: rate.factor, date: rate.effectiveFrom })}
+                  </Text>
+                  {rate.id === effective?.id && (
+                    <View style={styles.badge}>
+                      <Text style={styles.badgeText}>{t('tariffs.current')}</Text>
+                    </View>
+                  )}
+                  {regime.rates.length > 1 && (
+                    <TouchableOpacity
+                      style={styles.action}
+                      onPress={() => removeRate(regime.id, rate.id)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('a11y.removeRate')}
+                    >
+                      <MaterialCommunityIcons name="close" size={16} color={colors.textMuted} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+              <TouchableOpacity onPress={() => openDraft(regime)}>
+                <Text style={styles.linkText}>{t('tariffs.addVersion')}</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <Modal
+        visible={draft !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setDraft(null)}
+      >
+        <View style={styles.backdrop}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>
+              {draft?.regimeId
+                ? t('tariffs.newVersion', { regime: draft.label })
+                : t('tariffs.newRegime')}
+            </Text>
+            {!draft?.regimeId && (
+              <>
+                <Text style={styles.label}>{t('tariffs.name')}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('tariffs.namePlaceholder')}
+                  placeholderTextColor={colors.placeholder}
+                  value={draft?.label ?? ''}
+                  onChangeText={(label) => setDraft((prev) => (prev ? { ...prev, label } : prev))}
+                />
+              </>
+            )}
+            <Text style={styles.label}>{t('tariffs.factor')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0.45"
+              placeholderTextColor={colors.placeholder}
+              keyboardType="decimal-pad"
+              value={draft?.factor ?? ''}
+              onChangeText={(factor) => setDraft((prev) => (prev ? { ...prev, factor } : prev))}
+            />
+            <Text style={styles.label}>{t('tariffs.effectiveFrom')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholderTextColor={colors.placeholder}
+              value={draft?.effectiveFrom ?? ''}
+              onChangeText={(effectiveFrom) =>
+                setDraft((prev) => (prev ? { ...prev, effectiveFrom } : prev))
+              }
+            />
+            {error && <Text style={styles.error}>{error}</Text>}
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.buttonCancel} onPress={() => setDraft(null)}>
+                <Text style={styles.buttonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.buttonConfirm} onPress={submitDraft}>
+                <Text style={styles.buttonTextConfirm}>{t('common.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const createStyles = (colors: Palette) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    list: {
+      padding: 20,
+      gap: 12,
+    },
+    newButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.accent,
+      paddingVertical: 12,
+      borderRadius: 8,
+      gap: 6,
+    },
+    newButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 2,
+      borderColor: colors.border,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    cardTitle: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    rateRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      minHeight: 40,
+    },
+    rateText: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    badge: {
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 6,
+      backgroundColor: colors.success,
+    },
+    badgeText: {
+      fontSize: 11,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    action: {
+      width: MIN_TOUCH_TARGET,
+      height: MIN_TOUCH_TARGET,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    linkText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+      marginTop: 8,
+    },
+    backdrop: {
+      flex: 1,
+      backgroundColor: colors.backdrop,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    dialog: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+    },
+    dialogTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 16,
+      textAlign: 'center',
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textMuted,
+      marginBottom: 4,
+    },
+    input: {
+      backgroundColor: colors.surfaceAlt,
+      borderRadius: 6,
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: 12,
+    },
+    error: {
+      fontSize: 12,
+      color: colors.danger,
+      marginBottom: 12,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    buttonCancel: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+    },
+    buttonText: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    buttonConfirm: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.primary,
+    },
+    buttonTextConfirm: {
+      textAlign: 'center',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+  });
@@ -1,12 +1,131 @@
-// template
-const tintColorLight = "#2f95dc";
-
-export default {
-  light: {
-    text: "#000",
-    background: "#fff",
-    tint: tintColorLight,
-    tabIconDefault: "#ccc",
-    tabIconSelected: tintColorLight,
-  },
+// Color palettes. Screens read them through useTheme and never hardcode a
+// color, so every palette must define every role.
+import type { ThemeName } from '@/types/settings';
+
+export interface Palette {
+  // Screen behind cards, and the main page.
+  background: string;
+  // Cards, dialogs, inputs and table rows.
+  surface: string;
+  // Cells and panels set into a surface.
+  surfaceAlt: string;
+  // Quiet fills such as secondary buttons.
+  surfaceMuted: string;
+  border: string;
+  // Disabled icons and strong dividers.
+  disabled: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  textFaint: string;
+  placeholder: string;
+  primary: string;
+  accent: string;
+  // Text and icons on primary, accent, danger and success fills.
+  onPrimary: string;
+  danger: string;
+  success: string;
+  successSoft: string;
+  warning: string;
+  warningText: string;
+  link: string;
+  // Snackbars, drawn in the opposite scheme to stand out.
+  inverseSurface: string;
+  onInverseSurface: string;
+  inversePrimary: string;
+  backdrop: string;
+  shadow: string;
+  // Status bar and native controls.
+  statusBar: 'light' | 'dark';
+}
+
+const light: Palette = {
+  background: '#F5F6FA',
+  surface: '#FFFFFF',
+  surfaceAlt: '#F5F6FA',
+  surfaceMuted: '#F1F5F9',
+  border: '#E2E8F0',
+  disabled: '#CBD5E1',
+  text: '#1E293B',
+  textSecondary: '#334155',
+  textMuted: '#64748B',
+  textFaint: '#94A3B8',
+  placeholder: '#999999',
+  primary: '#9575CD',
+  accent: '#F48FB1',
+  onPrimary: '#FFFFFF',
+  danger: '#D32F2F',
+  success: '#4CAF50',
+  successSoft: '#F1F8E9',
+  warning: '#F59E0B',
+  warningText: '#B45309',
+  link: '#0F766E',
+  inverseSurface: '#1E293B',
+  onInverseSurface: '#FFFFFF',
+  inversePrimary: '#CE93D8',
+  backdrop: 'rgba(0, 0, 0, 0.5)',
+  shadow: '#000000',
+  statusBar: 'dark',
+};
+
+// Dim enough for a dark ward at night: no white fills, softened accents.
+const dark: Palette = {
+  background: '#0B1120',
+  surface: '#111827',
+  surfaceAlt: '#1E293B',
+  surfaceMuted: '#1F2937',
+  border: '#334155',
+  disabled: '#475569',
+  text: '#E2E8F0',
+  textSecondary: '#CBD5E1',
+  textMuted: '#94A3B8',
+  textFaint: '#64748B',
+  placeholder: '#64748B',
+  primary: '#7E57C2',
+  accent: '#C2185B',
+  onPrimary: '#F8FAFC',
+  danger: '#EF5350',
+  success: '#43A047',
+  successSoft: '#14261A',
+  warning: '#F59E0B',
+  warningText: '#FBBF24',
+  link: '#2DD4BF',
+  inverseSurface: '#E2E8F0',
+  onInverseSurface: '#0F172A',
+  inversePrimary: '#6A1B9A',
+  backdrop: 'rgba(0, 0, 0, 0.7)',
+  shadow: '#000000',
+  statusBar: 'light',
 };
+
+// Black and white with saturated fills that take black text.
+const contrast: Palette = {
+  background: '#000000',
+  surface: '#000000',
+  surfaceAlt: '#121212',
+  surfaceMuted: '#1A1A1A',
+  border: '#FFFFFF',
+  disabled: '#8A8A8A',
+  text: '#FFFFFF',
+  textSecondary: '#FFFFFF',
+  textMuted: '#E0E0E0',
+  textFaint: '#BDBDBD',
+  placeholder: '#BDBDBD',
+  primary: '#FFD600',
+  accent: '#00E5FF',
+  onPrimary: '#000000',
+  danger: '#FF8A80',
+  success: '#69F0AE',
+  successSoft: '#002B12',
+  warning: '#FFD600',
+  warningText: '#FFD600',
+  link: '#00E5FF',
+  inverseSurface: '#FFFFFF',
+  onInverseSurface: '#000000',
+  inversePrimary: '#6200EA',
+  backdrop: 'rgba(0, 0, 0, 0.85)',
+  shadow: '#000000',
+  statusBar: 'light',
+};
+
+export const PALETTES: Record<ThemeName, Palette> = { light, dark, contrast };
@@ -0,0 +1,8 @@
+// Sizes shared by every screen's controls.
+
+// Smallest side of anything tappable, per the iOS and Android guidelines.
+export const MIN_TOUCH_TARGET = 44;
+
+// Reach added around small icons and chips that are drawn below
+// MIN_TOUCH_TARGET, so the tap area meets it without changing the layout.
+export const HIT_SLOP = { top: 10, bottom: 10, left: 10, right: 10 };
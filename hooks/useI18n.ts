@@ -0,0 +1,11 @@
+import { useSettings } from '@/hooks/useSettings';
+import { detectLanguage, getTranslator } from '@/utils/i18n';
+
+// The app's translator, chosen in settings or from the device language, plus
+// the one reports and exports are written with, which can differ.
+export const useI18n = () => {
+  const { settings } = useSettings();
+  const language = settings.language === 'system' ? detectLanguage() : settings.language;
+  const reportLanguage = settings.reportLanguage === 'app' ? language : settings.reportLanguage;
+  return { ...getTranslator(language), report: getTranslator(reportLanguage) };
+};
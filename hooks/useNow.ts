@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+// Current time, refreshed every `intervalMs` while `enabled` and immediately
+// when the app returns to the foreground (timers don't run in background).
+export const useNow = (enabled: boolean, intervalMs = 15000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') setNow(new Date());
+    });
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [enabled, intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,49 @@
+import createContextHook from '@nkzw/create-context-hook';
+import { useCallback, useEffect, useState } from 'react';
+import type { DeliveryDevice } from '@/types/oxygen';
+import type { PrescriptionSegment, PrescriptionTemplate } from '@/types/prescription';
+import { createTemplate } from '@/utils/prescriptions';
+import { prescriptionStore } from '@/utils/storage';
+
+export const [PrescriptionsProvider, usePrescriptions] = createContextHook(() => {
+  const [templates, setTemplates] = useState<PrescriptionTemplate[]>([]);
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    prescriptionStore.load().then((state) => {
+      if (cancelled) return;
+      if (state) setTemplates(state.templates);
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    prescriptionStore.save({ templates });
+  }, [hydrated, templates]);
+
+  const addTemplate = useCallback(
+    (name: string, segments: PrescriptionSegment[], device?: DeliveryDevice) => {
+      const template = createTemplate(name, segments, device);
+      setTemplates((prev) => [...prev, template]);
+      return template;
+    },
+    []
+  );
+
+  // Sessions that chose a deleted template simply show none selected.
+  const deleteTemplate = useCallback((id: string) => {
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  return {
+    hydrated,
+    templates,
+    addTemplate,
+    deleteTemplate,
+  };
+});
@@ -0,0 +1,470 @@
+import createContextHook from '@nkzw/create-context-hook';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useI18n } from '@/hooks/useI18n';
+import { useSettings } from '@/hooks/useSettings';
+import { useTariffs } from '@/hooks/useTariffs';
+import type {
+  DeliveryDevice,
+  EntryField,
+  InsuranceType,
+  OxygenEntry,
+  OxygenSession,
+  PatientInfo,
+  TimeField,
+} from '@/types/oxygen';
+import { getSessionTotal } from '@/utils/billing';
+import {
+  countBlankRows,
+  createPressureEntry,
+  createSession,
+  duplicateSession as copySession,
+  insertBeforeTrailingBlank,
+  isEntryEmpty,
+  mergeImportedEntries,
+  stampEntryTime,
+  withTrailingBlank,
+} from '@/utils/entries';
+import { createCylinder } from '@/utils/cylinders';
+import { applyDevice, applyVenturiSetting } from '@/utils/devices';
+import { EMPTY_HISTORY, type SessionHistory, recordStep, redoStep, undoStep } from '@/utils/history';
+import type { Translate } from '@/utils/i18n';
+import { startLiveEntry, stopLiveEntry, switchLiveFlow } from '@/utils/live';
+import { sessionStore } from '@/utils/storage';
+import { DEFAULT_TARIFFS, toAppliedTariff } from '@/utils/tariffs';
+
+const nextPatientLabel = (sessions: OxygenSession[], t: Translate) =>
+  t('sessions.defaultLabel', { number: sessions.length + 1 });
+
+// Notice for an edit that also moved the next row's start, which is easy to
+// miss; see stampEntryTime.
+const chainNotice =
+  (entryId: string, t: Translate) => (before: OxygenSession, after: OxygenSession) => {
+    const idx = before.entries.findIndex((e) => e.id === entryId);
+    const previous = before.entries[idx + 1];
+    const next = after.entries[idx + 1];
+    // A blank row the edit appended at the end was not moved.
+    return idx !== -1 && previous && next && next.startTime !== previous.startTime
+      ? t('sessions.notice.chained', { row: idx + 2, time: next.startTime })
+      : null;
+  };
+
+interface EditOptions {
+  // Consecutive edits with the same key are undone as one.
+  key?: string;
+  // Message for edits worth offering an immediate "Deshacer" for.
+  notice?: (before: OxygenSession, after: OxygenSession) => string | null;
+}
+
+const createDefaultSession = (t: Translate) =>
+  createSession(
+    t('sessions.defaultLabel', { number: 1 }),
+    DEFAULT_TARIFFS[0].id,
+    toAppliedTariff(DEFAULT_TARIFFS[0], DEFAULT_TARIFFS[0].rates[0])
+  );
+
+export const [SessionsProvider, useSessions] = createContextHook(() => {
+  const { regimes, resolveTariff } = useTariffs();
+  const { settings } = useSettings();
+  const { t } = useI18n();
+  const [sessions, setSessions] = useState<OxygenSession[]>(() => [createDefaultSession(t)]);
+  const [activeSessionId, setActiveSessionId] = useState<string>(() => sessions[0].id);
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    sessionStore.load().then((state) => {
+      if (cancelled) return;
+      if (state) {
+        setSessions(state.sessions);
+        setActiveSessionId(state.activeSessionId);
+      }
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave after every mutation, but never before the saved state has been
+  // restored, otherwise the blank initial session would overwrite it.
+  useEffect(() => {
+    if (!hydrated) return;
+    sessionStore.save({ sessions, activeSessionId });
+  }, [hydrated, sessions, activeSessionId]);
+
+  const activeSession = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId) ?? sessions[0],
+    [sessions, activeSessionId]
+  );
+
+  // Undo history per session, and the latest edit to offer undoing.
+  const [history, setHistory] = useState<Record<string, SessionHistory>>({});
+  const [notice, setNotice] = useState<{ id: number; message: string } | null>(null);
+  // Latest committed sessions, to snapshot before an edit is queued.
+  const sessionsRef = useRef(sessions);
+  useEffect(() => {
+    sessionsRef.current = sessions;
+  }, [sessions]);
+
+  // Applies `fn` to one session. Closed sessions are read-only unless `force`
+  // is set (used by rename, which only touches metadata).
+  const updateSession = useCallback(
+    (id: string, fn: (session: OxygenSession) => OxygenSession, force = false) => {
+      setSessions((prev) =>
+        prev.map((s) =>
+          s.id === id && (force || !s.closedAt)
+            ? { ...fn(s), updatedAt: new Date().toISOString() }
+            : s
+        )
+      );
+    },
+    []
+  );
+
+  // Applies a table edit to the active session and records it for undo. The
+  // table is left ending in a blank row whatever the edit did to it.
+  const editSession = useCallback(
+    (fn: (session: OxygenSession) => OxygenSession, options: EditOptions = {}) => {
+      const id = activeSession.id;
+      const before = sessionsRef.current.find((s) => s.id === id);
+      if (!before || before.closedAt) return;
+      const apply = (session: OxygenSession) => {
+        const edited = fn(session);
+        if (edited === session) return session;
+        const entries = withTrailingBlank(edited.entries);
+        return entries === edited.entries ? edited : { ...edited, entries };
+      };
+      const after = apply(before);
+      if (after === before) return;
+      setHistory((prev) => ({
+        ...prev,
+        [id]: recordStep(prev[id] ?? EMPTY_HISTORY, before, after, options.key),
+      }));
+      updateSession(id, apply);
+      const message = options.notice?.(before, after);
+      setNotice(message ? { id: Date.now(), message } : null);
+    },
+    [updateSession, activeSession.id]
+  );
+
+  const travel = useCallback(
+    (step: typeof undoStep) => {
+      const id = activeSession.id;
+      const current = sessionsRef.current.find((s) => s.id === id);
+      const result = current && !current.closedAt ? step(history[id] ?? EMPTY_HISTORY, current) : null;
+      if (!result) return;
+      setHistory((prev) => ({ ...prev, [id]: result.history }));
+      updateSession(id, () => result.session);
+      setNotice(null);
+    },
+    [history, updateSession, activeSession.id]
+  );
+
+  const undo = useCallback(() => travel(undoStep), [travel]);
+  const redo = useCallback(() => travel(redoStep), [travel]);
+  const dismissNotice = useCallback(() => setNotice(null), []);
+
+  const activeHistory = activeSession.closedAt
+    ? EMPTY_HISTORY
+    : (history[activeSession.id] ?? EMPTY_HISTORY);
+
+  // New sessions keep the regime of the active one, at the rate in force
+  // today; if that regime is gone, fall back to the first usable one.
+  const newSession = useCallback(() => {
+    const candidates = [activeSession.insuranceType, ...regimes.map((r) => r.id)];
+    const insuranceType = candidates.find((id) => resolveTariff(id));
+    const session = insuranceType
+      ? createSession(nextPatientLabel(sessions, t), insuranceType, resolveTariff(insuranceType)!)
+      : { ...createDefaultSession(t), patientLabel: nextPatientLabel(sessions, t) };
+    setSessions((prev) => [session, ...prev]);
+    setActiveSessionId(session.id);
+    return session.id;
+  }, [sessions, activeSession.insuranceType, regimes, resolveTariff, t]);
+
+  const openSession = useCallback((id: string) => setActiveSessionId(id), []);
+
+  const duplicateSession = useCallback(
+    (id: string) => {
+      const source = sessions.find((s) => s.id === id);
+      if (!source) return;
+      const copy = copySession(source, t('sessions.copyLabel', { label: source.patientLabel }));
+      setSessions((prev) => [copy, ...prev]);
+      setActiveSessionId(copy.id);
+    },
+    [sessions, t]
+  );
+
+  const renameSession = useCallback(
+    (id: string, patientLabel: string) =>
+      updateSession(id, (s) => ({ ...s, patientLabel }), true),
+    [updateSession]
+  );
+
+  const closeSession = useCallback(
+    (id: string) =>
+      updateSession(id, (s) => {
+        // A row still being timed ends when the session is closed.
+        const stopped = stopLiveEntry(s, new Date());
+        return {
+          ...stopped,
+          closedAt: new Date().toISOString(),
+          totalCost: getSessionTotal(stopped, settings.rounding),
+          currency: settings.currency,
+          rounding: settings.rounding,
+        };
+      }),
+    [updateSession, settings.currency, settings.rounding]
+  );
+
+  const deleteSession = useCallback(
+    (id: string) => {
+      const remaining = sessions.filter((s) => s.id !== id);
+      // Always keep at least one session around to work on.
+      const next = remaining.length > 0 ? remaining : [createDefaultSession(t)];
+      setSessions(next);
+      if (id === activeSession.id) setActiveSessionId(next[0].id);
+    },
+    [sessions, activeSession.id, t]
+  );
+
+  const updatePatient = useCallback(
+    (patch: Partial<PatientInfo>) =>
+      updateSession(activeSession.id, (s) => ({ ...s, patient: { ...s.patient, ...patch } })),
+    [updateSession, activeSession.id]
+  );
+
+  // Selecting a regime (even the current one) snapshots its rate in force today.
+  const setInsuranceType = useCallback(
+    (insuranceType: InsuranceType) => {
+      const tariff = resolveTariff(insuranceType);
+      if (!tariff) return;
+      editSession((s) => ({ ...s, insuranceType, tariff }));
+    },
+    [editSession, resolveTariff]
+  );
+
+  // The trailing blank row is the one to add; this only puts it back where
+  // the table does not end in one, as in sessions saved before it did.
+  const addEntry = useCallback(
+    () =>
+      editSession((s) => {
+        const entries = withTrailingBlank(s.entries);
+        return entries === s.entries ? s : { ...s, entries };
+      }),
+    [editSession]
+  );
+
+  const addPressureEntry = useCallback(
+    () =>
+      editSession((s) => ({
+        ...s,
+        entries: insertBeforeTrailingBlank(s.entries, createPressureEntry()),
+      })),
+    [editSession]
+  );
+
+  const removeEntry = useCallback(
+    (id: string) =>
+      editSession(
+        (s) => ({ ...s, entries: s.entries.filter((entry) => entry.id !== id) }),
+        {
+          notice: (before) =>
+            t('sessions.notice.removed', { row: before.entries.findIndex((e) => e.id === id) + 1 }),
+        }
+      ),
+    [editSession, t]
+  );
+
+  // Drops the blank rows between filled ones, so rows are numbered without
+  // gaps on screen and in every export.
+  const compactEntries = useCallback(
+    () =>
+      editSession(
+        (s) =>
+          countBlankRows(s.entries) > 0
+            ? { ...s, entries: s.entries.filter((entry) => !isEntryEmpty(entry)) }
+            : s,
+        {
+          notice: (before) =>
+            t('sessions.notice.compacted', { count: countBlankRows(before.entries) }),
+        }
+      ),
+    [editSession, t]
+  );
+
+  const updateEntry = useCallback(
+    (id: string, field: EntryField, value: string) =>
+      editSession(
+        (s) => {
+          const idx = s.entries.findIndex((e) => e.id === id);
+          if (idx === -1) return s;
+          const next = s.entries[idx + 1];
+          const updated = s.entries.map((entry, i) => (i === idx ? { ...entry, [field]: value } : entry));
+          if (field === 'endTime' && next && !next.startTime) {
+            updated[idx + 1] = { ...next, startTime: value };
+          }
+          return { ...s, entries: updated };
+        },
+        { key: `${id}:${field}`, notice: chainNotice(id, t) }
+      ),
+    [editSession, t]
+  );
+
+  // Sets a picked time together with its calendar day. Closing a row also
+  // opens the next one at the same instant, like updateEntry does for text.
+  const setEntryTime = useCallback(
+    (id: string, field: TimeField, time: string, date: string) =>
+      editSession(
+        (s) => {
+          const idx = s.entries.findIndex((e) => e.id === id);
+          if (idx === -1) return s;
+          const entries = stampEntryTime(s.entries, idx, field, time, date);
+          // Picking an end for the live row by hand stops the timer.
+          const stopsLive = field === 'endTime' && id === s.liveEntryId;
+          return { ...s, entries, liveEntryId: stopsLive ? undefined : s.liveEntryId };
+        },
+        { notice: chainNotice(id, t) }
+      ),
+    [editSession, t]
+  );
+
+  const startLive = useCallback(
+    (entryId: string) => editSession((s) => startLiveEntry(s, entryId, new Date())),
+    [editSession]
+  );
+
+  const stopLive = useCallback(
+    () => editSession((s) => stopLiveEntry(s, new Date())),
+    [editSession]
+  );
+
+  const changeLiveFlow = useCallback(
+    (flowRate: string) => editSession((s) => switchLiveFlow(s, flowRate, new Date())),
+    [editSession]
+  );
+
+  const addCylinder = useCallback(
+    (label: string, capacityLiters: number, fillPercent: number) =>
+      editSession((s) => ({
+        ...s,
+        cylinders: [...(s.cylinders ?? []), createCylinder(label, capacityLiters, fillPercent)],
+      })),
+    [editSession]
+  );
+
+  // Rows that drew from a removed cylinder become unassigned.
+  const removeCylinder = useCallback(
+    (id: string) =>
+      editSession((s) => ({
+        ...s,
+        cylinders: (s.cylinders ?? []).filter((c) => c.id !== id),
+        entries: s.entries.map((entry) =>
+          entry.cylinderId === id ? { ...entry, cylinderId: undefined } : entry
+        ),
+      })),
+    [editSession]
+  );
+
+  const assignCylinder = useCallback(
+    (entryId: string, cylinderId: string | undefined) =>
+      editSession((s) => ({
+        ...s,
+        entries: s.entries.map((entry) => (entry.id === entryId ? { ...entry, cylinderId } : entry)),
+      })),
+    [editSession]
+  );
+
+  const setPrescription = useCallback(
+    (prescriptionId: string | undefined) =>
+      updateSession(activeSession.id, (s) => ({ ...s, prescriptionId })),
+    [updateSession, activeSession.id]
+  );
+
+  const setEntryDevice = useCallback(
+    (entryId: string, device: DeliveryDevice | undefined) =>
+      editSession((s) => ({
+        ...s,
+        entries: s.entries.map((entry) => (entry.id === entryId ? applyDevice(entry, device) : entry)),
+      })),
+    [editSession]
+  );
+
+  const setVenturiFio2 = useCallback(
+    (entryId: string, fio2: number) =>
+      editSession((s) => ({
+        ...s,
+        entries: s.entries.map((entry) =>
+          entry.id === entryId ? applyVenturiSetting(entry, fio2) : entry
+        ),
+      })),
+    [editSession]
+  );
+
+  // Loads imported rows into the active session. Replacing adopts the
+  // report's patient details and regime, and stops any live row it discards.
+  const importEntries = useCallback(
+    (
+      imported: OxygenEntry[],
+      mode: 'replace' | 'append',
+      details: {
+        patientLabel?: string;
+        patient?: Partial<PatientInfo>;
+        insuranceType?: InsuranceType;
+      } = {}
+    ) => {
+      const tariff = details.insuranceType ? resolveTariff(details.insuranceType) : null;
+      editSession(
+        (s) => {
+          const entries = mergeImportedEntries(s.entries, imported, mode);
+          if (mode === 'append') return { ...s, entries };
+          return {
+            ...s,
+            entries,
+            liveEntryId: undefined,
+            patientLabel: details.patientLabel ?? s.patientLabel,
+            patient: { ...s.patient, ...details.patient },
+            ...(tariff && { insuranceType: details.insuranceType!, tariff }),
+          };
+        },
+        { notice: () => (mode === 'replace' ? t('sessions.notice.replaced') : null) }
+      );
+    },
+    [editSession, resolveTariff, t]
+  );
+
+  return {
+    hydrated,
+    sessions,
+    activeSession,
+    newSession,
+    openSession,
+    duplicateSession,
+    renameSession,
+    closeSession,
+    deleteSession,
+    updatePatient,
+    setInsuranceType,
+    addEntry,
+    addPressureEntry,
+    removeEntry,
+    compactEntries,
+    updateEntry,
+    setEntryTime,
+    startLive,
+    stopLive,
+    changeLiveFlow,
+    importEntries,
+    addCylinder,
+    removeCylinder,
+    assignCylinder,
+    setEntryDevice,
+    setVenturiFio2,
+    setPrescription,
+    undo,
+    redo,
+    canUndo: activeHistory.past.length > 0,
+    canRedo: activeHistory.future.length > 0,
+    notice,
+    dismissNotice,
+  };
+});
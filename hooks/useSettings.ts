@@ -0,0 +1,54 @@
+import createContextHook from '@nkzw/create-context-hook';
+import { useCallback, useEffect, useState } from 'react';
+import type { Settings } from '@/types/settings';
+import { DEFAULT_ROUNDING } from '@/utils/billing';
+import { DEFAULT_CURRENCY } from '@/utils/format';
+import { detectLanguage, getTranslator } from '@/utils/i18n';
+import { defaultShifts } from '@/utils/shifts';
+import { settingsStore } from '@/utils/storage';
+
+const DEFAULT_SETTINGS: Settings = {
+  currency: DEFAULT_CURRENCY,
+  rounding: DEFAULT_ROUNDING,
+  institution: '',
+  // Named in the device language, as the app starts before any is chosen.
+  shifts: defaultShifts(getTranslator(detectLanguage()).t),
+  timeFormat: '12h',
+  minuteStep: 1,
+  theme: 'system',
+  language: 'system',
+  reportLanguage: 'app',
+};
+
+export const [SettingsProvider, useSettings] = createContextHook(() => {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    settingsStore.load().then((state) => {
+      if (cancelled) return;
+      // Merge so settings added in later versions get their defaults.
+      if (state) setSettings({ ...DEFAULT_SETTINGS, ...state });
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    settingsStore.save(settings);
+  }, [hydrated, settings]);
+
+  const updateSettings = useCallback((patch: Partial<Settings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  return {
+    hydrated,
+    settings,
+    updateSettings,
+  };
+});
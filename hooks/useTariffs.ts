@@ -0,0 +1,88 @@
+import createContextHook from '@nkzw/create-context-hook';
+import { useCallback, useEffect, useState } from 'react';
+import type { AppliedTariff, TariffRegime } from '@/types/tariff';
+import { createId } from '@/utils/entries';
+import { tariffStore } from '@/utils/storage';
+import { DEFAULT_TARIFFS, getEffectiveRate, toAppliedTariff } from '@/utils/tariffs';
+
+export const [TariffsProvider, useTariffs] = createContextHook(() => {
+  const [regimes, setRegimes] = useState<TariffRegime[]>(DEFAULT_TARIFFS);
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    tariffStore.load().then((state) => {
+      if (cancelled) return;
+      if (state) setRegimes(state.regimes);
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    tariffStore.save({ regimes });
+  }, [hydrated, regimes]);
+
+  // Snapshot of the rate currently in force for a regime, or null when the
+  // regime is unknown or none of its versions has started yet.
+  const resolveTariff = useCallback(
+    (regimeId: string): AppliedTariff | null => {
+      const regime = regimes.find((r) => r.id === regimeId);
+      const rate = regime && getEffectiveRate(regime);
+      return regime && rate ? toAppliedTariff(regime, rate) : null;
+    },
+    [regimes]
+  );
+
+  const addRegime = useCallback((label: string, factor: number, effectiveFrom: string) => {
+    const regime: TariffRegime = {
+      id: createId('regime'),
+      label,
+      rates: [{ id: createId('rate'), factor, effectiveFrom }],
+    };
+    setRegimes((prev) => [...prev, regime]);
+  }, []);
+
+  const renameRegime = useCallback((id: string, label: string) => {
+    setRegimes((prev) => prev.map((r) => (r.id === id ? { ...r, label } : r)));
+  }, []);
+
+  // Keep at least one regime so there is always something to bill with.
+  const deleteRegime = useCallback((id: string) => {
+    setRegimes((prev) => (prev.length > 1 ? prev.filter((r) => r.id !== id) : prev));
+  }, []);
+
+  const addRate = useCallback((regimeId: string, factor: number, effectiveFrom: string) => {
+    setRegimes((prev) =>
+      prev.map((r) =>
+        r.id === regimeId
+          ? { ...r, rates: [...r.rates, { id: createId('rate'), factor, effectiveFrom }] }
+          : r
+      )
+    );
+  }, []);
+
+  const removeRate = useCallback((regimeId: string, rateId: string) => {
+    setRegimes((prev) =>
+      prev.map((r) =>
+        r.id === regimeId && r.rates.length > 1
+          ? { ...r, rates: r.rates.filter((rate) => rate.id !== rateId) }
+          : r
+      )
+    );
+  }, []);
+
+  return {
+    hydrated,
+    regimes,
+    resolveTariff,
+    addRegime,
+    renameRegime,
+    deleteRegime,
+    addRate,
+    removeRate,
+  };
+});
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { PALETTES, type Palette } from '@/constants/colors';
+import { useSettings } from '@/hooks/useSettings';
+import type { ThemeName } from '@/types/settings';
+
+// The palette in use: the one chosen in settings, or the system's light or dark.
+export const useTheme = () => {
+  const { settings } = useSettings();
+  const scheme = useColorScheme();
+  const name: ThemeName =
+    settings.theme === 'system' ? (scheme === 'dark' ? 'dark' : 'light') : settings.theme;
+  return { name, colors: PALETTES[name] };
+};
+
+// Styles built from the current palette. `create` must be defined at module
+// level so the sheet is only rebuilt when the palette changes.
+export const useThemedStyles = <T>(create: (colors: Palette) => T): T => {
+  const { colors } = useTheme();
+  return useMemo(() => create(colors), [create, colors]);
+};
@@ -0,0 +1,425 @@
+import type { Messages } from '@/locales/es';
+
+const en: Messages = {
+  common: {
+    cancel: 'Cancel',
+    save: 'Save',
+    delete: 'Delete',
+    continue: 'Continue',
+    add: 'Add',
+    reset: 'Reset',
+    none: 'None',
+    undo: 'Undo',
+  },
+  rounding: {
+    description: 'Rounded to the {increment} {scope}',
+    increment: {
+      cent: 'nearest cent',
+      unit: 'nearest unit',
+      hundred: 'nearest hundred',
+    },
+    scope: {
+      row: 'per row',
+      total: 'on the total',
+    },
+  },
+  devices: {
+    label: {
+      cannula: 'Nasal cannula',
+      simple_mask: 'Simple mask',
+      venturi: 'Venturi mask',
+      non_rebreather: 'Non-rebreather mask',
+      high_flow: 'High-flow nasal cannula',
+    },
+    short: {
+      cannula: 'NC',
+      simple_mask: 'SM',
+      venturi: 'VM',
+      non_rebreather: 'NRB',
+      high_flow: 'HFNC',
+    },
+  },
+  validation: {
+    unusualFlow: 'A flow of {flow} L/min is unusual for a nasal cannula.',
+    flowOutOfRange: 'A flow of {flow} L/min is outside the {device} range ({min}-{max} L/min).',
+    venturiFlow: 'The {fio2} % Venturi valve needs {flow} L/min.',
+    invalidStartPressure: 'Invalid start pressure.',
+    invalidEndPressure: 'Invalid end pressure.',
+    invalidFlow: 'The flow is not a valid number.',
+    incompletePressure: 'Incomplete row: the start or end pressure is missing.',
+    pressureRises: 'The end pressure is higher than the start.',
+    pressureWithoutFlow: 'No flow: the minutes cannot be estimated.',
+    invalidStart: 'Invalid start time.',
+    invalidEnd: 'Invalid end time.',
+    incompleteTimes: 'Incomplete row: the start or end time is missing.',
+    endNotAfterStart: 'The end date and time is not after the start.',
+    sameTimes: 'Start and end are the same time: the row adds no minutes.',
+    noFlow: 'No flow: the row adds no cost.',
+    longDuration: 'Lasts {duration}: check AM/PM.',
+    overlap: 'Overlaps row {row} by {duration}.',
+    gap: 'Gap of {duration} after the end of row {row}.',
+  },
+  columns: {
+    number: 'No.',
+    start: 'Start',
+    end: 'End',
+    flow: 'L/min',
+    device: 'Device',
+    deviceShort: 'Dev.',
+    fio2: 'FiO2 (%)',
+    minutes: 'Minutes',
+    minutesShort: 'Min',
+    liters: 'Liters',
+    cost: 'Cost',
+    cylinder: 'Cylinder',
+  },
+  document: {
+    title: 'Oxygen supply report',
+    pageTitle: 'Oxygen report - {patient}',
+    institution: 'Institution',
+    patient: 'Patient',
+    unnamed: 'Unnamed',
+    insurance: 'Insurance type',
+    sessionStarted: 'Session started',
+    sessionClosed: 'Session closed',
+    generated: 'Generated',
+    noDate: 'No date',
+    subtotal: 'Subtotal',
+    noEntries: 'No entries',
+    byTime: 'By time',
+    byPressure: 'By pressure',
+    factor: 'Applied factor',
+    factorValue: '{factor} (effective from {date})',
+    effectiveFrom: 'Effective from',
+    currency: 'Currency',
+    rounding: 'Rounding',
+    total: 'Total due',
+    preparedBy: 'Prepared by (name and signature)',
+    reviewedBy: 'Reviewed by / Billing (name and signature)',
+    sheet: 'Oxygen',
+    fileName: 'oxygen',
+  },
+  share: {
+    title: 'Oxygen supply record',
+    totalLiters: 'Total liters: {liters} L',
+    litersByKind: 'By time: {time} L · by pressure: {pressure} L',
+    shiftSubtotals: 'Subtotals by shift (before rounding):',
+    factorLine: 'Applied factor: {factor} ({tariff}, effective from {date})',
+  },
+  pressure: {
+    note: 'Pressure rows: liters = pressure drop × cylinder constant (L/psi); minutes estimated at the recorded flow.',
+  },
+  index: {
+    title: 'Oxygen Calculator',
+    subtitle: 'Supply cost calculation',
+    newSession: 'New session',
+    newSessionMessage: 'The current record will be saved to the history and an empty table will open.',
+    sessions: 'Sessions',
+    settings: 'Settings',
+    closed: 'Session closed on {date}. Read only.',
+    patient: 'Patient',
+    insurance: 'Insurance Type',
+    editTariffs: 'Edit tariffs',
+    noTariff: 'No current tariff',
+    factor: 'Factor: {factor}',
+    tariffNotice:
+      'This session uses the tariff effective from {date} (factor {factor}). Tap the regime to apply the current tariff (factor {current}).',
+    entries: 'Supply Records',
+    import: 'Import',
+    compact: 'Compact',
+    cylinders: 'Cylinders',
+    prescription: 'Prescription',
+    pressure: 'Pressure',
+    cylinderLeft: '{cylinder}: {liters} L left',
+    cylinderEmpties: ' · empty in {time} at {flow} L/min',
+    live: 'Row {row} running · {minutes} min · {cost}',
+    changeFlow: 'Change flow',
+    changeFlowMessage: 'The current row will be closed now and a new one opened with the given flow.',
+    apply: 'Apply',
+    stop: 'Stop',
+    startPressure: 'Start {unit}',
+    endPressure: 'End {unit}',
+    totalDue: 'Total Due',
+    totalLiters: 'Liters supplied: {liters} L',
+    byShift: 'By shift (before rounding)',
+    factorApplied: 'Applied factor: {factor} ({tariff})',
+    shareWhatsApp: 'Share via WhatsApp',
+    exportCsv: 'Export CSV',
+    exportExcel: 'Export Excel',
+    report: 'Report',
+    unresolved: 'There are unresolved errors',
+    unresolvedMessage: {
+      one: '{count} row has errors. Send the report anyway?',
+      other: '{count} rows have errors. Send the report anyway?',
+    },
+    send: 'Send',
+    shareFailed: 'Could not share',
+    shareFailedMessage: 'Make sure WhatsApp is installed, or copy the text manually.',
+    exportFailed: 'Could not export',
+    pdfFailed: 'Could not create the PDF',
+    noFileSharing: 'This device does not allow sharing files.',
+  },
+  navigation: {
+    back: 'Back',
+    sessions: 'Sessions',
+    tariffs: 'Tariffs',
+    settings: 'Settings',
+    import: 'Import records',
+    report: 'Report',
+    cylinders: 'Cylinders',
+    prescriptions: 'Prescription',
+    notFound: 'Page not found!',
+    notFoundMessage: 'This screen does not exist.',
+    home: 'Go to the calculator',
+  },
+  sessions: {
+    notice: {
+      removed: 'Row {row} deleted.',
+      chained: 'Start of row {row} set to {time}.',
+      replaced: 'Records replaced.',
+      compacted: {
+        one: '{count} blank row removed.',
+        other: '{count} blank rows removed.',
+      },
+    },
+    new: 'New session',
+    search: 'Search by name, document, EPS, bed, service or physician',
+    empty: 'No session matches the search.',
+    open: 'Open',
+    closed: 'Closed',
+    rows: {
+      one: '{count} record',
+      other: '{count} records',
+    },
+    bed: 'Bed {bed}',
+    close: 'Close session',
+    closeMessage: '"{patient}" will become read only and its total will be frozen.',
+    closeConfirm: 'Close',
+    delete: 'Delete session',
+    deleteMessage: '"{patient}" and all its records will be deleted.',
+    rename: 'Rename session',
+    defaultLabel: 'Patient {number}',
+    copyLabel: '{label} (copy)',
+  },
+  time: {
+    placeholder: 'HH:MM',
+    invalid: 'HH:MM?',
+    pickerTitle: 'Select Date and Time',
+    hour: 'Hour',
+    minute: 'Minute',
+    selected: 'Selected time:',
+    keyboardHint: 'Arrows or digits to change · Enter to confirm · Esc to cancel',
+    confirm: 'Confirm',
+  },
+  patient: {
+    name: 'Name',
+    namePlaceholder: 'Patient name',
+    documentPlaceholder: 'Document number',
+    servicePlaceholder: 'E.g. Emergency',
+    documentType: {
+      CC: 'CC',
+      TI: 'TI',
+      RC: 'RC',
+      CE: 'CE',
+      PA: 'Passport',
+    },
+    documentHint: {
+      CC: '5 to 10 digits',
+      TI: '10 or 11 digits',
+      RC: '10 or 11 digits',
+      CE: '3 to 10 digits',
+      PA: '5 to 15 letters or digits',
+    },
+    documentError: 'The {type} number must have {hint}.',
+    field: {
+      documentNumber: 'Document',
+      eps: 'EPS',
+      bed: 'Bed/Room',
+      service: 'Service',
+      physician: 'Attending physician',
+      prescribedFlow: 'Prescribed flow',
+    },
+  },
+  cylinders: {
+    timeToEmpty: {
+      days: 'approx. {days} d {hours} h',
+      hours: 'approx. {hours} h {minutes} min',
+      minutes: 'approx. {minutes} min',
+    },
+    hint: "Register the patient's cylinders and assign them to table rows to see the remaining volume and when a refill is needed.",
+    meta: '{capacity} L · filled to {fill} % · {consumed} L used',
+    remaining: '{liters} L left',
+    noFlow: 'No flow recorded to estimate the duration.',
+    empty: 'Cylinder empty.',
+    empties: 'Empty in {time} at {flow} L/min.',
+    add: 'Register cylinder',
+    name: 'Name',
+    defaultLabel: 'Cylinder {number}',
+    capacity: 'Capacity (L)',
+    fill: 'Fill level (%)',
+    submit: 'Add cylinder',
+    invalidCapacity: 'The capacity must be a number of liters greater than 0.',
+    invalidFill: 'The fill level must be between 0 and 100 %.',
+    remove: 'Remove cylinder',
+    removeMessage: '"{cylinder}" will be removed from the inventory and its rows left without a cylinder.',
+    removeConfirm: 'Remove',
+  },
+  import: {
+    label: 'Paste a shared report or a list of times',
+    preview: {
+      one: 'Preview: {count} record',
+      other: 'Preview: {count} records',
+    },
+    regime: 'Regime: {regime} (the report used factor {factor})',
+    noRegime: 'Factor {factor} has no matching regime: the current one is kept.',
+    noFlow: 'no flow',
+    skipped: 'Unrecognized lines',
+    skippedLine: 'Line {line}: {text}',
+    hint: "Replace also applies the report's patient details and regime; append keeps those of the current session.",
+    append: 'Append',
+    replace: 'Replace',
+    replaceTitle: 'Replace records',
+    replaceMessage: 'The records of "{patient}" will be deleted and the imported ones loaded.',
+  },
+  prescriptions: {
+    error: {
+      name: 'Enter the prescription name.',
+      empty: 'Add at least one band.',
+      time: 'Band {band}: use times such as 22:00 or 06:00.',
+      flow: 'Band {band}: the flow must be greater than 0.',
+      overlap: 'Bands {first} and {second} overlap.',
+    },
+    continuous: '{flow} L/min continuous',
+    hint: 'Save the usual prescriptions, such as 2 L/min continuous or 3 L/min from 22:00 to 06:00, and generate the table rows for a range of days.',
+    activeFor: 'Prescription for {patient}',
+    use: 'Use for this patient',
+    generate: 'Generate rows',
+    from: 'From',
+    to: 'To',
+    invalidRange: 'Use YYYY-MM-DD dates and an end equal to or after the start.',
+    tooManyDays: 'Generate at most {max} days at a time.',
+    summary: {
+      one: '{count} day · {rows} rows of "{name}". Each row can then be adjusted in the table.',
+      other: '{count} days · {rows} rows of "{name}". Each row can then be adjusted in the table.',
+    },
+    replaceMessage: 'The records of "{patient}" will be deleted and the prescription\'s generated.',
+    delete: 'Delete prescription',
+    deleteMessage: '"{name}" will no longer be available. Rows already generated do not change.',
+    new: 'New prescription',
+    name: 'Name',
+    namePlaceholder: 'E.g. Night 3 L/min',
+    bands: 'Bands (HH:MM, 24 h; start = end is continuous)',
+    addBand: 'Add band',
+    device: 'Device',
+  },
+  tariffs: {
+    newRegime: 'New regime',
+    newVersion: 'New version: {regime}',
+    addVersion: 'Add version',
+    rate: 'Factor {factor} · from {date}',
+    current: 'Current',
+    name: 'Name',
+    namePlaceholder: 'E.g. SOAT',
+    factor: 'Factor',
+    effectiveFrom: 'Effective from (YYYY-MM-DD)',
+    error: {
+      name: 'Enter the regime name.',
+      factor: 'The factor must be a number greater than 0.',
+      date: 'The date must use the YYYY-MM-DD format.',
+    },
+    delete: 'Delete regime',
+    deleteMessage: '"{regime}" will no longer appear in the selector. Sessions already recorded keep their tariff.',
+  },
+  shifts: {
+    error: {
+      empty: 'Define at least one shift.',
+      unnamed: 'Every shift needs a name.',
+      time: 'Use times such as 07:00 or 19:30.',
+      sameStart: 'Two shifts cannot start at the same time.',
+    },
+    unplaced: 'By pressure (no time)',
+    morning: 'Morning',
+    afternoon: 'Afternoon',
+    night: 'Night',
+  },
+  settings: {
+    institution: 'Institution',
+    institutionPlaceholder: 'Institution name',
+    institutionHint: 'Shown in the header of the printable report.',
+    currency: 'Currency',
+    currencyExample: 'Example: {amount}',
+    currencyError: 'Use a three-letter ISO 4217 code, e.g. COP or USD.',
+    rounding: 'Rounding',
+    roundingScope: 'Apply',
+    roundingIncrement: 'Multiple',
+    scope: {
+      total: 'On the total',
+      row: 'Per row',
+    },
+    increment: {
+      cent: 'Cent',
+      unit: 'Unit',
+      hundred: '100 units',
+    },
+    roundingHint: '{rounding}. Closed sessions keep the policy they were totalled with.',
+    language: 'Language',
+    reportLanguage: 'Report language',
+    system: 'System',
+    sameAsApp: "The app's",
+    languageHint:
+      "System uses the device language when available. The report, exports and shared text are written in the report language.",
+    theme: 'Theme',
+    themes: {
+      light: 'Light',
+      dark: 'Dark',
+      contrast: 'High contrast',
+    },
+    themeHint: "System follows the device's light or dark mode.",
+    time: 'Time',
+    timeFormat: 'Format',
+    minuteStep: 'Picker minute interval',
+    timeHint: 'Example: {time}. Times typed by hand are accepted in either format.',
+    shifts: 'Shifts',
+    shiftName: 'Name',
+    shiftLabel: 'Shift {number}',
+    addShift: 'Add shift',
+    shiftsHint:
+      'Each shift lasts until the next one starts: {shifts}. Rows that cross a shift change are split proportionally.',
+  },
+  report: {
+    print: 'Print or save PDF',
+    hint: 'The report includes a header, the full table, daily subtotals, factor, total and signature lines.',
+    share: 'Share PDF',
+  },
+  a11y: {
+    cell: {
+      start: 'Row {row}, start time, {value}',
+      end: 'Row {row}, end time, {value}',
+      startPressure: 'Row {row}, start pressure in {unit}, {value}',
+      endPressure: 'Row {row}, end pressure in {unit}, {value}',
+      flow: 'Row {row}, flow in liters per minute, {value}',
+      device: 'Row {row}, device, {value}',
+      cylinder: 'Row {row}, cylinder, {value}',
+      minutes: 'Row {row}, minutes, {value}',
+      liters: 'Row {row}, liters, {value}',
+      cost: 'Row {row}, amount, {value}',
+    },
+    empty: 'empty',
+    timeHint: 'Type the time, for example 730p or 19:30',
+    openPicker: 'Open time picker',
+    cycleHint: 'Switches to the next option',
+    live: 'Row {row} running',
+    startLive: 'Start timing row {row} now',
+    deleteRow: 'Delete row {row}',
+    redo: 'Redo',
+    total: 'Total due: {total}',
+    previousDay: 'Previous day',
+    nextDay: 'Next day',
+    duplicateSession: 'Duplicate session',
+    removeBand: 'Remove band {band}',
+    removeRate: 'Remove rate',
+    removeShift: 'Remove shift {shift}',
+  },
+};
+
+export default en;
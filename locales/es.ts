@@ -0,0 +1,427 @@
+// Spanish, the source catalog: every key starts here and the other languages
+// must translate all of them.
+const es = {
+  common: {
+    cancel: 'Cancelar',
+    save: 'Guardar',
+    delete: 'Eliminar',
+    continue: 'Continuar',
+    add: 'Agregar',
+    reset: 'Restablecer',
+    none: 'Ninguno',
+    undo: 'Deshacer',
+  },
+  rounding: {
+    description: 'Redondeo {increment} {scope}',
+    increment: {
+      cent: 'al centavo',
+      unit: 'al peso',
+      hundred: 'a la centena',
+    },
+    scope: {
+      row: 'por fila',
+      total: 'sobre el total',
+    },
+  },
+  devices: {
+    label: {
+      cannula: 'Cánula nasal',
+      simple_mask: 'Máscara simple',
+      venturi: 'Máscara Venturi',
+      non_rebreather: 'Máscara de no reinhalación',
+      high_flow: 'Cánula nasal de alto flujo',
+    },
+    short: {
+      cannula: 'CN',
+      simple_mask: 'MS',
+      venturi: 'MV',
+      non_rebreather: 'MNR',
+      high_flow: 'CNAF',
+    },
+  },
+  validation: {
+    unusualFlow: 'Flujo de {flow} L/min inusual para cánula nasal.',
+    flowOutOfRange: 'Flujo de {flow} L/min fuera del rango de {device} ({min}-{max} L/min).',
+    venturiFlow: 'La válvula Venturi de {fio2} % requiere {flow} L/min.',
+    invalidStartPressure: 'Presión inicial no válida.',
+    invalidEndPressure: 'Presión final no válida.',
+    invalidFlow: 'El flujo no es un número válido.',
+    incompletePressure: 'Fila incompleta: falta la presión inicial o final.',
+    pressureRises: 'La presión final es mayor que la inicial.',
+    pressureWithoutFlow: 'Sin flujo: no se pueden estimar los minutos.',
+    invalidStart: 'Hora de inicio no válida.',
+    invalidEnd: 'Hora de fin no válida.',
+    incompleteTimes: 'Fila incompleta: falta la hora de inicio o de fin.',
+    endNotAfterStart: 'La fecha y hora de fin no es posterior al inicio.',
+    sameTimes: 'El inicio y el fin son la misma hora: la fila no suma minutos.',
+    noFlow: 'Sin flujo: la fila no genera costo.',
+    longDuration: 'Duración de {duration}: revise AM/PM.',
+    overlap: 'Se superpone {duration} con la fila {row}.',
+    gap: 'Hueco de {duration} desde el fin de la fila {row}.',
+  },
+  columns: {
+    number: 'No.',
+    start: 'Inicio',
+    end: 'Fin',
+    flow: 'L/min',
+    device: 'Dispositivo',
+    deviceShort: 'Disp.',
+    fio2: 'FiO2 (%)',
+    minutes: 'Minutos',
+    minutesShort: 'Min',
+    liters: 'Litros',
+    cost: 'Costo',
+    cylinder: 'Cilindro',
+  },
+  document: {
+    title: 'Reporte de suministro de oxígeno',
+    pageTitle: 'Reporte de oxígeno - {patient}',
+    institution: 'Institución',
+    patient: 'Paciente',
+    unnamed: 'Sin nombre',
+    insurance: 'Tipo de seguro',
+    sessionStarted: 'Sesión iniciada',
+    sessionClosed: 'Sesión cerrada',
+    generated: 'Generado',
+    noDate: 'Sin fecha',
+    subtotal: 'Subtotal',
+    noEntries: 'Sin registros',
+    byTime: 'Por tiempo',
+    byPressure: 'Por presión',
+    factor: 'Factor aplicado',
+    factorValue: '{factor} (vigente desde {date})',
+    effectiveFrom: 'Vigente desde',
+    currency: 'Moneda',
+    rounding: 'Redondeo',
+    total: 'Total a pagar',
+    preparedBy: 'Elaboró (nombre y firma)',
+    reviewedBy: 'Revisó / Facturación (nombre y firma)',
+    sheet: 'Oxígeno',
+    fileName: 'oxigeno',
+  },
+  share: {
+    title: 'Registro de suministros de oxígeno',
+    totalLiters: 'Total litros: {liters} L',
+    litersByKind: 'Por tiempo: {time} L · por presión: {pressure} L',
+    shiftSubtotals: 'Subtotales por turno (antes de redondear):',
+    factorLine: 'Factor aplicado: {factor} ({tariff}, vigente desde {date})',
+  },
+  pressure: {
+    note: 'Filas por presión: litros = caída de presión × constante del cilindro (L/psi); minutos estimados al flujo registrado.',
+  },
+  index: {
+    title: 'Calculadora de Oxígeno',
+    subtitle: 'Cálculo de costo por suministro',
+    newSession: 'Nueva sesión',
+    newSessionMessage: 'El registro actual se guardará en el historial y se abrirá una tabla vacía.',
+    sessions: 'Sesiones',
+    settings: 'Ajustes',
+    closed: 'Sesión cerrada el {date}. Solo lectura.',
+    patient: 'Paciente',
+    insurance: 'Tipo de Seguro',
+    editTariffs: 'Editar tarifas',
+    noTariff: 'Sin tarifa vigente',
+    factor: 'Factor: {factor}',
+    tariffNotice:
+      'Esta sesión usa la tarifa vigente desde {date} (factor {factor}). Toque el régimen para aplicar la tarifa actual (factor {current}).',
+    entries: 'Registros de Suministro',
+    import: 'Importar',
+    compact: 'Compactar',
+    cylinders: 'Cilindros',
+    prescription: 'Prescripción',
+    pressure: 'Presión',
+    cylinderLeft: '{cylinder}: quedan {liters} L',
+    cylinderEmpties: ' · se vacía en {time} a {flow} L/min',
+    live: 'Fila {row} en curso · {minutes} min · {cost}',
+    changeFlow: 'Cambiar flujo',
+    changeFlowMessage: 'La fila actual se cerrará ahora y se abrirá una nueva con el flujo indicado.',
+    apply: 'Aplicar',
+    stop: 'Detener',
+    startPressure: 'Inicial {unit}',
+    endPressure: 'Final {unit}',
+    totalDue: 'Total a Pagar',
+    totalLiters: 'Litros suministrados: {liters} L',
+    byShift: 'Por turno (antes de redondear)',
+    factorApplied: 'Factor aplicado: {factor} ({tariff})',
+    shareWhatsApp: 'Compartir por WhatsApp',
+    exportCsv: 'Exportar CSV',
+    exportExcel: 'Exportar Excel',
+    report: 'Reporte',
+    unresolved: 'Hay errores sin resolver',
+    unresolvedMessage: {
+      one: '{count} fila tiene errores. ¿Enviar el reporte de todos modos?',
+      other: '{count} filas tienen errores. ¿Enviar el reporte de todos modos?',
+    },
+    send: 'Enviar',
+    shareFailed: 'No se pudo compartir',
+    shareFailedMessage: 'Asegúrate de tener WhatsApp instalado o copia el texto manualmente.',
+    exportFailed: 'No se pudo exportar',
+    pdfFailed: 'No se pudo generar el PDF',
+    noFileSharing: 'Este dispositivo no permite compartir archivos.',
+  },
+  navigation: {
+    back: 'Atrás',
+    sessions: 'Sesiones',
+    tariffs: 'Tarifas',
+    settings: 'Ajustes',
+    import: 'Importar registros',
+    report: 'Reporte',
+    cylinders: 'Cilindros',
+    prescriptions: 'Prescripción',
+    notFound: '¡Página no encontrada!',
+    notFoundMessage: 'Esta pantalla no existe.',
+    home: 'Ir a la calculadora',
+  },
+  sessions: {
+    notice: {
+      removed: 'Fila {row} eliminada.',
+      chained: 'Inicio de la fila {row} ajustado a {time}.',
+      replaced: 'Registros reemplazados.',
+      compacted: {
+        one: '{count} fila vacía eliminada.',
+        other: '{count} filas vacías eliminadas.',
+      },
+    },
+    new: 'Nueva sesión',
+    search: 'Buscar por nombre, documento, EPS, cama, servicio o médico',
+    empty: 'Ninguna sesión coincide con la búsqueda.',
+    open: 'Abierta',
+    closed: 'Cerrada',
+    rows: {
+      one: '{count} registro',
+      other: '{count} registros',
+    },
+    bed: 'Cama {bed}',
+    close: 'Cerrar sesión',
+    closeMessage: '"{patient}" quedará en solo lectura y su total se congelará.',
+    closeConfirm: 'Cerrar',
+    delete: 'Eliminar sesión',
+    deleteMessage: 'Se eliminará "{patient}" y todos sus registros.',
+    rename: 'Renombrar sesión',
+    defaultLabel: 'Paciente {number}',
+    copyLabel: '{label} (copia)',
+  },
+  time: {
+    placeholder: 'HH:MM',
+    invalid: 'HH:MM?',
+    pickerTitle: 'Seleccionar Fecha y Hora',
+    hour: 'Hora',
+    minute: 'Minuto',
+    selected: 'Hora seleccionada:',
+    keyboardHint: 'Flechas o dígitos para cambiar · Enter para confirmar · Esc para cancelar',
+    confirm: 'Confirmar',
+  },
+  patient: {
+    name: 'Nombre',
+    namePlaceholder: 'Nombre del paciente',
+    documentPlaceholder: 'Número de documento',
+    servicePlaceholder: 'Ej. Urgencias',
+    documentType: {
+      CC: 'CC',
+      TI: 'TI',
+      RC: 'RC',
+      CE: 'CE',
+      PA: 'Pasaporte',
+    },
+    documentHint: {
+      CC: 'de 5 a 10 dígitos',
+      TI: 'de 10 u 11 dígitos',
+      RC: 'de 10 u 11 dígitos',
+      CE: 'de 3 a 10 dígitos',
+      PA: 'de 5 a 15 letras o dígitos',
+    },
+    documentError: 'El número de {type} debe tener {hint}.',
+    field: {
+      documentNumber: 'Documento',
+      eps: 'EPS',
+      bed: 'Cama/Habitación',
+      service: 'Servicio',
+      physician: 'Médico tratante',
+      prescribedFlow: 'Flujo prescrito',
+    },
+  },
+  cylinders: {
+    timeToEmpty: {
+      days: 'aprox. {days} d {hours} h',
+      hours: 'aprox. {hours} h {minutes} min',
+      minutes: 'aprox. {minutes} min',
+    },
+    hint: 'Registre los cilindros del paciente y asígnelos a las filas de la tabla para ver el volumen restante y cuándo se necesita una recarga.',
+    meta: '{capacity} L · llenado al {fill} % · consumidos {consumed} L',
+    remaining: 'Quedan {liters} L',
+    noFlow: 'Sin flujo registrado para estimar la duración.',
+    empty: 'Cilindro vacío.',
+    empties: 'Se vacía en {time} a {flow} L/min.',
+    add: 'Registrar cilindro',
+    name: 'Nombre',
+    defaultLabel: 'Cilindro {number}',
+    capacity: 'Capacidad (L)',
+    fill: 'Nivel de llenado (%)',
+    submit: 'Agregar cilindro',
+    invalidCapacity: 'La capacidad debe ser un número de litros mayor que 0.',
+    invalidFill: 'El nivel de llenado debe estar entre 0 y 100 %.',
+    remove: 'Quitar cilindro',
+    removeMessage: '"{cylinder}" se quitará del inventario y sus filas quedarán sin cilindro asignado.',
+    removeConfirm: 'Quitar',
+  },
+  import: {
+    label: 'Pegue un reporte compartido o una lista de horarios',
+    preview: {
+      one: 'Vista previa: {count} registro',
+      other: 'Vista previa: {count} registros',
+    },
+    regime: 'Régimen: {regime} (el reporte usó factor {factor})',
+    noRegime: 'Factor {factor} sin régimen equivalente: se conserva el actual.',
+    noFlow: 'sin flujo',
+    skipped: 'Líneas no reconocidas',
+    skippedLine: 'Línea {line}: {text}',
+    hint: 'Reemplazar también aplica los datos del paciente y el régimen del reporte; agregar conserva los de la sesión actual.',
+    append: 'Agregar al final',
+    replace: 'Reemplazar',
+    replaceTitle: 'Reemplazar registros',
+    replaceMessage: 'Se borrarán los registros de "{patient}" y se cargarán los importados.',
+  },
+  prescriptions: {
+    error: {
+      name: 'Escriba el nombre de la prescripción.',
+      empty: 'Agregue al menos una franja.',
+      time: 'Franja {band}: use horas como 22:00 o 06:00.',
+      flow: 'Franja {band}: el flujo debe ser mayor que 0.',
+      overlap: 'Las franjas {first} y {second} se superponen.',
+    },
+    continuous: '{flow} L/min continuo',
+    hint: 'Guarde las prescripciones habituales, como 2 L/min continuo o 3 L/min de 22:00 a 06:00, y genere las filas de la tabla para un rango de días.',
+    activeFor: 'Prescripción de {patient}',
+    use: 'Usar para este paciente',
+    generate: 'Generar filas',
+    from: 'Desde',
+    to: 'Hasta',
+    invalidRange: 'Use fechas AAAA-MM-DD y un final igual o posterior al inicio.',
+    tooManyDays: 'Genere como máximo {max} días a la vez.',
+    summary: {
+      one: '{count} día · {rows} filas de "{name}". Después puede ajustar cada fila en la tabla.',
+      other: '{count} días · {rows} filas de "{name}". Después puede ajustar cada fila en la tabla.',
+    },
+    replaceMessage: 'Se borrarán los registros de "{patient}" y se generarán los de la prescripción.',
+    delete: 'Eliminar prescripción',
+    deleteMessage: '"{name}" dejará de estar disponible. Las filas ya generadas no cambian.',
+    new: 'Nueva prescripción',
+    name: 'Nombre',
+    namePlaceholder: 'Ej. Nocturno 3 L/min',
+    bands: 'Franjas (HH:MM, 24 h; inicio = fin es continuo)',
+    addBand: 'Agregar franja',
+    device: 'Dispositivo',
+  },
+  tariffs: {
+    newRegime: 'Nuevo régimen',
+    newVersion: 'Nueva versión: {regime}',
+    addVersion: 'Agregar versión',
+    rate: 'Factor {factor} · desde {date}',
+    current: 'Vigente',
+    name: 'Nombre',
+    namePlaceholder: 'Ej. SOAT',
+    factor: 'Factor',
+    effectiveFrom: 'Vigente desde (AAAA-MM-DD)',
+    error: {
+      name: 'Escriba el nombre del régimen.',
+      factor: 'El factor debe ser un número mayor que 0.',
+      date: 'La fecha debe tener el formato AAAA-MM-DD.',
+    },
+    delete: 'Eliminar régimen',
+    deleteMessage: '"{regime}" dejará de aparecer en el selector. Las sesiones ya registradas conservan su tarifa.',
+  },
+  shifts: {
+    error: {
+      empty: 'Defina al menos un turno.',
+      unnamed: 'Cada turno necesita un nombre.',
+      time: 'Use horas como 07:00 o 19:30.',
+      sameStart: 'Dos turnos no pueden empezar a la misma hora.',
+    },
+    unplaced: 'Por presión (sin hora)',
+    morning: 'Mañana',
+    afternoon: 'Tarde',
+    night: 'Noche',
+  },
+  settings: {
+    institution: 'Institución',
+    institutionPlaceholder: 'Nombre de la institución',
+    institutionHint: 'Aparece en el encabezado del reporte imprimible.',
+    currency: 'Moneda',
+    currencyExample: 'Ejemplo: {amount}',
+    currencyError: 'Use un código ISO 4217 de tres letras, p. ej. COP o USD.',
+    rounding: 'Redondeo',
+    roundingScope: 'Aplicar',
+    roundingIncrement: 'Múltiplo',
+    scope: {
+      total: 'Sobre el total',
+      row: 'Por fila',
+    },
+    increment: {
+      cent: 'Centavo',
+      unit: 'Peso',
+      hundred: '100 pesos',
+    },
+    roundingHint: '{rounding}. Las sesiones cerradas conservan la política con la que se totalizaron.',
+    language: 'Idioma',
+    reportLanguage: 'Idioma del reporte',
+    system: 'Sistema',
+    sameAsApp: 'El de la aplicación',
+    languageHint:
+      'Sistema usa el idioma del dispositivo cuando está disponible. El reporte, las exportaciones y el texto compartido se escriben en el idioma del reporte.',
+    theme: 'Tema',
+    themes: {
+      light: 'Claro',
+      dark: 'Oscuro',
+      contrast: 'Alto contraste',
+    },
+    themeHint: 'Sistema sigue el modo claro u oscuro del dispositivo.',
+    time: 'Hora',
+    timeFormat: 'Formato',
+    minuteStep: 'Intervalo de minutos del selector',
+    timeHint: 'Ejemplo: {time}. Las horas escritas a mano se aceptan en cualquier formato.',
+    shifts: 'Turnos',
+    shiftName: 'Nombre',
+    shiftLabel: 'Turno {number}',
+    addShift: 'Agregar turno',
+    shiftsHint:
+      'Cada turno dura hasta que empieza el siguiente: {shifts}. Las filas que cruzan un cambio de turno se reparten en proporción.',
+  },
+  report: {
+    print: 'Imprimir o guardar PDF',
+    hint: 'El reporte incluye encabezado, tabla completa, subtotales por día, factor, total y líneas de firma.',
+    share: 'Compartir PDF',
+  },
+  a11y: {
+    cell: {
+      start: 'Fila {row}, hora de inicio, {value}',
+      end: 'Fila {row}, hora de fin, {value}',
+      startPressure: 'Fila {row}, presión inicial en {unit}, {value}',
+      endPressure: 'Fila {row}, presión final en {unit}, {value}',
+      flow: 'Fila {row}, flujo en litros por minuto, {value}',
+      device: 'Fila {row}, dispositivo, {value}',
+      cylinder: 'Fila {row}, cilindro, {value}',
+      minutes: 'Fila {row}, minutos, {value}',
+      liters: 'Fila {row}, litros, {value}',
+      cost: 'Fila {row}, valor, {value}',
+    },
+    empty: 'sin valor',
+    timeHint: 'Escriba la hora, por ejemplo 730p o 19:30',
+    openPicker: 'Abrir selector de hora',
+    cycleHint: 'Cambia a la siguiente opción',
+    live: 'Fila {row} en curso',
+    startLive: 'Iniciar la fila {row} en curso',
+    deleteRow: 'Eliminar fila {row}',
+    redo: 'Rehacer',
+    total: 'Total a pagar: {total}',
+    previousDay: 'Día anterior',
+    nextDay: 'Día siguiente',
+    duplicateSession: 'Duplicar sesión',
+    removeBand: 'Quitar franja {band}',
+    removeRate: 'Quitar tarifa',
+    removeShift: 'Quitar turno {shift}',
+  },
+};
+
+export type Messages = typeof es;
+
+export default es;
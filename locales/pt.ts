@@ -0,0 +1,425 @@
+import type { Messages } from '@/locales/es';
+
+const pt: Messages = {
+  common: {
+    cancel: 'Cancelar',
+    save: 'Salvar',
+    delete: 'Excluir',
+    continue: 'Continuar',
+    add: 'Adicionar',
+    reset: 'Restaurar',
+    none: 'Nenhum',
+    undo: 'Desfazer',
+  },
+  rounding: {
+    description: 'Arredondamento {increment} {scope}',
+    increment: {
+      cent: 'ao centavo',
+      unit: 'à unidade',
+      hundred: 'à centena',
+    },
+    scope: {
+      row: 'por linha',
+      total: 'sobre o total',
+    },
+  },
+  devices: {
+    label: {
+      cannula: 'Cânula nasal',
+      simple_mask: 'Máscara simples',
+      venturi: 'Máscara de Venturi',
+      non_rebreather: 'Máscara não reinalante',
+      high_flow: 'Cânula nasal de alto fluxo',
+    },
+    short: {
+      cannula: 'CN',
+      simple_mask: 'MS',
+      venturi: 'MV',
+      non_rebreather: 'MNR',
+      high_flow: 'CNAF',
+    },
+  },
+  validation: {
+    unusualFlow: 'Fluxo de {flow} L/min incomum para cânula nasal.',
+    flowOutOfRange: 'Fluxo de {flow} L/min fora da faixa de {device} ({min}-{max} L/min).',
+    venturiFlow: 'A válvula Venturi de {fio2} % requer {flow} L/min.',
+    invalidStartPressure: 'Pressão inicial inválida.',
+    invalidEndPressure: 'Pressão final inválida.',
+    invalidFlow: 'O fluxo não é um número válido.',
+    incompletePressure: 'Linha incompleta: falta a pressão inicial ou final.',
+    pressureRises: 'A pressão final é maior que a inicial.',
+    pressureWithoutFlow: 'Sem fluxo: não é possível estimar os minutos.',
+    invalidStart: 'Hora de início inválida.',
+    invalidEnd: 'Hora de término inválida.',
+    incompleteTimes: 'Linha incompleta: falta a hora de início ou de término.',
+    endNotAfterStart: 'A data e hora de término não é posterior ao início.',
+    sameTimes: 'Início e término são o mesmo horário: a linha não soma minutos.',
+    noFlow: 'Sem fluxo: a linha não gera custo.',
+    longDuration: 'Duração de {duration}: verifique AM/PM.',
+    overlap: 'Sobrepõe {duration} com a linha {row}.',
+    gap: 'Intervalo de {duration} desde o fim da linha {row}.',
+  },
+  columns: {
+    number: 'No.',
+    start: 'Início',
+    end: 'Fim',
+    flow: 'L/min',
+    device: 'Dispositivo',
+    deviceShort: 'Disp.',
+    fio2: 'FiO2 (%)',
+    minutes: 'Minutos',
+    minutesShort: 'Min',
+    liters: 'Litros',
+    cost: 'Custo',
+    cylinder: 'Cilindro',
+  },
+  document: {
+    title: 'Relatório de fornecimento de oxigênio',
+    pageTitle: 'Relatório de oxigênio - {patient}',
+    institution: 'Instituição',
+    patient: 'Paciente',
+    unnamed: 'Sem nome',
+    insurance: 'Tipo de convênio',
+    sessionStarted: 'Sessão iniciada',
+    sessionClosed: 'Sessão encerrada',
+    generated: 'Gerado',
+    noDate: 'Sem data',
+    subtotal: 'Subtotal',
+    noEntries: 'Sem registros',
+    byTime: 'Por tempo',
+    byPressure: 'Por pressão',
+    factor: 'Fator aplicado',
+    factorValue: '{factor} (vigente desde {date})',
+    effectiveFrom: 'Vigente desde',
+    currency: 'Moeda',
+    rounding: 'Arredondamento',
+    total: 'Total a pagar',
+    preparedBy: 'Elaborado por (nome e assinatura)',
+    reviewedBy: 'Revisado por / Faturamento (nome e assinatura)',
+    sheet: 'Oxigênio',
+    fileName: 'oxigenio',
+  },
+  share: {
+    title: 'Registro de fornecimento de oxigênio',
+    totalLiters: 'Total de litros: {liters} L',
+    litersByKind: 'Por tempo: {time} L · por pressão: {pressure} L',
+    shiftSubtotals: 'Subtotais por turno (antes de arredondar):',
+    factorLine: 'Fator aplicado: {factor} ({tariff}, vigente desde {date})',
+  },
+  pressure: {
+    note: 'Linhas por pressão: litros = queda de pressão × constante do cilindro (L/psi); minutos estimados pelo fluxo registrado.',
+  },
+  index: {
+    title: 'Calculadora de Oxigênio',
+    subtitle: 'Cálculo de custo por fornecimento',
+    newSession: 'Nova sessão',
+    newSessionMessage: 'O registro atual será salvo no histórico e uma tabela vazia será aberta.',
+    sessions: 'Sessões',
+    settings: 'Ajustes',
+    closed: 'Sessão encerrada em {date}. Somente leitura.',
+    patient: 'Paciente',
+    insurance: 'Tipo de Convênio',
+    editTariffs: 'Editar tarifas',
+    noTariff: 'Sem tarifa vigente',
+    factor: 'Fator: {factor}',
+    tariffNotice:
+      'Esta sessão usa a tarifa vigente desde {date} (fator {factor}). Toque no regime para aplicar a tarifa atual (fator {current}).',
+    entries: 'Registros de Fornecimento',
+    import: 'Importar',
+    compact: 'Compactar',
+    cylinders: 'Cilindros',
+    prescription: 'Prescrição',
+    pressure: 'Pressão',
+    cylinderLeft: '{cylinder}: restam {liters} L',
+    cylinderEmpties: ' · esvazia em {time} a {flow} L/min',
+    live: 'Linha {row} em andamento · {minutes} min · {cost}',
+    changeFlow: 'Alterar fluxo',
+    changeFlowMessage: 'A linha atual será fechada agora e uma nova será aberta com o fluxo indicado.',
+    apply: 'Aplicar',
+    stop: 'Parar',
+    startPressure: 'Inicial {unit}',
+    endPressure: 'Final {unit}',
+    totalDue: 'Total a Pagar',
+    totalLiters: 'Litros fornecidos: {liters} L',
+    byShift: 'Por turno (antes de arredondar)',
+    factorApplied: 'Fator aplicado: {factor} ({tariff})',
+    shareWhatsApp: 'Compartilhar pelo WhatsApp',
+    exportCsv: 'Exportar CSV',
+    exportExcel: 'Exportar Excel',
+    report: 'Relatório',
+    unresolved: 'Há erros não resolvidos',
+    unresolvedMessage: {
+      one: '{count} linha tem erros. Enviar o relatório mesmo assim?',
+      other: '{count} linhas têm erros. Enviar o relatório mesmo assim?',
+    },
+    send: 'Enviar',
+    shareFailed: 'Não foi possível compartilhar',
+    shareFailedMessage: 'Verifique se o WhatsApp está instalado ou copie o texto manualmente.',
+    exportFailed: 'Não foi possível exportar',
+    pdfFailed: 'Não foi possível gerar o PDF',
+    noFileSharing: 'Este dispositivo não permite compartilhar arquivos.',
+  },
+  navigation: {
+    back: 'Voltar',
+    sessions: 'Sessões',
+    tariffs: 'Tarifas',
+    settings: 'Ajustes',
+    import: 'Importar registros',
+    report: 'Relatório',
+    cylinders: 'Cilindros',
+    prescriptions: 'Prescrição',
+    notFound: 'Página não encontrada!',
+    notFoundMessage: 'Esta tela não existe.',
+    home: 'Ir para a calculadora',
+  },
+  sessions: {
+    notice: {
+      removed: 'Linha {row} excluída.',
+      chained: 'Início da linha {row} ajustado para {time}.',
+      replaced: 'Registros substituídos.',
+      compacted: {
+        one: '{count} linha vazia removida.',
+        other: '{count} linhas vazias removidas.',
+      },
+    },
+    new: 'Nova sessão',
+    search: 'Buscar por nome, documento, EPS, leito, setor ou médico',
+    empty: 'Nenhuma sessão corresponde à busca.',
+    open: 'Aberta',
+    closed: 'Encerrada',
+    rows: {
+      one: '{count} registro',
+      other: '{count} registros',
+    },
+    bed: 'Leito {bed}',
+    close: 'Encerrar sessão',
+    closeMessage: '"{patient}" ficará somente leitura e seu total será congelado.',
+    closeConfirm: 'Encerrar',
+    delete: 'Excluir sessão',
+    deleteMessage: '"{patient}" e todos os seus registros serão excluídos.',
+    rename: 'Renomear sessão',
+    defaultLabel: 'Paciente {number}',
+    copyLabel: '{label} (cópia)',
+  },
+  time: {
+    placeholder: 'HH:MM',
+    invalid: 'HH:MM?',
+    pickerTitle: 'Selecionar Data e Hora',
+    hour: 'Hora',
+    minute: 'Minuto',
+    selected: 'Hora selecionada:',
+    keyboardHint: 'Setas ou dígitos para alterar · Enter para confirmar · Esc para cancelar',
+    confirm: 'Confirmar',
+  },
+  patient: {
+    name: 'Nome',
+    namePlaceholder: 'Nome do paciente',
+    documentPlaceholder: 'Número do documento',
+    servicePlaceholder: 'Ex. Pronto-socorro',
+    documentType: {
+      CC: 'CC',
+      TI: 'TI',
+      RC: 'RC',
+      CE: 'CE',
+      PA: 'Passaporte',
+    },
+    documentHint: {
+      CC: 'de 5 a 10 dígitos',
+      TI: 'de 10 ou 11 dígitos',
+      RC: 'de 10 ou 11 dígitos',
+      CE: 'de 3 a 10 dígitos',
+      PA: 'de 5 a 15 letras ou dígitos',
+    },
+    documentError: 'O número de {type} deve ter {hint}.',
+    field: {
+      documentNumber: 'Documento',
+      eps: 'EPS',
+      bed: 'Leito/Quarto',
+      service: 'Setor',
+      physician: 'Médico responsável',
+      prescribedFlow: 'Fluxo prescrito',
+    },
+  },
+  cylinders: {
+    timeToEmpty: {
+      days: 'aprox. {days} d {hours} h',
+      hours: 'aprox. {hours} h {minutes} min',
+      minutes: 'aprox. {minutes} min',
+    },
+    hint: 'Cadastre os cilindros do paciente e atribua-os às linhas da tabela para ver o volume restante e quando é preciso recarregar.',
+    meta: '{capacity} L · cheio a {fill} % · consumidos {consumed} L',
+    remaining: 'Restam {liters} L',
+    noFlow: 'Sem fluxo registrado para estimar a duração.',
+    empty: 'Cilindro vazio.',
+    empties: 'Esvazia em {time} a {flow} L/min.',
+    add: 'Cadastrar cilindro',
+    name: 'Nome',
+    defaultLabel: 'Cilindro {number}',
+    capacity: 'Capacidade (L)',
+    fill: 'Nível de enchimento (%)',
+    submit: 'Adicionar cilindro',
+    invalidCapacity: 'A capacidade deve ser um número de litros maior que 0.',
+    invalidFill: 'O nível de enchimento deve estar entre 0 e 100 %.',
+    remove: 'Remover cilindro',
+    removeMessage: '"{cylinder}" será removido do inventário e suas linhas ficarão sem cilindro atribuído.',
+    removeConfirm: 'Remover',
+  },
+  import: {
+    label: 'Cole um relatório compartilhado ou uma lista de horários',
+    preview: {
+      one: 'Pré-visualização: {count} registro',
+      other: 'Pré-visualização: {count} registros',
+    },
+    regime: 'Regime: {regime} (o relatório usou fator {factor})',
+    noRegime: 'Fator {factor} sem regime equivalente: o atual é mantido.',
+    noFlow: 'sem fluxo',
+    skipped: 'Linhas não reconhecidas',
+    skippedLine: 'Linha {line}: {text}',
+    hint: 'Substituir também aplica os dados do paciente e o regime do relatório; adicionar mantém os da sessão atual.',
+    append: 'Adicionar ao final',
+    replace: 'Substituir',
+    replaceTitle: 'Substituir registros',
+    replaceMessage: 'Os registros de "{patient}" serão apagados e os importados serão carregados.',
+  },
+  prescriptions: {
+    error: {
+      name: 'Escreva o nome da prescrição.',
+      empty: 'Adicione pelo menos uma faixa.',
+      time: 'Faixa {band}: use horários como 22:00 ou 06:00.',
+      flow: 'Faixa {band}: o fluxo deve ser maior que 0.',
+      overlap: 'As faixas {first} e {second} se sobrepõem.',
+    },
+    continuous: '{flow} L/min contínuo',
+    hint: 'Salve as prescrições habituais, como 2 L/min contínuo ou 3 L/min das 22:00 às 06:00, e gere as linhas da tabela para um intervalo de dias.',
+    activeFor: 'Prescrição de {patient}',
+    use: 'Usar para este paciente',
+    generate: 'Gerar linhas',
+    from: 'De',
+    to: 'Até',
+    invalidRange: 'Use datas AAAA-MM-DD e um fim igual ou posterior ao início.',
+    tooManyDays: 'Gere no máximo {max} dias de cada vez.',
+    summary: {
+      one: '{count} dia · {rows} linhas de "{name}". Depois é possível ajustar cada linha na tabela.',
+      other: '{count} dias · {rows} linhas de "{name}". Depois é possível ajustar cada linha na tabela.',
+    },
+    replaceMessage: 'Os registros de "{patient}" serão apagados e os da prescrição serão gerados.',
+    delete: 'Excluir prescrição',
+    deleteMessage: '"{name}" deixará de estar disponível. As linhas já geradas não mudam.',
+    new: 'Nova prescrição',
+    name: 'Nome',
+    namePlaceholder: 'Ex. Noturno 3 L/min',
+    bands: 'Faixas (HH:MM, 24 h; início = fim é contínuo)',
+    addBand: 'Adicionar faixa',
+    device: 'Dispositivo',
+  },
+  tariffs: {
+    newRegime: 'Novo regime',
+    newVersion: 'Nova versão: {regime}',
+    addVersion: 'Adicionar versão',
+    rate: 'Fator {factor} · desde {date}',
+    current: 'Vigente',
+    name: 'Nome',
+    namePlaceholder: 'Ex. SOAT',
+    factor: 'Fator',
+    effectiveFrom: 'Vigente desde (AAAA-MM-DD)',
+    error: {
+      name: 'Escreva o nome do regime.',
+      factor: 'O fator deve ser um número maior que 0.',
+      date: 'A data deve ter o formato AAAA-MM-DD.',
+    },
+    delete: 'Excluir regime',
+    deleteMessage: '"{regime}" deixará de aparecer no seletor. As sessões já registradas mantêm sua tarifa.',
+  },
+  shifts: {
+    error: {
+      empty: 'Defina pelo menos um turno.',
+      unnamed: 'Cada turno precisa de um nome.',
+      time: 'Use horários como 07:00 ou 19:30.',
+      sameStart: 'Dois turnos não podem começar no mesmo horário.',
+    },
+    unplaced: 'Por pressão (sem horário)',
+    morning: 'Manhã',
+    afternoon: 'Tarde',
+    night: 'Noite',
+  },
+  settings: {
+    institution: 'Instituição',
+    institutionPlaceholder: 'Nome da instituição',
+    institutionHint: 'Aparece no cabeçalho do relatório para impressão.',
+    currency: 'Moeda',
+    currencyExample: 'Exemplo: {amount}',
+    currencyError: 'Use um código ISO 4217 de três letras, p. ex. COP ou USD.',
+    rounding: 'Arredondamento',
+    roundingScope: 'Aplicar',
+    roundingIncrement: 'Múltiplo',
+    scope: {
+      total: 'Sobre o total',
+      row: 'Por linha',
+    },
+    increment: {
+      cent: 'Centavo',
+      unit: 'Unidade',
+      hundred: '100 unidades',
+    },
+    roundingHint: '{rounding}. As sessões encerradas mantêm a política com que foram totalizadas.',
+    language: 'Idioma',
+    reportLanguage: 'Idioma do relatório',
+    system: 'Sistema',
+    sameAsApp: 'O do aplicativo',
+    languageHint:
+      'Sistema usa o idioma do dispositivo quando disponível. O relatório, as exportações e o texto compartilhado são escritos no idioma do relatório.',
+    theme: 'Tema',
+    themes: {
+      light: 'Claro',
+      dark: 'Escuro',
+      contrast: 'Alto contraste',
+    },
+    themeHint: 'Sistema segue o modo claro ou escuro do dispositivo.',
+    time: 'Hora',
+    timeFormat: 'Formato',
+    minuteStep: 'Intervalo de minutos do seletor',
+    timeHint: 'Exemplo: {time}. Horários digitados à mão são aceitos em qualquer formato.',
+    shifts: 'Turnos',
+    shiftName: 'Nome',
+    shiftLabel: 'Turno {number}',
+    addShift: 'Adicionar turno',
+    shiftsHint:
+      'Cada turno dura até o início do seguinte: {shifts}. As linhas que cruzam uma troca de turno são divididas proporcionalmente.',
+  },
+  report: {
+    print: 'Imprimir ou salvar PDF',
+    hint: 'O relatório inclui cabeçalho, tabela completa, subtotais por dia, fator, total e linhas de assinatura.',
+    share: 'Compartilhar PDF',
+  },
+  a11y: {
+    cell: {
+      start: 'Linha {row}, hora de início, {value}',
+      end: 'Linha {row}, hora de término, {value}',
+      startPressure: 'Linha {row}, pressão inicial em {unit}, {value}',
+      endPressure: 'Linha {row}, pressão final em {unit}, {value}',
+      flow: 'Linha {row}, fluxo em litros por minuto, {value}',
+      device: 'Linha {row}, dispositivo, {value}',
+      cylinder: 'Linha {row}, cilindro, {value}',
+      minutes: 'Linha {row}, minutos, {value}',
+      liters: 'Linha {row}, litros, {value}',
+      cost: 'Linha {row}, valor, {value}',
+    },
+    empty: 'sem valor',
+    timeHint: 'Digite a hora, por exemplo 730p ou 19:30',
+    openPicker: 'Abrir seletor de hora',
+    cycleHint: 'Muda para a próxima opção',
+    live: 'Linha {row} em andamento',
+    startLive: 'Iniciar a linha {row} em andamento',
+    deleteRow: 'Excluir linha {row}',
+    redo: 'Refazer',
+    total: 'Total a pagar: {total}',
+    previousDay: 'Dia anterior',
+    nextDay: 'Dia seguinte',
+    duplicateSession: 'Duplicar sessão',
+    removeBand: 'Remover faixa {band}',
+    removeRate: 'Remover tarifa',
+    removeShift: 'Remover turno {shift}',
+  },
+};
+
+export default pt;
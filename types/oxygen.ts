@@ -0,0 +1,90 @@
+import type { RoundingPolicy } from '@/types/settings';
+import type { AppliedTariff } from '@/types/tariff';
+
+// Id of a regime in the tariff catalog ('contributivo', 'subsidiado', ...).
+export type InsuranceType = string;
+
+export type EntryKind = 'time' | 'pressure';
+
+export type PressureUnit = 'psi' | 'bar';
+
+export type DeliveryDevice = 'cannula' | 'simple_mask' | 'venturi' | 'non_rebreather' | 'high_flow';
+
+export interface OxygenEntry {
+  id: string;
+  startTime: string;
+  endTime: string;
+  flowRate: string;
+  // Calendar days ('YYYY-MM-DD') for administrations that span several days.
+  // Rows without dates are read as same-day, or next-day when end < start.
+  startDate?: string;
+  endDate?: string;
+  // Cylinder the oxygen for this row was drawn from, if tracked.
+  cylinderId?: string;
+  // Pressure rows leave the times blank and record the manometer reading
+  // before and after instead; see utils/pressure. Rows without a kind are
+  // time rows.
+  kind?: EntryKind;
+  cylinderType?: string;
+  pressureUnit?: PressureUnit;
+  startPressure?: string;
+  endPressure?: string;
+  // How the oxygen was given; see utils/devices. `fio2` is the Venturi valve
+  // percentage, and the row's flow is the one that valve needs.
+  device?: DeliveryDevice;
+  fio2?: string;
+}
+
+export type EntryField = Exclude<keyof OxygenEntry, 'id'>;
+
+export type TimeField = 'startTime' | 'endTime';
+
+// An oxygen cylinder registered for the session, e.g. at a home patient's.
+export interface Cylinder {
+  id: string;
+  label: string;
+  capacityLiters: number;
+  // Fill level when it was registered, 0-100.
+  fillPercent: number;
+}
+
+// Colombian identity documents: cédula de ciudadanía, tarjeta de identidad,
+// registro civil, cédula de extranjería and passport.
+export type DocumentType = 'CC' | 'TI' | 'RC' | 'CE' | 'PA';
+
+// Encounter details shown on every report and export. The patient's name is
+// the session's `patientLabel`.
+export interface PatientInfo {
+  documentType: DocumentType;
+  documentNumber: string;
+  eps: string;
+  bed: string;
+  service: string;
+  physician: string;
+  // Prescribed flow in L/min, as typed.
+  prescribedFlow: string;
+}
+
+export interface OxygenSession {
+  id: string;
+  patientLabel: string;
+  patient: PatientInfo;
+  insuranceType: InsuranceType;
+  tariff: AppliedTariff;
+  entries: OxygenEntry[];
+  // Optional inventory that rows draw from; see utils/cylinders.
+  cylinders?: Cylinder[];
+  // Standing prescription template chosen for this patient.
+  prescriptionId?: string;
+  // Row being timed live: it has a start stamped and its end is "now".
+  liveEntryId?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Set when the session is closed; a closed session is read-only and its
+  // total is frozen at the value computed at that moment, together with the
+  // currency and rounding policy it was computed under.
+  closedAt?: string;
+  totalCost?: number;
+  currency?: string;
+  rounding?: RoundingPolicy;
+}
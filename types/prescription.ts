@@ -0,0 +1,19 @@
+import type { DeliveryDevice } from '@/types/oxygen';
+
+// One band of a daily schedule. Times are 'HH:MM' (24h); a band whose end is
+// before its start runs past midnight, and one whose end equals its start runs
+// all day ("continuo").
+export interface PrescriptionSegment {
+  id: string;
+  start: string;
+  end: string;
+  flowRate: string;
+}
+
+// A standing oxygen order that can be laid out over a range of days.
+export interface PrescriptionTemplate {
+  id: string;
+  name: string;
+  segments: PrescriptionSegment[];
+  device?: DeliveryDevice;
+}
@@ -0,0 +1,51 @@
+// Amounts are rounded half away from zero to a multiple of `increment`:
+// 0.01 (centavo), 1 (peso) or 100 (centena). With scope 'row' each row is
+// rounded before summing; with 'total' only the sum is rounded.
+export type RoundingIncrement = 0.01 | 1 | 100;
+
+export interface RoundingPolicy {
+  scope: 'row' | 'total';
+  increment: RoundingIncrement;
+}
+
+// How times are shown and picked. The table keeps storing 12h text either way.
+export type TimeFormat = '12h' | '24h';
+
+// Minutes between the options offered by the time pickers.
+export type MinuteStep = 1 | 5 | 15;
+
+export type ThemeName = 'light' | 'dark' | 'contrast';
+
+// 'system' follows the device's light or dark setting.
+export type ThemePreference = 'system' | ThemeName;
+
+// Languages the app and its reports are translated into; Spanish is the source.
+export type Language = 'es' | 'en' | 'pt';
+
+// 'system' follows the device language, falling back to Spanish.
+export type LanguagePreference = 'system' | Language;
+
+// 'app' writes reports in the same language as the app.
+export type ReportLanguage = 'app' | Language;
+
+// A shift runs from its start ('HH:MM', 24h) until the next shift starts.
+export interface ShiftDefinition {
+  id: string;
+  label: string;
+  start: string;
+}
+
+export interface Settings {
+  // ISO 4217 code used to format amounts.
+  currency: string;
+  rounding: RoundingPolicy;
+  // Printed at the top of the report.
+  institution: string;
+  // Subtotals in the table and the share text are split by these shifts.
+  shifts: ShiftDefinition[];
+  timeFormat: TimeFormat;
+  minuteStep: MinuteStep;
+  theme: ThemePreference;
+  language: LanguagePreference;
+  reportLanguage: ReportLanguage;
+}
@@ -0,0 +1,21 @@
+// A version of a regime's rate. Dates are plain calendar days (YYYY-MM-DD).
+export interface TariffRate {
+  id: string;
+  factor: number;
+  effectiveFrom: string;
+}
+
+export interface TariffRegime {
+  id: string;
+  label: string;
+  rates: TariffRate[];
+}
+
+// Snapshot of the rate a session bills with, so later catalog edits don't
+// change the totals of sessions that were already recorded.
+export interface AppliedTariff {
+  rateId: string;
+  label: string;
+  factor: number;
+  effectiveFrom: string;
+}
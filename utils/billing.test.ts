@@ -0,0 +1,206 @@
+import { entry } from '@/__tests__/fixtures';
+import {
+  calculateEntryCost,
+  calculateMinutes,
+  calculateTotalCost,
+  parseTime,
+  roundToIncrement,
+} from '@/utils/billing';
+
+describe('parseTime', () => {
+  it('reads the 12h text the table stores', () => {
+    expect(parseTime('7:00 AM')).toBe(7 * 60);
+    expect(parseTime('7:05 PM')).toBe(19 * 60 + 5);
+  });
+
+  it('maps 12 AM to midnight and 12 PM to noon', () => {
+    expect(parseTime('12:00 AM')).toBe(0);
+    expect(parseTime('12:30 AM')).toBe(30);
+    expect(parseTime('12:00 PM')).toBe(12 * 60);
+    expect(parseTime('12:30 PM')).toBe(12 * 60 + 30);
+  });
+
+  it('accepts typed 24h and shorthand forms', () => {
+    expect(parseTime('19:30')).toBe(19 * 60 + 30);
+    expect(parseTime('0730')).toBe(7 * 60 + 30);
+    expect(parseTime('19.30')).toBe(19 * 60 + 30);
+    expect(parseTime('7h30')).toBe(7 * 60 + 30);
+    expect(parseTime('730p')).toBe(19 * 60 + 30);
+    expect(parseTime('7.30 p.m.')).toBe(19 * 60 + 30);
+    expect(parseTime(' 7pm ')).toBe(19 * 60);
+    expect(parseTime('00:00')).toBe(0);
+    expect(parseTime('23:59')).toBe(23 * 60 + 59);
+  });
+
+  it('accepts a redundant PM on a 24h hour', () => {
+    expect(parseTime('14:30 PM')).toBe(14 * 60 + 30);
+  });
+
+  it.each([
+    '',
+    '7',
+    '24:00',
+    '7:60',
+    '0:30 AM',
+    '14:30 AM',
+    '13 AM',
+    '7:5',
+    '7:00 XM',
+    'siete',
+    '7:00 PM extra',
+    '-1:00',
+  ])('rejects %j', (text) => {
+    expect(parseTime(text)).toBeNull();
+  });
+});
+
+describe('calculateMinutes', () => {
+  it('measures a same-day row', () => {
+    expect(calculateMinutes(entry('a', { startTime: '8:00 AM', endTime: '10:30 AM' }))).toBe(150);
+  });
+
+  it('reads a time-only row ending before it starts as crossing midnight', () => {
+    expect(calculateMinutes(entry('a', { startTime: '10:00 PM', endTime: '2:00 AM' }))).toBe(240);
+    expect(calculateMinutes(entry('a', { startTime: '11:30 PM', endTime: '12:00 AM' }))).toBe(30);
+    expect(calculateMinutes(entry('a', { startTime: '12:00 AM', endTime: '12:00 PM' }))).toBe(720);
+    expect(calculateMinutes(entry('a', { startTime: '12:00 PM', endTime: '12:00 AM' }))).toBe(720);
+  });
+
+  it('uses the dates when the row has both', () => {
+    expect(
+      calculateMinutes(
+        entry('a', {
+          startTime: '8:00 AM',
+          endTime: '8:00 AM',
+          startDate: '2026-10-19',
+          endDate: '2026-10-21',
+        })
+      )
+    ).toBe(2 * 24 * 60);
+    expect(
+      calculateMinutes(
+        entry('a', {
+          startTime: '10:00 PM',
+          endTime: '2:00 AM',
+          startDate: '2026-10-19',
+          endDate: '2026-10-20',
+        })
+      )
+    ).toBe(240);
+  });
+
+  it('gives 0 for a dated row that ends before it starts', () => {
+    expect(
+      calculateMinutes(
+        entry('a', {
+          startTime: '10:00 PM',
+          endTime: '2:00 AM',
+          startDate: '2026-10-19',
+          endDate: '2026-10-19',
+        })
+      )
+    ).toBe(0);
+  });
+
+  it('gives 0 for incomplete or malformed rows', () => {
+    expect(calculateMinutes(entry('a', {}))).toBe(0);
+    expect(calculateMinutes(entry('a', { startTime: '8:00 AM' }))).toBe(0);
+    expect(calculateMinutes(entry('a', { startTime: '8:00 AM', endTime: '25:00' }))).toBe(0);
+    expect(calculateMinutes(entry('a', { startTime: 'ocho', endTime: '9:00 AM' }))).toBe(0);
+  });
+
+  it('estimates pressure rows from their liters at the recorded flow', () => {
+    // 1000 psi drop on an E cylinder (0.28 L/psi) is 280 L; at 2 L/min, 140 min.
+    const pressure = entry('a', {
+      kind: 'pressure',
+      cylinderType: 'E',
+      pressureUnit: 'psi',
+      startPressure: '2000',
+      endPressure: '1000',
+      flowRate: '2',
+    });
+    expect(calculateMinutes(pressure)).toBe(140);
+    expect(calculateMinutes({ ...pressure, id: 'no-flow', flowRate: '' })).toBe(0);
+  });
+});
+
+describe('calculateEntryCost', () => {
+  it('multiplies liters by the payment factor', () => {
+    // 60 min × 2 L/min = 120 L
+    expect(
+      calculateEntryCost(
+        entry('a', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' }),
+        10
+      )
+    ).toBe(1200);
+  });
+
+  it('accepts a decimal comma in the flow', () => {
+    expect(
+      calculateEntryCost(
+        entry('a', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '0,5' }),
+        10
+      )
+    ).toBe(300);
+  });
+
+  it('costs nothing without a usable flow', () => {
+    expect(calculateEntryCost(entry('a', { startTime: '8:00 AM', endTime: '9:00 AM' }), 10)).toBe(
+      0
+    );
+    expect(
+      calculateEntryCost(
+        entry('a', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: 'dos' }),
+        10
+      )
+    ).toBe(0);
+  });
+});
+
+describe('roundToIncrement', () => {
+  it('rounds half away from zero', () => {
+    expect(roundToIncrement(2.5, 1)).toBe(3);
+    expect(roundToIncrement(-2.5, 1)).toBe(-3);
+    expect(roundToIncrement(2.49, 1)).toBe(2);
+    expect(roundToIncrement(150, 100)).toBe(200);
+    expect(roundToIncrement(149.99, 100)).toBe(100);
+  });
+
+  it('is not thrown off by binary artifacts', () => {
+    expect(roundToIncrement(1.005, 0.01)).toBe(1.01);
+    expect(roundToIncrement(0.1 + 0.2, 0.01)).toBe(0.3);
+    expect(roundToIncrement(1234.565, 0.01)).toBe(1234.57);
+  });
+});
+
+describe('calculateTotalCost', () => {
+  // Each row is 1 min at 1 L/min, so its cost is the payment factor.
+  const rows = [
+    entry('a', { startTime: '8:00 AM', endTime: '8:01 AM', flowRate: '1' }),
+    entry('b', { startTime: '9:00 AM', endTime: '9:01 AM', flowRate: '1' }),
+    entry('c', { startTime: '10:00 AM', endTime: '10:01 AM', flowRate: '1' }),
+  ];
+
+  it('rounds only the sum with scope total', () => {
+    expect(calculateTotalCost(rows, 0.4, { scope: 'total', increment: 1 })).toBe(1);
+  });
+
+  it('rounds each row before summing with scope row', () => {
+    expect(calculateTotalCost(rows, 0.4, { scope: 'row', increment: 1 })).toBe(0);
+    expect(calculateTotalCost(rows, 0.5, { scope: 'row', increment: 1 })).toBe(3);
+  });
+
+  it('clears float drift from sums of cents', () => {
+    expect(calculateTotalCost(rows, 0.1, { scope: 'row', increment: 0.01 })).toBe(0.3);
+  });
+
+  it('rounds to hundreds', () => {
+    expect(calculateTotalCost(rows, 60, { scope: 'total', increment: 100 })).toBe(200);
+  });
+
+  it('ignores blank rows', () => {
+    expect(
+      calculateTotalCost([...rows, entry('blank')], 10, { scope: 'total', increment: 1 })
+    ).toBe(30);
+  });
+});
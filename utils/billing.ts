@@ -0,0 +1,196 @@
+// Billing engine: the single implementation of time parsing, durations,
+// liters and costs shared by the screen, the exports and validation. Everything here is
+// pure so it can run outside React.
+import type { OxygenEntry, OxygenSession } from '@/types/oxygen';
+import type { RoundingPolicy, TimeFormat } from '@/types/settings';
+import { dateKeyToDayNumber } from '@/utils/dates';
+import { calculatePressureLiters, isPressureEntry } from '@/utils/pressure';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export const DEFAULT_ROUNDING: RoundingPolicy = { scope: 'total', increment: 1 };
+
+// Hour, then minutes after ':', '.' or 'h' or run together ('0730'), then an
+// optional suffix: 'a', 'am', 'p', 'p.m.' and the like.
+const TIME_PATTERN = /^\s*(\d{1,2})(?:[:.h](\d{2})|(\d{2}))?\s*(?:([ap])\.?\s*(?:m\.?)?)?\s*$/i;
+
+/**
+ * Parses a time of day into minutes since midnight, or null if invalid.
+ *
+ * The table stores '7:00 PM', but anything typed or imported goes through
+ * here too, so it is forgiving: 24h ('19:30', '0730', '19.30') and 12h
+ * ('7:30 PM', '730p', '7.30 p.m.', '7pm') text. A bare hour needs a suffix.
+ * With a suffix the hour must be 1-12, except that a redundant PM on a 24h
+ * hour ('14:30 PM') is accepted; a contradictory AM ('14:30 AM') is not.
+ */
+export const parseTime = (text: string): number | null => {
+  if (!text) return null;
+  const m = TIME_PATTERN.exec(text);
+  if (!m) return null;
+  const ampm = m[4] && `${m[4].toUpperCase()}M`;
+  const mm = m[2] ?? m[3];
+  if (mm === undefined && !ampm) return null;
+  let hours = parseInt(m[1], 10);
+  const minutes = mm === undefined ? 0 : parseInt(mm, 10);
+  if (minutes > 59 || hours > 23) return null;
+  if (ampm) {
+    if (hours === 0 || (hours > 12 && ampm === 'AM')) return null;
+    // Convert 12h to 24h
+    if (ampm === 'PM' && hours < 12) hours += 12;
+    if (ampm === 'AM' && hours === 12) hours = 0;
+  }
+  return hours * 60 + minutes;
+};
+
+/**
+ * Formats a clock time the way the table stores it, e.g. '7:05 PM', or as
+ * '19:05' for display in 24h mode.
+ */
+export const formatTime = (date: Date, format: TimeFormat = '12h'): string => {
+  const hours = date.getHours();
+  const mm = String(date.getMinutes()).padStart(2, '0');
+  if (format === '24h') return `${String(hours).padStart(2, '0')}:${mm}`;
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  let h12 = hours % 12;
+  if (h12 === 0) h12 = 12;
+  return `${h12}:${mm} ${ampm}`;
+};
+
+/** Formats minutes since midnight like formatTime, e.g. '7:05 PM'. */
+export const formatClock = (minutes: number, format: TimeFormat = '12h'): string =>
+  formatTime(new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60), format);
+
+/** A stored time shown in the user's format; text that does not parse is left as is. */
+export const displayTime = (text: string, format: TimeFormat): string => {
+  const minutes = parseTime(text);
+  return minutes === null ? text : formatClock(minutes, format);
+};
+
+/** Rounds a date to the nearest multiple of `step` minutes, carrying into the hour and day. */
+export const snapToMinuteStep = (date: Date, step: number): Date => {
+  const snapped = new Date(date);
+  snapped.setSeconds(0, 0);
+  snapped.setMinutes(Math.round(snapped.getMinutes() / step) * step);
+  return snapped;
+};
+
+/** Parses a flow in L/min, accepting a decimal comma ('2,5'). */
+export const parseFlowRate = (text: string): number | null => {
+  if (!text || !/^\s*\d*(?:[.,]\d*)?\s*$/.test(text)) return null;
+  const n = parseFloat(text.replace(',', '.'));
+  return isNaN(n) ? null : n;
+};
+
+// Rows are immutable, so a row's figures are worked out once per version of
+// the row. Totals over a long log then only redo the rows an edit replaced.
+const memoByEntry = (calculate: (entry: OxygenEntry) => number) => {
+  const cache = new WeakMap<OxygenEntry, number>();
+  return (entry: OxygenEntry): number => {
+    let value = cache.get(entry);
+    if (value === undefined) {
+      value = calculate(entry);
+      cache.set(entry, value);
+    }
+    return value;
+  };
+};
+
+// Pressure rows have no times: their minutes follow from the liters at the
+// recorded flow.
+const pressureMinutes = (entry: OxygenEntry) => {
+  const flow = parseFlowRate(entry.flowRate);
+  return flow ? Math.round(calculatePressureLiters(entry) / flow) : 0;
+};
+
+/**
+ * Minutes between a row's start and end.
+ *
+ * With both dates the duration comes from absolute timestamps, so it can
+ * exceed 24h, and an end at or before the start yields 0. Time-only rows are
+ * read as same-day, or next-day when the end is before the start. Incomplete
+ * or unparseable rows yield 0. Pressure rows are estimated from their liters
+ * at the recorded flow.
+ */
+export const calculateMinutes = memoByEntry((entry) => {
+  if (isPressureEntry(entry)) return pressureMinutes(entry);
+  const startMinutes = parseTime(entry.startTime);
+  const endMinutes = parseTime(entry.endTime);
+  if (startMinutes === null || endMinutes === null) return 0;
+
+  const startDay = entry.startDate ? dateKeyToDayNumber(entry.startDate) : null;
+  const endDay = entry.endDate ? dateKeyToDayNumber(entry.endDate) : null;
+  if (startDay !== null && endDay !== null) {
+    const diff = endDay * MINUTES_PER_DAY + endMinutes - (startDay * MINUTES_PER_DAY + startMinutes);
+    return Math.max(diff, 0);
+  }
+
+  let diff = endMinutes - startMinutes;
+  if (diff < 0) {
+    diff += MINUTES_PER_DAY;
+  }
+
+  return diff;
+});
+
+/** Liters delivered by a row: minutes × L/min, or the pressure drop for pressure rows. */
+export const calculateLiters = memoByEntry((entry) =>
+  isPressureEntry(entry)
+    ? calculatePressureLiters(entry)
+    : calculateMinutes(entry) * (parseFlowRate(entry.flowRate) ?? 0)
+);
+
+/** Liters split by how they were measured, for totals that explain both. */
+export const calculateLitersByKind = (entries: OxygenEntry[]) =>
+  entries.reduce(
+    (acc, entry) => {
+      const liters = calculateLiters(entry);
+      if (isPressureEntry(entry)) {
+        acc.pressure += liters;
+        if (liters > 0) acc.pressureRows += 1;
+      } else {
+        acc.time += liters;
+      }
+      return acc;
+    },
+    { time: 0, pressure: 0, pressureRows: 0 }
+  );
+
+/** Unrounded cost of a row: liters × payment factor. */
+export const calculateEntryCost = (entry: OxygenEntry, paymentFactor: number): number =>
+  calculateLiters(entry) * paymentFactor;
+
+/** Rounds half away from zero to a multiple of `increment`, immune to binary artifacts like 1.005. */
+export const roundToIncrement = (value: number, increment: number): number => {
+  const scaled = Math.round(Number((Math.abs(value) / increment).toPrecision(15)));
+  // Divide by the inverse for sub-unit increments so 0.01 steps stay exact.
+  const rounded = increment < 1 ? scaled / Math.round(1 / increment) : scaled * increment;
+  return Math.sign(value) * rounded;
+};
+
+/** Session total under a rounding policy: rows rounded then summed, or summed then rounded. */
+export const calculateTotalCost = (
+  entries: OxygenEntry[],
+  paymentFactor: number,
+  rounding: RoundingPolicy
+): number => {
+  const costs = entries.map((entry) => calculateEntryCost(entry, paymentFactor));
+  const sum =
+    rounding.scope === 'row'
+      ? costs.reduce((acc, cost) => acc + roundToIncrement(cost, rounding.increment), 0)
+      : costs.reduce((acc, cost) => acc + cost, 0);
+  // A sum of already-rounded rows is a multiple of the increment; rounding it
+  // again only clears float drift.
+  return roundToIncrement(sum, rounding.increment);
+};
+
+/** Cost shown for a single row: rounded only when the policy rounds per row. */
+export const displayEntryCost = (cost: number, rounding: RoundingPolicy): number =>
+  rounding.scope === 'row' ? roundToIncrement(cost, rounding.increment) : cost;
+
+// Closed sessions report the total frozen when they were closed, under the
+// rounding policy recorded at that moment.
+export const getSessionRounding = (session: OxygenSession, rounding: RoundingPolicy) =>
+  session.rounding ?? rounding;
+
+export const getSessionTotal = (session: OxygenSession, rounding: RoundingPolicy): number =>
+  session.totalCost ?? calculateTotalCost(session.entries, session.tariff.factor, rounding);
@@ -0,0 +1,19 @@
+import { Alert, Platform } from 'react-native';
+
+// Alert.alert ignores button callbacks on web, so fall back to window.confirm there.
+export const confirmAction = (
+  title: string,
+  message: string,
+  confirmText: string,
+  cancelText: string,
+  onConfirm: () => void
+) => {
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n\n${message}`)) onConfirm();
+    return;
+  }
+  Alert.alert(title, message, [
+    { text: cancelText, style: 'cancel' },
+    { text: confirmText, style: 'destructive', onPress: onConfirm },
+  ]);
+};
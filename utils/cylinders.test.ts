@@ -0,0 +1,92 @@
+import { entry } from '@/__tests__/fixtures';
+import type { Cylinder } from '@/types/oxygen';
+import {
+  formatTimeToEmpty,
+  getCylinderUsage,
+  parseCapacity,
+  parseFillPercent,
+} from '@/utils/cylinders';
+import { getTranslator } from '@/utils/i18n';
+
+const { t } = getTranslator('es');
+
+// A 680 L cylinder filled to 50%, so 340 L to start with.
+const cylinder: Cylinder = { id: 'cyl-1', label: 'E-1', capacityLiters: 680, fillPercent: 50 };
+
+describe('getCylinderUsage', () => {
+  it('takes the liters of its own rows off what the cylinder held', () => {
+    const [usage] = getCylinderUsage(
+      [cylinder],
+      [
+        // 60 min at 2 L/min, then 20 min at 1 L/min.
+        entry('a', {
+          startTime: '8:00 AM',
+          endTime: '9:00 AM',
+          flowRate: '2',
+          cylinderId: 'cyl-1',
+        }),
+        entry('b', {
+          startTime: '9:00 AM',
+          endTime: '9:20 AM',
+          flowRate: '1',
+          cylinderId: 'cyl-1',
+        }),
+        entry('c', { startTime: '9:00 AM', endTime: '10:00 AM', flowRate: '5' }),
+      ]
+    );
+    expect(usage).toEqual({
+      cylinder,
+      consumedLiters: 140,
+      remainingLiters: 200,
+      currentFlow: 1,
+      minutesToEmpty: 200,
+    });
+  });
+
+  it('takes the flow from the latest row that has one', () => {
+    const [usage] = getCylinderUsage(
+      [cylinder],
+      [
+        entry('a', {
+          startTime: '8:00 AM',
+          endTime: '9:00 AM',
+          flowRate: '4',
+          cylinderId: 'cyl-1',
+        }),
+        entry('b', { startTime: '9:00 AM', cylinderId: 'cyl-1' }),
+      ]
+    );
+    expect(usage).toMatchObject({ remainingLiters: 100, currentFlow: 4, minutesToEmpty: 25 });
+  });
+
+  it('stops at empty and has no time left without a flow', () => {
+    const [overdrawn] = getCylinderUsage(
+      [cylinder],
+      [entry('a', { startTime: '8:00 AM', endTime: '2:00 PM', flowRate: '2', cylinderId: 'cyl-1' })]
+    );
+    expect(overdrawn).toMatchObject({ consumedLiters: 720, remainingLiters: 0 });
+    const [unused] = getCylinderUsage([cylinder], []);
+    expect(unused).toMatchObject({ remainingLiters: 340, currentFlow: null, minutesToEmpty: null });
+  });
+});
+
+describe('formatTimeToEmpty', () => {
+  it('writes minutes, hours or days as the time left calls for', () => {
+    expect(formatTimeToEmpty(45.8, t)).toBe('aprox. 45 min');
+    expect(formatTimeToEmpty(340, t)).toBe('aprox. 5 h 40 min');
+    expect(formatTimeToEmpty(26 * 60 + 30, t)).toBe('aprox. 1 d 2 h');
+  });
+});
+
+describe('parseCapacity and parseFillPercent', () => {
+  it('read decimal commas and reject values out of range', () => {
+    expect(parseCapacity('1700')).toBe(1700);
+    expect(parseCapacity('0,5')).toBe(0.5);
+    expect(parseCapacity('0')).toBeNull();
+    expect(parseCapacity('lleno')).toBeNull();
+    expect(parseFillPercent('0')).toBe(0);
+    expect(parseFillPercent('87,5')).toBe(87.5);
+    expect(parseFillPercent('101')).toBeNull();
+    expect(parseFillPercent('-1')).toBeNull();
+  });
+});
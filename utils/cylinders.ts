@@ -0,0 +1,67 @@
+// Cylinder inventory: how much oxygen is left in each registered cylinder
+// after the rows drawn from it, and how long it lasts at the current flow.
+import type { Cylinder, OxygenEntry } from '@/types/oxygen';
+import { calculateLiters, parseFlowRate } from '@/utils/billing';
+import { createId } from '@/utils/entries';
+import type { Translate } from '@/utils/i18n';
+
+// Common capacities, in liters of gaseous oxygen.
+export const CYLINDER_SIZES = [680, 1700, 3400, 6800];
+
+export interface CylinderUsage {
+  cylinder: Cylinder;
+  consumedLiters: number;
+  remainingLiters: number;
+  // Flow of the latest row drawing from the cylinder, in L/min.
+  currentFlow: number | null;
+  // Minutes until empty at `currentFlow`, or null without a flow.
+  minutesToEmpty: number | null;
+}
+
+export const createCylinder = (label: string, capacityLiters: number, fillPercent: number): Cylinder => ({
+  id: createId('cylinder'),
+  label,
+  capacityLiters,
+  fillPercent,
+});
+
+export const parseCapacity = (text: string): number | null => {
+  const n = parseFloat(text.replace(',', '.'));
+  return isNaN(n) || n <= 0 ? null : n;
+};
+
+export const parseFillPercent = (text: string): number | null => {
+  const n = parseFloat(text.replace(',', '.'));
+  return isNaN(n) || n < 0 || n > 100 ? null : n;
+};
+
+// `entries` should already have the live row previewed at "now" so that the
+// running administration counts against its cylinder.
+export const getCylinderUsage = (cylinders: Cylinder[], entries: OxygenEntry[]): CylinderUsage[] =>
+  cylinders.map((cylinder) => {
+    const rows = entries.filter((entry) => entry.cylinderId === cylinder.id);
+    const consumedLiters = rows.reduce((acc, entry) => acc + calculateLiters(entry), 0);
+    const initial = (cylinder.capacityLiters * cylinder.fillPercent) / 100;
+    const remainingLiters = Math.max(initial - consumedLiters, 0);
+    const latest = [...rows].reverse().find((entry) => parseFlowRate(entry.flowRate));
+    const currentFlow = latest ? parseFlowRate(latest.flowRate) : null;
+    return {
+      cylinder,
+      consumedLiters,
+      remainingLiters,
+      currentFlow,
+      minutesToEmpty: currentFlow ? remainingLiters / currentFlow : null,
+    };
+  });
+
+// 'aprox. 5 h 40 min'
+export const formatTimeToEmpty = (minutes: number, t: Translate) => {
+  const total = Math.floor(minutes);
+  const days = Math.floor(total / (24 * 60));
+  const hours = Math.floor((total % (24 * 60)) / 60);
+  const m = total % 60;
+  if (days) return t('cylinders.timeToEmpty.days', { days, hours });
+  return hours
+    ? t('cylinders.timeToEmpty.hours', { hours, minutes: m })
+    : t('cylinders.timeToEmpty.minutes', { minutes: m });
+};
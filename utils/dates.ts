@@ -0,0 +1,59 @@
+// Calendar days are stored as plain 'YYYY-MM-DD' keys in local time, so they
+// survive JSON round-trips without timezone surprises.
+
+export const toDateKey = (date: Date) => {
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${mm}-${dd}`;
+};
+
+export const dateKeyToDate = (key: string): Date | null => {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return toDateKey(d) === key ? d : null;
+};
+
+export const isValidDateKey = (key: string) => dateKeyToDate(key) !== null;
+
+export const addDays = (key: string, days: number) => {
+  const d = dateKeyToDate(key);
+  if (!d) return key;
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+};
+
+// Whole days since the epoch; used to turn a date key + time of day into an
+// absolute minute count without going through local Date arithmetic (DST).
+export const dateKeyToDayNumber = (key: string): number | null => {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!m || !isValidDateKey(key)) return null;
+  return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) / 86400000;
+};
+
+// '2026-10-19' -> '19/10'
+export const formatShortDate = (key: string) => {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  return m ? `${m[3]}/${m[2]}` : key;
+};
+
+// '19/10' -> '2026-10-19'. The year is the one that puts the day closest to
+// `reference`, so a report from late December read in January lands in the
+// previous year.
+export const parseShortDate = (text: string, reference: Date = new Date()): string | null => {
+  const m = /^(\d{1,2})\/(\d{1,2})$/.exec(text.trim());
+  if (!m) return null;
+  const dd = m[1].padStart(2, '0');
+  const mm = m[2].padStart(2, '0');
+  const year = reference.getFullYear();
+  const today = dateKeyToDayNumber(toDateKey(reference))!;
+  const candidates = [year - 1, year, year + 1]
+    .map((y) => `${y}-${mm}-${dd}`)
+    .filter(isValidDateKey);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, key) =>
+    Math.abs(dateKeyToDayNumber(key)! - today) < Math.abs(dateKeyToDayNumber(best)! - today)
+      ? key
+      : best
+  );
+};
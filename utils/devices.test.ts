@@ -0,0 +1,67 @@
+import { entry } from '@/__tests__/fixtures';
+import type { DeliveryDevice } from '@/types/oxygen';
+import { applyDevice, applyVenturiSetting, describeDevice, estimateFio2 } from '@/utils/devices';
+import { getTranslator } from '@/utils/i18n';
+
+const { t } = getTranslator('es');
+
+const fio2At = (device: DeliveryDevice, flowRate: string, fio2?: string) =>
+  estimateFio2(entry('a', { device, flowRate, fio2 }));
+
+describe('estimateFio2', () => {
+  it('adds about 4 % per L/min on a cannula, up to 45 %', () => {
+    expect(fio2At('cannula', '2')).toBe(29);
+    expect(fio2At('cannula', '10')).toBe(45);
+  });
+
+  it('scales masks over their flow range and clamps outside it', () => {
+    expect(fio2At('simple_mask', '5')).toBe(35);
+    expect(fio2At('simple_mask', '10')).toBe(55);
+    expect(fio2At('simple_mask', '3')).toBe(35);
+    expect(fio2At('non_rebreather', '10')).toBe(60);
+    expect(fio2At('non_rebreather', '15')).toBe(90);
+  });
+
+  it('reports the Venturi valve, or the one that needs the flow', () => {
+    expect(fio2At('venturi', '4', '28')).toBe(28);
+    expect(fio2At('venturi', '8')).toBe(35);
+    expect(fio2At('venturi', '5')).toBeNull();
+  });
+
+  it('cannot tell for high flow, without a flow or without a device', () => {
+    expect(fio2At('high_flow', '40')).toBeNull();
+    expect(fio2At('cannula', '')).toBeNull();
+    expect(estimateFio2(entry('a', { flowRate: '2' }))).toBeNull();
+  });
+});
+
+describe('describeDevice', () => {
+  it('marks estimated FiO2 as approximate and the valve as exact', () => {
+    expect(describeDevice(entry('a', { device: 'cannula', flowRate: '2' }), t)).toBe('CN ~29 %');
+    expect(describeDevice(entry('a', { device: 'venturi', fio2: '28' }), t)).toBe('MV 28 %');
+    expect(describeDevice(entry('a', { device: 'high_flow', flowRate: '40' }), t)).toBe('CNAF');
+    expect(describeDevice(entry('a', { flowRate: '2' }), t)).toBe('');
+  });
+});
+
+describe('applyDevice and applyVenturiSetting', () => {
+  it('bills the flow a valve needs', () => {
+    expect(applyVenturiSetting(entry('a', { flowRate: '2' }), 40)).toMatchObject({
+      device: 'venturi',
+      fio2: '40',
+      flowRate: '10',
+    });
+    const unchanged = entry('a', { flowRate: '2' });
+    expect(applyVenturiSetting(unchanged, 33)).toBe(unchanged);
+  });
+
+  it('drops the valve when the device changes', () => {
+    const venturi = entry('a', { device: 'venturi', fio2: '28', flowRate: '4' });
+    expect(applyDevice(venturi, 'simple_mask')).toMatchObject({
+      device: 'simple_mask',
+      fio2: undefined,
+      flowRate: '4',
+    });
+    expect(applyDevice(venturi, 'venturi').fio2).toBe('28');
+  });
+});
@@ -0,0 +1,95 @@
+// Oxygen delivery devices. The device sets the flow range that makes sense
+// for a row and how the inspired oxygen fraction (FiO2) is estimated from the
+// flow. Venturi masks work the other way round: the valve fixes the FiO2 and
+// the flow it needs, so picking a valve fills in the flow that is billed.
+import type { DeliveryDevice, OxygenEntry } from '@/types/oxygen';
+import { parseFlowRate } from '@/utils/billing';
+import type { Translate } from '@/utils/i18n';
+
+// Names and table abbreviations are translated: see deviceLabel and deviceShort.
+export interface DeviceInfo {
+  id: DeliveryDevice;
+  minFlow: number;
+  maxFlow: number;
+}
+
+export const DELIVERY_DEVICES: DeviceInfo[] = [
+  { id: 'cannula', minFlow: 1, maxFlow: 6 },
+  { id: 'simple_mask', minFlow: 5, maxFlow: 10 },
+  { id: 'venturi', minFlow: 2, maxFlow: 15 },
+  { id: 'non_rebreather', minFlow: 10, maxFlow: 15 },
+  { id: 'high_flow', minFlow: 10, maxFlow: 60 },
+];
+
+export const deviceLabel = (id: DeliveryDevice, t: Translate) => t(`devices.label.${id}`);
+
+// Abbreviation shown in the table cell, e.g. 'CN' for a nasal cannula.
+export const deviceShort = (id: DeliveryDevice, t: Translate) => t(`devices.short.${id}`);
+
+// FiO2 (%) of each Venturi valve and the flow (L/min) printed on it.
+export const VENTURI_SETTINGS: { fio2: number; flow: number }[] = [
+  { fio2: 24, flow: 2 },
+  { fio2: 28, flow: 4 },
+  { fio2: 31, flow: 6 },
+  { fio2: 35, flow: 8 },
+  { fio2: 40, flow: 10 },
+  { fio2: 50, flow: 12 },
+  { fio2: 60, flow: 15 },
+];
+
+export const getDevice = (id: DeliveryDevice | undefined) =>
+  DELIVERY_DEVICES.find((device) => device.id === id);
+
+export const getVenturiSetting = (fio2: string | undefined) =>
+  VENTURI_SETTINGS.find((setting) => String(setting.fio2) === fio2);
+
+/**
+ * Estimated FiO2 (%) for a row, or null when it cannot be told.
+ *
+ * Low-flow devices use the usual bedside rules: a cannula adds about 4 % per
+ * L/min over room air, a simple mask goes from 35 % at 5 L/min to 55 % at
+ * 10 and a non-rebreather from 60 % at 10 L/min to 90 % at 15. A Venturi row
+ * reports its valve. High-flow cannulas set the FiO2 on the blender, so the
+ * flow says nothing about it.
+ */
+export const estimateFio2 = (entry: OxygenEntry): number | null => {
+  const flow = parseFlowRate(entry.flowRate);
+  if (entry.device === 'venturi') {
+    const setting = getVenturiSetting(entry.fio2) ?? VENTURI_SETTINGS.find((s) => s.flow === flow);
+    return setting?.fio2 ?? null;
+  }
+  if (!flow) return null;
+  const clamp = (value: number, min: number, max: number) =>
+    Math.round(Math.min(Math.max(value, min), max));
+  switch (entry.device) {
+    case 'cannula':
+      return clamp(21 + 4 * flow, 21, 45);
+    case 'simple_mask':
+      return clamp(35 + 4 * (flow - 5), 35, 55);
+    case 'non_rebreather':
+      return clamp(60 + 6 * (flow - 10), 60, 90);
+    default:
+      return null;
+  }
+};
+
+// 'MV 28 %', 'CN ~29 %' or just 'CNAF'; empty for rows without a device.
+export const describeDevice = (entry: OxygenEntry, t: Translate): string => {
+  const device = getDevice(entry.device);
+  if (!device) return '';
+  const short = deviceShort(device.id, t);
+  const fio2 = estimateFio2(entry);
+  if (fio2 === null) return short;
+  return device.id === 'venturi' ? `${short} ${fio2} %` : `${short} ~${fio2} %`;
+};
+
+// Changing the device drops a Venturi valve that no longer applies.
+export const applyDevice = (entry: OxygenEntry, device: DeliveryDevice | undefined): OxygenEntry =>
+  device === 'venturi' ? { ...entry, device } : { ...entry, device, fio2: undefined };
+
+// Picking a valve bills the flow it needs.
+export const applyVenturiSetting = (entry: OxygenEntry, fio2: number): OxygenEntry => {
+  const setting = VENTURI_SETTINGS.find((s) => s.fio2 === fio2);
+  if (!setting) return entry;
+  return { ...entry, device: 'venturi', fio2: String(fio2), flowRate: String(setting.flow) };
+};
@@ -0,0 +1,134 @@
+import type { InsuranceType, OxygenEntry, OxygenSession, TimeField } from '@/types/oxygen';
+import type { AppliedTariff } from '@/types/tariff';
+import { EMPTY_PATIENT } from '@/utils/patient';
+import { isPressureEntry } from '@/utils/pressure';
+
+let idCounter = 0;
+
+export const createId = (prefix: string) => {
+  idCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${idCounter.toString(36)}`;
+};
+
+export const createEmptyEntry = (): OxygenEntry => ({
+  id: createId('entry'),
+  startTime: '',
+  endTime: '',
+  flowRate: '',
+});
+
+// Defaults to an E cylinder read in psi, the usual home-care setup.
+export const createPressureEntry = (): OxygenEntry => ({
+  ...createEmptyEntry(),
+  kind: 'pressure',
+  cylinderType: 'E',
+  pressureUnit: 'psi',
+  startPressure: '',
+  endPressure: '',
+});
+
+export const isEntryEmpty = (entry: OxygenEntry) =>
+  !entry.startTime &&
+  !entry.endTime &&
+  !entry.flowRate &&
+  !entry.startPressure &&
+  !entry.endPressure;
+
+// The table always ends in one blank time row to type into; filling it in
+// brings up the next.
+export const withTrailingBlank = (entries: OxygenEntry[]): OxygenEntry[] => {
+  const last = entries[entries.length - 1];
+  return last && isEntryEmpty(last) && !isPressureEntry(last)
+    ? entries
+    : [...entries, createEmptyEntry()];
+};
+
+// Adds a row above the trailing blank one, so the blank stays last.
+export const insertBeforeTrailingBlank = (entries: OxygenEntry[], entry: OxygenEntry) => {
+  const last = entries[entries.length - 1];
+  return last && isEntryEmpty(last) && !isPressureEntry(last)
+    ? [...entries.slice(0, -1), entry, last]
+    : [...entries, entry];
+};
+
+/** Blank rows left between filled ones, not counting the trailing one. */
+export const countBlankRows = (entries: OxygenEntry[]) =>
+  entries.filter((entry, i) => isEntryEmpty(entry) && i < entries.length - 1).length;
+
+/**
+ * Rows that hold something, with the number they have on screen. The share
+ * text, spreadsheets and report all list these, so a row is the same number
+ * everywhere.
+ */
+export const numberEntries = (entries: OxygenEntry[]) =>
+  entries.flatMap((entry, i) => (isEntryEmpty(entry) ? [] : [{ row: i + 1, entry }]));
+
+// Writes a time and its calendar day into row `idx`. Setting an end time also
+// opens the next row at the same instant when that row has no start yet.
+export const stampEntryTime = (
+  entries: OxygenEntry[],
+  idx: number,
+  field: TimeField,
+  time: string,
+  date: string
+): OxygenEntry[] => {
+  const dateField = field === 'startTime' ? 'startDate' : 'endDate';
+  const next = entries[idx + 1];
+  const updated = entries.map((entry, i) =>
+    i === idx ? { ...entry, [field]: time, [dateField]: date } : entry
+  );
+  if (field === 'endTime' && next && !next.startTime) {
+    updated[idx + 1] = { ...next, startTime: time, startDate: date };
+  }
+  return updated;
+};
+
+export const createSession = (
+  patientLabel: string,
+  insuranceType: InsuranceType,
+  tariff: AppliedTariff
+): OxygenSession => {
+  const now = new Date().toISOString();
+  return {
+    id: createId('session'),
+    patientLabel,
+    patient: EMPTY_PATIENT,
+    insuranceType,
+    tariff,
+    entries: [createEmptyEntry()],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const duplicateSession = (session: OxygenSession, patientLabel: string): OxygenSession => {
+  const now = new Date().toISOString();
+  return {
+    id: createId('session'),
+    patientLabel,
+    patient: session.patient,
+    insuranceType: session.insuranceType,
+    tariff: session.tariff,
+    entries: session.entries.map((entry) => ({ ...entry, id: createId('entry') })),
+    cylinders: session.cylinders,
+    prescriptionId: session.prescriptionId,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Rows loaded from an import either replace the table or follow its last
+// filled row. Either way the table still ends in a blank row.
+export const mergeImportedEntries = (
+  entries: OxygenEntry[],
+  imported: OxygenEntry[],
+  mode: 'replace' | 'append'
+): OxygenEntry[] => {
+  let merged = imported;
+  if (mode === 'append') {
+    let lastFilled = entries.length - 1;
+    while (lastFilled >= 0 && isEntryEmpty(entries[lastFilled])) lastFilled--;
+    merged = [...entries.slice(0, lastFilled + 1), ...imported, ...entries.slice(lastFilled + 1)];
+  }
+  return withTrailingBlank(merged);
+};
@@ -0,0 +1,81 @@
+import { entry, session } from '@/__tests__/fixtures';
+import type { TimeFormat } from '@/types/settings';
+import { type ExportTable, buildExportTable, toCsv } from '@/utils/export';
+import { getTranslator } from '@/utils/i18n';
+
+const saved = session([
+  entry('a', { startTime: '10:00 PM', endTime: '1:30 AM', flowRate: '2' }),
+  entry('b', {
+    startTime: '7:00 AM',
+    endTime: '9:00 AM',
+    startDate: '2026-10-20',
+    endDate: '2026-10-20',
+    flowRate: '1',
+  }),
+]);
+
+// Start and end cells of each row.
+const times = (timeFormat: TimeFormat) =>
+  buildExportTable(
+    saved,
+    'COP',
+    { scope: 'total', increment: 1 },
+    timeFormat,
+    getTranslator('es')
+  ).rows.map((row) => row.slice(1, 3));
+
+describe('buildExportTable', () => {
+  it('writes times in the chosen format', () => {
+    expect(times('12h')).toEqual([
+      ['10:00 PM', '1:30 AM'],
+      ['20/10 7:00 AM', '20/10 9:00 AM'],
+    ]);
+    expect(times('24h')).toEqual([
+      ['22:00', '01:30'],
+      ['20/10 07:00', '20/10 09:00'],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  const table: ExportTable = {
+    metadata: [
+      ['Paciente', '=HYPERLINK("http://x")'],
+      ['Factor', 0.45],
+    ],
+    columns: ['No.', 'L/min', 'Nota'],
+    rows: [
+      [1, 1.5, 'cama 3; ala B'],
+      [2, 2, 'cama 3, ala B'],
+    ],
+  };
+
+  it('uses a decimal comma and semicolons where the locale writes decimals with a comma', () => {
+    expect(toCsv(table, 'es-CO').split('\r\n')).toEqual([
+      `\uFEFFPaciente;"'=HYPERLINK(""http://x"")"`,
+      'Factor;0,45',
+      '',
+      'No.;L/min;Nota',
+      '1;1,5;"cama 3; ala B"',
+      '2;2;cama 3, ala B',
+    ]);
+  });
+
+  it('uses a decimal point and commas otherwise', () => {
+    expect(toCsv(table, 'en-US').split('\r\n')).toEqual([
+      `\uFEFFPaciente,"'=HYPERLINK(""http://x"")"`,
+      'Factor,0.45',
+      '',
+      'No.,L/min,Nota',
+      '1,1.5,cama 3; ala B',
+      '2,2,"cama 3, ala B"',
+    ]);
+  });
+
+  it('neutralises every formula character', () => {
+    const cells = ['=1+1', '+57 300', '-1', '@SUM(A1)'].map(
+      (text) => toCsv({ metadata: [], columns: [text], rows: [] }, 'en-US').split('\r\n')[1]
+    );
+    expect(cells).toEqual(["'=1+1", "'+57 300", "'-1", "'@SUM(A1)"]);
+  });
+});
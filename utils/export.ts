@@ -0,0 +1,135 @@
+// Spreadsheet exports of a session for the billing office. The table is built
+// once as typed cells and then serialised as CSV or XLSX.
+import type { OxygenSession } from '@/types/oxygen';
+import type { RoundingPolicy, TimeFormat } from '@/types/settings';
+import {
+  calculateEntryCost,
+  calculateLiters,
+  calculateMinutes,
+  displayEntryCost,
+  getSessionTotal,
+  parseFlowRate,
+  roundToIncrement,
+} from '@/utils/billing';
+import { toDateKey } from '@/utils/dates';
+import { deviceLabel, estimateFio2 } from '@/utils/devices';
+import { numberEntries } from '@/utils/entries';
+import { describeRounding, formatEntryEnd, formatEntryStart } from '@/utils/format';
+import type { Translate, Translator } from '@/utils/i18n';
+import { describePatient } from '@/utils/patient';
+import { createXlsx, type XlsxCell } from '@/utils/xlsx';
+
+export type ExportCell = XlsxCell;
+
+export interface ExportTable {
+  metadata: [string, ExportCell][];
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+export const CSV_MIME_TYPE = 'text/csv';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Keeps exported numbers free of float noise such as 0.30000000000000004.
+const toFixedNumber = (value: number) => roundToIncrement(value, 0.01);
+
+// Non-empty rows keep the row number they have on screen, so the billing
+// office can point back to a specific line. Times are in the chosen format
+// and labels are written with `i18n`, the report language.
+export const buildExportTable = (
+  session: OxygenSession,
+  currency: string,
+  rounding: RoundingPolicy,
+  timeFormat: TimeFormat,
+  i18n: Translator
+): ExportTable => {
+  const { t } = i18n;
+  const { tariff } = session;
+  const rows = numberEntries(session.entries).map(({ row, entry }): ExportCell[] => {
+    const cost = displayEntryCost(calculateEntryCost(entry, tariff.factor), rounding);
+    return [
+      row,
+      formatEntryStart(entry, timeFormat),
+      formatEntryEnd(entry, timeFormat),
+      parseFlowRate(entry.flowRate) ?? entry.flowRate,
+      entry.device ? deviceLabel(entry.device, t) : '',
+      estimateFio2(entry) ?? '',
+      calculateMinutes(entry),
+      toFixedNumber(calculateLiters(entry)),
+      toFixedNumber(cost),
+    ];
+  });
+
+  return {
+    metadata: [
+      [t('document.patient'), session.patientLabel],
+      ...describePatient(session.patient, t),
+      [t('document.insurance'), tariff.label],
+      [t('document.factor'), tariff.factor],
+      [t('document.effectiveFrom'), tariff.effectiveFrom],
+      [t('document.currency'), currency],
+      [t('document.rounding'), describeRounding(rounding, t)],
+      [t('document.total'), toFixedNumber(getSessionTotal(session, rounding))],
+    ],
+    columns: [
+      t('columns.number'),
+      t('columns.start'),
+      t('columns.end'),
+      t('columns.flow'),
+      t('columns.device'),
+      t('columns.fio2'),
+      t('columns.minutes'),
+      t('columns.liters'),
+      t('columns.cost'),
+    ],
+    rows,
+  };
+};
+
+// Metadata block, a blank line, then the table with its header.
+const toGrid = (table: ExportTable): ExportCell[][] => [
+  ...table.metadata,
+  [],
+  table.columns,
+  ...table.rows,
+];
+
+// CSV in the dialect Excel expects under the report's locale: with a decimal
+// comma (Spanish, Portuguese) fields are separated by ';', otherwise by ','.
+// No thousands separators. The BOM makes Excel read the file as UTF-8 so
+// accents survive.
+const decimalSeparator = (locale: string) =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+
+const csvCell = (value: ExportCell, decimal: string, separator: string) => {
+  if (typeof value === 'number') return String(value).replace('.', decimal);
+  // Text starting with a formula character is neutralised so a patient label
+  // like '=HYPERLINK(...)' is shown rather than evaluated.
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return text.includes(separator) || /["\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ExportTable, locale: string): string => {
+  const decimal = decimalSeparator(locale);
+  const separator = decimal === ',' ? ';' : ',';
+  return (
+    '\uFEFF' +
+    toGrid(table)
+      .map((row) => row.map((cell) => csvCell(cell, decimal, separator)).join(separator))
+      .join('\r\n')
+  );
+};
+
+export const toXlsx = (table: ExportTable, t: Translate): Uint8Array =>
+  createXlsx(toGrid(table), t('document.sheet'));
+
+// e.g. 'oxigeno-juan-perez-2026-10-19.csv'
+export const exportFileName = (session: OxygenSession, extension: string, t: Translate) => {
+  const slug = session.patientLabel
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${t('document.fileName')}-${slug ? `${slug}-` : ''}${toDateKey(new Date(session.createdAt))}.${extension}`;
+};
@@ -0,0 +1,71 @@
+import type { OxygenEntry } from '@/types/oxygen';
+import type { RoundingPolicy, TimeFormat } from '@/types/settings';
+import { displayTime } from '@/utils/billing';
+import { formatShortDate } from '@/utils/dates';
+import type { Translate } from '@/utils/i18n';
+import { formatPressure, isPressureEntry } from '@/utils/pressure';
+
+export const DEFAULT_CURRENCY = 'COP';
+
+// Show decimals only when the rounding policy keeps centavos. `locale` is the
+// translator's, so amounts read naturally in each language.
+export const formatCurrency = (
+  amount: number,
+  currency: string,
+  rounding: RoundingPolicy,
+  locale: string
+) => {
+  const digits = rounding.increment < 1 ? 2 : 0;
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+};
+
+// Liters to one decimal, for the table and its totals.
+export const litersFormatter = (locale: string) =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: 1 });
+
+export const isValidCurrency = (currency: string) => {
+  if (!/^[A-Z]{3}$/.test(currency)) return false;
+  try {
+    new Intl.NumberFormat(undefined, { style: 'currency', currency });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const INCREMENT_KEYS = {
+  0.01: 'rounding.increment.cent',
+  1: 'rounding.increment.unit',
+  100: 'rounding.increment.hundred',
+} as const;
+
+// e.g. 'Redondeo al peso sobre el total'
+export const describeRounding = (rounding: RoundingPolicy, t: Translate) =>
+  t('rounding.description', {
+    increment: t(INCREMENT_KEYS[rounding.increment]),
+    scope: t(rounding.scope === 'row' ? 'rounding.scope.row' : 'rounding.scope.total'),
+  });
+
+// Time cell as shown in reports, in the chosen format: prefixed with dd/mm
+// when the row is dated.
+export const formatEntryTime = (time: string, date?: string, format: TimeFormat = '12h') => {
+  const shown = displayTime(time, format);
+  return shown && date ? `${formatShortDate(date)} ${shown}` : shown;
+};
+
+// Start and end cells of any row: the (dated) time, or the manometer reading
+// for pressure rows.
+export const formatEntryStart = (entry: OxygenEntry, format: TimeFormat = '12h') =>
+  isPressureEntry(entry)
+    ? formatPressure(entry, 'startPressure')
+    : formatEntryTime(entry.startTime, entry.startDate, format);
+
+export const formatEntryEnd = (entry: OxygenEntry, format: TimeFormat = '12h') =>
+  isPressureEntry(entry)
+    ? formatPressure(entry, 'endPressure')
+    : formatEntryTime(entry.endTime, entry.endDate, format);
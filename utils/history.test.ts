@@ -0,0 +1,87 @@
+import { entry, session } from '@/__tests__/fixtures';
+import type { OxygenSession } from '@/types/oxygen';
+import {
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  type SessionHistory,
+  recordStep,
+  redoStep,
+  undoStep,
+} from '@/utils/history';
+
+const withFlow = (flowRate: string) => session([entry('a', { flowRate })]);
+
+// Applies edits to the flow in turn, recording each one under its key.
+const edit = (flows: [string, string?][], start = withFlow('')) =>
+  flows.reduce<{ history: SessionHistory; current: OxygenSession }>(
+    ({ history, current }, [flowRate, key]) => {
+      const next = withFlow(flowRate);
+      return { history: recordStep(history, current, next, key), current: next };
+    },
+    { history: EMPTY_HISTORY, current: start }
+  );
+
+const flowOf = (s: OxygenSession) => s.entries[0].flowRate;
+
+describe('session history', () => {
+  it('undoes and redoes an edit', () => {
+    const { history, current } = edit([['2']]);
+    const undone = undoStep(history, current)!;
+    expect(flowOf(undone.session)).toBe('');
+    const redone = redoStep(undone.history, undone.session)!;
+    expect(flowOf(redone.session)).toBe('2');
+    expect(redone.history.future).toEqual([]);
+  });
+
+  it('has nothing to undo or redo at first', () => {
+    expect(undoStep(EMPTY_HISTORY, withFlow(''))).toBeNull();
+    expect(redoStep(EMPTY_HISTORY, withFlow(''))).toBeNull();
+  });
+
+  it('undoes consecutive edits with the same key together', () => {
+    const { history, current } = edit([
+      ['1', 'a-flowRate'],
+      ['1.5', 'a-flowRate'],
+      ['3', 'b-flowRate'],
+    ]);
+    expect(history.past).toHaveLength(2);
+    const first = undoStep(history, current)!;
+    expect(flowOf(first.session)).toBe('1.5');
+    expect(flowOf(undoStep(first.history, first.session)!.session)).toBe('');
+  });
+
+  it('starts a new step for the same key after an undo', () => {
+    const { history, current } = edit([['1', 'a-flowRate']]);
+    const undone = undoStep(history, current)!;
+    const next = withFlow('2');
+    expect(recordStep(undone.history, undone.session, next, 'a-flowRate').past).toHaveLength(1);
+  });
+
+  it(`keeps the last ${HISTORY_LIMIT} steps`, () => {
+    const flows = Array.from({ length: HISTORY_LIMIT + 10 }, (_, i): [string] => [String(i + 1)]);
+    const { history } = edit(flows);
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    // The step back from edit 11 is the oldest one left.
+    expect(history.past[0].state.entries[0].flowRate).toBe('10');
+  });
+
+  it('drops what could be redone once a new edit is made', () => {
+    const { history, current } = edit([['1'], ['2']]);
+    const undone = undoStep(history, current)!;
+    expect(undone.history.future).toHaveLength(1);
+    const edited = recordStep(undone.history, undone.session, withFlow('5'));
+    expect(edited.future).toEqual([]);
+    expect(redoStep(edited, withFlow('5'))).toBeNull();
+  });
+
+  it('only brings back the patient when the step changed it', () => {
+    const start = withFlow('');
+    const relabelled = { ...withFlow('2'), patientLabel: 'Luis Gómez' };
+    // An import that replaced the label along with the rows.
+    const imported = recordStep(EMPTY_HISTORY, start, relabelled);
+    expect(undoStep(imported, relabelled)!.session.patientLabel).toBe('Ana Pérez');
+    // A table edit, with the label changed afterwards.
+    const tableOnly = recordStep(EMPTY_HISTORY, start, withFlow('2'));
+    expect(undoStep(tableOnly, relabelled)!.session.patientLabel).toBe('Luis Gómez');
+  });
+});
@@ -0,0 +1,85 @@
+// Undo/redo for table edits. Each step keeps the rows and the fields that
+// only table edits change (insurance, tariff, cylinders, the live row). The
+// patient details and label are edited without recording a step, so a step
+// only keeps them when its own edit changed them, as replacing the rows with
+// an imported report does. History lives in memory only.
+import type { OxygenSession } from '@/types/oxygen';
+
+export const HISTORY_LIMIT = 50;
+
+type TrackedState = Pick<
+  OxygenSession,
+  'entries' | 'insuranceType' | 'tariff' | 'liveEntryId' | 'cylinders'
+> &
+  Partial<Pick<OxygenSession, 'patientLabel' | 'patient'>>;
+
+interface HistoryStep {
+  state: TrackedState;
+  // Consecutive edits with the same key, like keystrokes in one cell, are
+  // undone together.
+  key?: string;
+}
+
+export interface SessionHistory {
+  past: HistoryStep[];
+  future: HistoryStep[];
+}
+
+export const EMPTY_HISTORY: SessionHistory = { past: [], future: [] };
+
+const track = (session: OxygenSession, withPatient: boolean): TrackedState => ({
+  entries: session.entries,
+  insuranceType: session.insuranceType,
+  tariff: session.tariff,
+  liveEntryId: session.liveEntryId,
+  cylinders: session.cylinders,
+  ...(withPatient && { patientLabel: session.patientLabel, patient: session.patient }),
+});
+
+const keepsPatient = (step: HistoryStep) => 'patient' in step.state;
+
+/**
+ * Records `before` as the state to return to from `after`, dropping anything
+ * redoable.
+ */
+export const recordStep = (
+  history: SessionHistory,
+  before: OxygenSession,
+  after: OxygenSession,
+  key?: string
+): SessionHistory => {
+  const last = history.past[history.past.length - 1];
+  if (key && last?.key === key && history.future.length === 0) return history;
+  const withPatient =
+    before.patient !== after.patient || before.patientLabel !== after.patientLabel;
+  return {
+    past: [...history.past, { state: track(before, withPatient), key }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+};
+
+/** Steps back from `current`, or returns null when there is nothing to undo. */
+export const undoStep = (history: SessionHistory, current: OxygenSession) => {
+  const step = history.past[history.past.length - 1];
+  if (!step) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { state: track(current, keepsPatient(step)) }],
+    },
+    session: { ...current, ...step.state },
+  };
+};
+
+/** Reapplies the last undone step, or returns null when there is none. */
+export const redoStep = (history: SessionHistory, current: OxygenSession) => {
+  const step = history.future[history.future.length - 1];
+  if (!step) return null;
+  return {
+    history: {
+      past: [...history.past, { state: track(current, keepsPatient(step)) }],
+      future: history.future.slice(0, -1),
+    },
+    session: { ...current, ...step.state },
+  };
+};
@@ -0,0 +1,81 @@
+// Translation: message catalogs per language, looked up by dotted key
+// ('index.title'), with '{name}' placeholders and one/other plurals. Spanish
+// is the source catalog and the fallback for anything missing.
+import en from '@/locales/en';
+import es, { type Messages } from '@/locales/es';
+import pt from '@/locales/pt';
+import type { Language } from '@/types/settings';
+
+interface Plural {
+  one: string;
+  other: string;
+}
+
+type Paths<T> = {
+  [K in keyof T & string]: T[K] extends string | Plural ? K : `${K}.${Paths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = Paths<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface Translator {
+  language: Language;
+  // BCP 47 tag for Intl number and date formatting.
+  locale: string;
+  t: Translate;
+}
+
+export const DEFAULT_LANGUAGE: Language = 'es';
+
+// Each language's own name, so it can be found whatever the current one.
+export const LANGUAGES: { id: Language; label: string; locale: string }[] = [
+  { id: 'es', label: 'Español', locale: 'es-CO' },
+  { id: 'en', label: 'English', locale: 'en-US' },
+  { id: 'pt', label: 'Português', locale: 'pt-BR' },
+];
+
+const CATALOGS: Record<Language, Messages> = { es, en, pt };
+
+const lookup = (catalog: Messages, key: string): unknown =>
+  key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    catalog
+  );
+
+const interpolate = (text: string, params?: MessageParams) =>
+  params ? text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : text;
+
+const createTranslator = (language: Language): Translator => {
+  const locale = LANGUAGES.find((l) => l.id === language)!.locale;
+  const plurals = new Intl.PluralRules(locale);
+  const t: Translate = (key, params) => {
+    let entry = lookup(CATALOGS[language], key) ?? lookup(es, key);
+    if (entry && typeof entry === 'object') {
+      const count = Number(params?.count ?? 0);
+      entry = plurals.select(count) === 'one' ? (entry as Plural).one : (entry as Plural).other;
+    }
+    return typeof entry === 'string' ? interpolate(entry, params) : key;
+  };
+  return { language, locale, t };
+};
+
+const TRANSLATORS = Object.fromEntries(
+  LANGUAGES.map(({ id }) => [id, createTranslator(id)])
+) as Record<Language, Translator>;
+
+/** The translator for a language; the same object every time. */
+export const getTranslator = (language: Language) => TRANSLATORS[language];
+
+/** The device language when it is one we translate, else Spanish. */
+export const detectLanguage = (): Language => {
+  const tag = Intl.DateTimeFormat().resolvedOptions().locale ?? '';
+  const base = tag.split('-')[0].toLowerCase();
+  return LANGUAGES.find((l) => l.id === base)?.id ?? DEFAULT_LANGUAGE;
+};
+
+/** A message in every language, for reading back text written in any of them. */
+export const translateAll = (key: MessageKey) =>
+  LANGUAGES.map(({ id }) => TRANSLATORS[id].t(key));
@@ -0,0 +1,165 @@
+import { entry, session } from '@/__tests__/fixtures';
+import { getTranslator } from '@/utils/i18n';
+import { parseImportText } from '@/utils/importText';
+import { EMPTY_PATIENT } from '@/utils/patient';
+import { buildShareMessage } from '@/utils/share';
+import { defaultShifts } from '@/utils/shifts';
+import { DEFAULT_TARIFFS } from '@/utils/tariffs';
+
+const reference = new Date(2026, 9, 19);
+
+const parse = (lines: string[]) => parseImportText(lines.join('\n'), [], reference);
+
+describe('parseImportText', () => {
+  it.each([
+    [
+      'es',
+      [
+        'Subtotales por turno (antes de redondear):',
+        'Mañana (7:00 AM–1:00 PM): 60 min · 120 L · $ 120',
+        'Noche (7:00 PM–7:00 AM): 0 min · 0 L · $ 0',
+        'Por presión (sin hora): 30 min · 60 L · $ 60',
+      ],
+    ],
+    [
+      'en',
+      [
+        'Subtotals by shift (before rounding):',
+        'Day shift (7:00–19:00): 60 min · 120 L · $120',
+        'By pressure (no time): 30 min · 60 L · $60',
+      ],
+    ],
+    [
+      'pt',
+      [
+        'Subtotais por turno (antes de arredondar):',
+        'Manhã (07:00–13:00): 60 min · 120 L · R$ 120',
+        'Por pressão (sem horário): 30 min · 60 L · R$ 60',
+      ],
+    ],
+  ])('skips the shift subtotals of a %s report', (_, subtotals) => {
+    const result = parse(['1 | 8:00 AM | 9:00 AM | 2 | 60 | 120 | $ 120', ...subtotals]);
+    expect(result.entries).toHaveLength(1);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it.each(['es', 'en', 'pt'] as const)('skips the pressure lines of a %s report', (language) => {
+    const { t } = getTranslator(language);
+    const result = parse([
+      '1 | 2000 psi (E) | 1500 psi | 2 | 71 | 142 | $ 142',
+      t('share.litersByKind', { time: '0', pressure: '142' }),
+      t('pressure.note'),
+    ]);
+    expect(result.entries).toHaveLength(1);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('keeps reading free-text rows', () => {
+    const result = parse(['7:00am-9:30am 2L']);
+    expect(result.entries).toMatchObject([
+      { startTime: '7:00 AM', endTime: '9:30 AM', flowRate: '2' },
+    ]);
+  });
+});
+
+describe('reading back a shared report', () => {
+  // A timed row, one across midnight with its dates, a pressure row and the
+  // trailing blank, billed on the contributory regime.
+  const shared = session(
+    [
+      entry('a', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' }),
+      entry('b', {
+        startTime: '10:00 PM',
+        startDate: '2026-10-19',
+        endTime: '2:00 AM',
+        endDate: '2026-10-20',
+        flowRate: '1.5',
+      }),
+      entry('c', {
+        kind: 'pressure',
+        cylinderType: 'E',
+        pressureUnit: 'psi',
+        startPressure: '2000',
+        endPressure: '1000',
+        flowRate: '2',
+      }),
+      entry('blank'),
+    ],
+    {
+      patient: { ...EMPTY_PATIENT, documentNumber: '1020304050', bed: '302B', prescribedFlow: '2' },
+      tariff: {
+        rateId: 'contributivo-1',
+        label: 'Contributivo',
+        factor: 0.45,
+        effectiveFrom: '2000-01-01',
+      },
+    }
+  );
+
+  it.each([
+    ['es', '12h'],
+    ['en', '24h'],
+    ['pt', '12h'],
+  ] as const)('reads a %s report in %s time', (language, timeFormat) => {
+    const i18n = getTranslator(language);
+    const message = buildShareMessage(shared, {
+      currency: 'COP',
+      rounding: { scope: 'total', increment: 1 },
+      timeFormat,
+      shifts: defaultShifts(i18n.t),
+      i18n,
+    });
+    const result = parseImportText(message, DEFAULT_TARIFFS, reference);
+
+    expect(result.skipped).toEqual([]);
+    expect(result.entries).toMatchObject([
+      { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' },
+      {
+        startTime: '10:00 PM',
+        startDate: '2026-10-19',
+        endTime: '2:00 AM',
+        endDate: '2026-10-20',
+        flowRate: '1.5',
+      },
+      {
+        kind: 'pressure',
+        cylinderType: 'E',
+        pressureUnit: 'psi',
+        startPressure: '2000',
+        endPressure: '1000',
+        flowRate: '2',
+      },
+    ]);
+    expect(result.patientLabel).toBe('Ana Pérez');
+    expect(result.patient).toEqual({
+      documentType: 'CC',
+      documentNumber: '1020304050',
+      bed: '302B',
+      prescribedFlow: '2',
+    });
+    expect(result.regimeId).toBe('contributivo');
+    expect(result.factor).toBe(0.45);
+  });
+
+  it('reads reports from before the liters column, with the regime id as its name', () => {
+    const result = parse([
+      'No. | Inicio | Fin | L/min | Min | Costo',
+      '1 | 8:00 AM | 9:00 AM | 2 | 60 | $ 27',
+      'Factor aplicado: 0.25 (subsidiado)',
+    ]);
+    expect(result.entries).toMatchObject([
+      { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' },
+    ]);
+    expect(result.skipped).toEqual([]);
+    expect(parseImportText('Factor aplicado: 0.25 (subsidiado)', DEFAULT_TARIFFS).regimeId).toBe(
+      'subsidiado'
+    );
+  });
+
+  it('matches a bare factor to the one regime that uses it', () => {
+    expect(parseImportText('Factor aplicado: 0,45', DEFAULT_TARIFFS)).toMatchObject({
+      regimeId: 'contributivo',
+      factor: 0.45,
+    });
+  });
+});
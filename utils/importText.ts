@@ -0,0 +1,211 @@
+// Parses text pasted back into the app: the report produced by the WhatsApp
+// share (the 'No. | Inicio | Fin | L/min | ...' table, time or pressure rows,
+// plus the 'Factor aplicado' line) or looser lists such as '7:00am-9:30am 2L'.
+// Shared reports are read back whichever language they were written in.
+import type { OxygenEntry, PatientInfo, PressureUnit } from '@/types/oxygen';
+import type { TariffRegime } from '@/types/tariff';
+import { formatClock, parseFlowRate, parseTime } from '@/utils/billing';
+import { parseShortDate } from '@/utils/dates';
+import { createId, createPressureEntry } from '@/utils/entries';
+import { type MessageKey, translateAll } from '@/utils/i18n';
+import { parsePatientLine } from '@/utils/patient';
+import { getCylinderType } from '@/utils/pressure';
+import { getEffectiveRate, parseFactor } from '@/utils/tariffs';
+
+export interface SkippedLine {
+  line: number;
+  text: string;
+}
+
+export interface ImportResult {
+  entries: OxygenEntry[];
+  patientLabel?: string;
+  patient: Partial<PatientInfo>;
+  // Regime named by the 'Factor aplicado' line, when it matches the catalog.
+  regimeId?: string;
+  factor?: number;
+  skipped: SkippedLine[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a line starting with any of `texts`, ignoring case.
+const startsWithAny = (texts: string[]) =>
+  new RegExp(`^(?:${[...new Set(texts)].map(escapeRegExp).join('|')})`, 'i');
+
+const TIME = String.raw`\d{1,2}(?::\d{2})?\s*(?:[ap]\.?\s*m\.?)?`;
+
+// Report lines that carry no rows and are not worth reporting as unparsed.
+const IGNORED_LINES = [
+  /^-+$/,
+  /^no\.\s*\|/i,
+  startsWithAny(translateAll('share.title')),
+  /^total/i,
+  // The rounding line, up to its first placeholder.
+  startsWithAny(translateAll('rounding.description').map((text) => text.split('{')[0].trim())),
+  // Liters split by time and pressure rows, and the note on how pressure rows
+  // are measured.
+  startsWithAny(translateAll('share.litersByKind').map((text) => text.split('{')[0].trim())),
+  startsWithAny(translateAll('pressure.note')),
+  // Shift subtotals: their heading, one 'Mañana (7:00 AM–1:00 PM): ...' line
+  // per shift (labels are the user's own, so they are matched by the range),
+  // and the bucket for pressure rows.
+  startsWithAny(translateAll('share.shiftSubtotals')),
+  new RegExp(String.raw`^[^|]*\(${TIME}–${TIME}\):`, 'i'),
+  startsWithAny(translateAll('shifts.unplaced').map((text) => `${text}:`)),
+];
+
+// 'Paciente: ...' and the like, with the label in any language.
+const labelLine = (key: MessageKey, rest: string) =>
+  new RegExp(`${startsWithAny(translateAll(key)).source}:${rest}`, 'i');
+
+const PATIENT_LINE = labelLine('document.patient', String.raw`\s*(.*)$`);
+const FACTOR_LINE = labelLine('document.factor', String.raw`\s*([\d.,]+)\s*(?:\(([^,)]+))?`);
+
+const SHORT_DATE = String.raw`\d{1,2}\/\d{1,2}`;
+const FREE_TEXT_ROW = new RegExp(
+  String.raw`^(?:[-*•]\s*)?(?:(${SHORT_DATE})\s+)?(${TIME})\s*(?:-|–|a|hasta|to|até)\s*(?:(${SHORT_DATE})\s+)?(${TIME})` +
+    String.raw`(?:\s*[,;:]?\s*(\d+(?:[.,]\d+)?)\s*(?:l(?:\s*\/\s*min|pm|itros?)?)?)?\.?$`,
+  'i'
+);
+
+// Brings any accepted spelling ('7am', '7:00 a.m.', '19:30') to the table's
+// own format ('7:00 AM').
+const normalizeTime = (text: string): string | null => {
+  const minutes = parseTime(text);
+  return minutes === null ? null : formatClock(minutes);
+};
+
+// A report cell: '-' for blank, or a time optionally prefixed by 'dd/mm'.
+const parseTimeCell = (cell: string, reference: Date) => {
+  if (cell === '-' || cell === '') return { time: '' };
+  const m = new RegExp(String.raw`^(?:(${SHORT_DATE})\s+)?(.+)$`).exec(cell);
+  const time = m && normalizeTime(m[2]);
+  if (!time) return null;
+  const date = m[1] ? parseShortDate(m[1], reference) : undefined;
+  if (date === null) return null;
+  return { time, date };
+};
+
+const buildEntry = (
+  start: { time: string; date?: string },
+  end: { time: string; date?: string },
+  flowRate: string
+): OxygenEntry => ({
+  id: createId('entry'),
+  startTime: start.time,
+  endTime: end.time,
+  flowRate,
+  ...(start.date && { startDate: start.date }),
+  ...(end.date && { endDate: end.date }),
+});
+
+// Pressure rows are reported as '2000 psi (E)' | '1500 psi'.
+const PRESSURE_CELL = /^(\d+(?:[.,]\d+)?)\s*(psi|bar)(?:\s*\((\w+)\))?$/i;
+
+const parsePressureRow = (startCell: string, endCell: string, flowRate: string): OxygenEntry | null => {
+  const start = PRESSURE_CELL.exec(startCell);
+  const end = PRESSURE_CELL.exec(endCell);
+  if (!start || !end) return null;
+  const cylinderType = start[3]?.toUpperCase() ?? 'E';
+  if (!getCylinderType(cylinderType)) return null;
+  return {
+    ...createPressureEntry(),
+    cylinderType,
+    pressureUnit: start[2].toLowerCase() as PressureUnit,
+    startPressure: start[1],
+    endPressure: end[1],
+    flowRate,
+  };
+};
+
+const parseReportRow = (line: string, reference: Date): OxygenEntry | null => {
+  const cells = line.split('|').map((cell) => cell.trim());
+  if (cells.length < 4 || !/^\d+$/.test(cells[0])) return null;
+  const flowRate = cells[3] === '-' ? '' : cells[3];
+  if (flowRate && parseFlowRate(flowRate) === null) return null;
+  const pressure = parsePressureRow(cells[1], cells[2], flowRate);
+  if (pressure) return pressure;
+  const start = parseTimeCell(cells[1], reference);
+  const end = parseTimeCell(cells[2], reference);
+  if (!start || !end) return null;
+  return buildEntry(start, end, flowRate);
+};
+
+const parseFreeTextRow = (line: string, reference: Date): OxygenEntry | null => {
+  const m = FREE_TEXT_ROW.exec(line);
+  if (!m) return null;
+  const startTime = normalizeTime(m[2]);
+  const endTime = normalizeTime(m[4]);
+  if (!startTime || !endTime) return null;
+  const startDate = m[1] ? parseShortDate(m[1], reference) : undefined;
+  const endDate = m[3] ? parseShortDate(m[3], reference) : startDate;
+  if (startDate === null || endDate === null) return null;
+  return buildEntry(
+    { time: startTime, date: startDate },
+    { time: endTime, date: endDate },
+    m[5] ?? ''
+  );
+};
+
+// The parenthesis holds the regime label ('Contributivo, vigente desde ...')
+// or, in reports from older versions, its id. A bare factor is matched
+// against the rates in force when exactly one regime uses it.
+const matchRegime = (regimes: TariffRegime[], name: string | undefined, factor: number) => {
+  if (name) {
+    const wanted = name.trim().toLowerCase();
+    const byName = regimes.find(
+      (r) => r.id.toLowerCase() === wanted || r.label.toLowerCase() === wanted
+    );
+    if (byName) return byName.id;
+  }
+  const byFactor = regimes.filter((r) => getEffectiveRate(r)?.factor === factor);
+  return byFactor.length === 1 ? byFactor[0].id : undefined;
+};
+
+export const parseImportText = (
+  text: string,
+  regimes: TariffRegime[],
+  reference: Date = new Date()
+): ImportResult => {
+  const result: ImportResult = { entries: [], patient: {}, skipped: [] };
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || IGNORED_LINES.some((pattern) => pattern.test(line))) return;
+
+    const patient = PATIENT_LINE.exec(line);
+    if (patient) {
+      result.patientLabel = patient[1].trim() || undefined;
+      return;
+    }
+
+    const field = /^([^:|]+):\s*(.*)$/.exec(line);
+    const patientField = field && parsePatientLine(field[1], field[2]);
+    if (patientField) {
+      Object.assign(result.patient, patientField);
+      return;
+    }
+
+    const factorLine = FACTOR_LINE.exec(line);
+    if (factorLine) {
+      const factor = parseFactor(factorLine[1]);
+      if (factor !== null) {
+        result.factor = factor;
+        result.regimeId = matchRegime(regimes, factorLine[2], factor);
+        return;
+      }
+    }
+
+    const entry = line.includes('|')
+      ? parseReportRow(line, reference)
+      : parseFreeTextRow(line, reference);
+    if (entry) {
+      result.entries.push(entry);
+    } else {
+      result.skipped.push({ line: i + 1, text: line });
+    }
+  });
+
+  return result;
+};
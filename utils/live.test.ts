@@ -0,0 +1,92 @@
+import { entry, session } from '@/__tests__/fixtures';
+import { startLiveEntry, stopLiveEntry, switchLiveFlow } from '@/utils/live';
+
+const at = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes);
+
+// Row 1 timed live from 8:00 on a Venturi valve, then the trailing blank.
+const timing = (next = entry('blank')) =>
+  session(
+    [
+      entry('live', {
+        startTime: '8:00 AM',
+        startDate: '2026-10-19',
+        flowRate: '4',
+        device: 'venturi',
+        fio2: '28',
+        cylinderId: 'cyl-1',
+      }),
+      next,
+    ],
+    { liveEntryId: 'live' }
+  );
+
+describe('startLiveEntry', () => {
+  it('stamps the start and times the row', () => {
+    const started = startLiveEntry(session([entry('a')]), 'a', at(7, 45));
+    expect(started.liveEntryId).toBe('a');
+    expect(started.entries[0]).toMatchObject({ startTime: '7:45 AM', startDate: '2026-10-19' });
+  });
+
+  it('leaves the session alone while another row is live, or for an unknown row', () => {
+    const live = timing();
+    expect(startLiveEntry(live, 'blank', at(9))).toBe(live);
+    const idle = session([entry('a')]);
+    expect(startLiveEntry(idle, 'missing', at(9))).toBe(idle);
+  });
+});
+
+describe('stopLiveEntry', () => {
+  it('stamps the end and chains it into a blank next row', () => {
+    const stopped = stopLiveEntry(timing(), at(9, 30));
+    expect(stopped.liveEntryId).toBeUndefined();
+    expect(stopped.entries[0]).toMatchObject({ endTime: '9:30 AM', endDate: '2026-10-19' });
+    expect(stopped.entries[1]).toMatchObject({ startTime: '9:30 AM', startDate: '2026-10-19' });
+  });
+
+  it('keeps the start a next row already has', () => {
+    const stopped = stopLiveEntry(timing(entry('next', { startTime: '10:00 AM' })), at(9, 30));
+    expect(stopped.entries[1].startTime).toBe('10:00 AM');
+  });
+
+  it('just clears a live id whose row is gone', () => {
+    const orphan = session([entry('a')], { liveEntryId: 'gone' });
+    expect(stopLiveEntry(orphan, at(9))).toEqual({ ...orphan, liveEntryId: undefined });
+  });
+});
+
+describe('switchLiveFlow', () => {
+  it('goes on timing in the blank next row, on the same valve and cylinder', () => {
+    const switched = switchLiveFlow(timing(), '6', at(9));
+    expect(switched.entries).toHaveLength(2);
+    expect(switched.entries[0]).toMatchObject({ endTime: '9:00 AM', flowRate: '4' });
+    expect(switched.entries[1]).toMatchObject({
+      id: 'blank',
+      startTime: '9:00 AM',
+      startDate: '2026-10-19',
+      flowRate: '6',
+      device: 'venturi',
+      fio2: '28',
+      cylinderId: 'cyl-1',
+    });
+    expect(switched.liveEntryId).toBe('blank');
+  });
+
+  it('inserts a row when the next one is taken', () => {
+    const taken = entry('next', { startTime: '11:00 AM', endTime: '12:00 PM', flowRate: '2' });
+    const switched = switchLiveFlow(timing(taken), '6', at(9));
+    expect(switched.entries.map((e) => e.id)).toEqual(['live', switched.liveEntryId, 'next']);
+    expect(switched.entries[1]).toMatchObject({
+      startTime: '9:00 AM',
+      endTime: '',
+      flowRate: '6',
+      device: 'venturi',
+      fio2: '28',
+    });
+    expect(switched.entries[2]).toBe(taken);
+  });
+
+  it('does nothing without a live row', () => {
+    const idle = session([entry('a')]);
+    expect(switchLiveFlow(idle, '6', at(9))).toBe(idle);
+  });
+});
@@ -0,0 +1,64 @@
+// Live timing: a row is started at "now", shows its running duration while
+// the session's liveEntryId points at it, and is closed at "now". Only the
+// stamped start is stored, so a running row survives backgrounding and
+// restarts with no timer state of its own.
+import type { OxygenEntry, OxygenSession } from '@/types/oxygen';
+import { formatTime } from '@/utils/billing';
+import { toDateKey } from '@/utils/dates';
+import { createEmptyEntry, stampEntryTime } from '@/utils/entries';
+
+export const getLiveEntry = (session: OxygenSession): OxygenEntry | undefined =>
+  session.liveEntryId ? session.entries.find((e) => e.id === session.liveEntryId) : undefined;
+
+// The live row as it would be stored if it were stopped at `now`.
+export const previewLiveEntry = (entry: OxygenEntry, now: Date): OxygenEntry => ({
+  ...entry,
+  endTime: formatTime(now),
+  endDate: toDateKey(now),
+});
+
+export const startLiveEntry = (session: OxygenSession, entryId: string, now: Date): OxygenSession => {
+  const idx = session.entries.findIndex((e) => e.id === entryId);
+  if (getLiveEntry(session) || idx === -1) return session;
+  return {
+    ...session,
+    entries: stampEntryTime(session.entries, idx, 'startTime', formatTime(now), toDateKey(now)),
+    liveEntryId: entryId,
+  };
+};
+
+export const stopLiveEntry = (session: OxygenSession, now: Date): OxygenSession => {
+  const idx = session.entries.findIndex((e) => e.id === session.liveEntryId);
+  if (idx === -1) return { ...session, liveEntryId: undefined };
+  return {
+    ...session,
+    entries: stampEntryTime(session.entries, idx, 'endTime', formatTime(now), toDateKey(now)),
+    liveEntryId: undefined,
+  };
+};
+
+// Closes the live row at `now` and keeps timing on a row with the new flow.
+// Stopping already chains the end time into the next row's start when that
+// row is free; otherwise a fresh row is inserted right after.
+export const switchLiveFlow = (session: OxygenSession, flowRate: string, now: Date): OxygenSession => {
+  const liveId = session.liveEntryId;
+  const idx = session.entries.findIndex((e) => e.id === liveId);
+  if (idx === -1) return session;
+  const time = formatTime(now);
+  const date = toDateKey(now);
+  const stopped = stopLiveEntry(session, now);
+  const chained = stopped.entries[idx + 1];
+  const reusable =
+    chained && !chained.endTime && chained.startTime === time && chained.startDate === date;
+  // The new flow keeps drawing from the same cylinder through the same
+  // device, with the same Venturi valve.
+  const { cylinderId, device, fio2 } = session.entries[idx];
+  const carried = { flowRate, cylinderId, device, fio2 };
+  const next: OxygenEntry = reusable
+    ? { ...chained, ...carried }
+    : { ...createEmptyEntry(), startTime: time, startDate: date, ...carried };
+  const entries = reusable
+    ? stopped.entries.map((e, i) => (i === idx + 1 ? next : e))
+    : [...stopped.entries.slice(0, idx + 1), next, ...stopped.entries.slice(idx + 1)];
+  return { ...stopped, entries, liveEntryId: next.id };
+};
@@ -0,0 +1,92 @@
+import { session } from '@/__tests__/fixtures';
+import { getTranslator } from '@/utils/i18n';
+import {
+  EMPTY_PATIENT,
+  describePatient,
+  matchesSessionQuery,
+  normalizeDocumentNumber,
+  parsePatientLine,
+  validateDocumentNumber,
+} from '@/utils/patient';
+
+const { t } = getTranslator('es');
+
+describe('validateDocumentNumber', () => {
+  it('reads the number without dots, spaces or dashes', () => {
+    expect(normalizeDocumentNumber('1.023.456-7')).toBe('10234567');
+    expect(normalizeDocumentNumber(' ab 12345 ')).toBe('AB12345');
+  });
+
+  it('accepts numbers of the shape each document has', () => {
+    expect(validateDocumentNumber('CC', '1.023.456', t)).toBeNull();
+    expect(validateDocumentNumber('TI', '1023456789', t)).toBeNull();
+    expect(validateDocumentNumber('CE', '123', t)).toBeNull();
+    expect(validateDocumentNumber('PA', 'ab12345', t)).toBeNull();
+    expect(validateDocumentNumber('CC', '  ', t)).toBeNull();
+  });
+
+  it('says what the document should look like', () => {
+    expect(validateDocumentNumber('CC', '1234', t)).toBe(
+      t('patient.documentError', { type: 'CC', hint: t('patient.documentHint.CC') })
+    );
+    expect(validateDocumentNumber('TI', '123456789', t)).toBe(
+      t('patient.documentError', { type: 'TI', hint: t('patient.documentHint.TI') })
+    );
+    expect(validateDocumentNumber('PA', 'AB-1', t)).not.toBeNull();
+  });
+});
+
+describe('describePatient and parsePatientLine', () => {
+  const patient = {
+    ...EMPTY_PATIENT,
+    documentType: 'TI' as const,
+    documentNumber: '1023456789',
+    bed: '302B',
+    prescribedFlow: '2',
+  };
+
+  it('lists only the fields that are filled in', () => {
+    expect(describePatient(patient, t)).toEqual([
+      ['Documento', 'TI 1023456789'],
+      ['Cama/Habitación', '302B'],
+      ['Flujo prescrito', '2 L/min'],
+    ]);
+  });
+
+  it('reads each listed line back, in any language', () => {
+    const lines = [
+      ...describePatient(patient, t),
+      ...describePatient({ ...EMPTY_PATIENT, eps: 'Sura' }, getTranslator('en').t),
+    ];
+    expect(
+      Object.assign({}, ...lines.map(([label, value]) => parsePatientLine(label, value)))
+    ).toEqual({
+      documentType: 'TI',
+      documentNumber: '1023456789',
+      bed: '302B',
+      prescribedFlow: '2',
+      eps: 'Sura',
+    });
+  });
+
+  it('ignores lines that are not patient fields', () => {
+    expect(parsePatientLine('Total', '$ 120')).toBeNull();
+  });
+});
+
+describe('matchesSessionQuery', () => {
+  const saved = session([], {
+    patient: { ...EMPTY_PATIENT, documentNumber: '1.023.456', service: 'Urgencias', bed: '302B' },
+  });
+
+  it.each(['', 'PEREZ', 'ana pé', '1023456', '1.023', 'urgencias', '302b'])(
+    'finds the session by %p',
+    (query) => {
+      expect(matchesSessionQuery(saved, query)).toBe(true);
+    }
+  );
+
+  it('leaves out sessions that do not match', () => {
+    expect(matchesSessionQuery(saved, 'Gómez')).toBe(false);
+  });
+});
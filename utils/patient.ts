@@ -0,0 +1,105 @@
+import type { DocumentType, OxygenSession, PatientInfo } from '@/types/oxygen';
+import { type MessageKey, type Translate, translateAll } from '@/utils/i18n';
+
+export const EMPTY_PATIENT: PatientInfo = {
+  documentType: 'CC',
+  documentNumber: '',
+  eps: '',
+  bed: '',
+  service: '',
+  physician: '',
+  prescribedFlow: '',
+};
+
+// Accepted shapes per document, after dots, spaces and dashes are removed.
+export const DOCUMENT_TYPES: { value: DocumentType; pattern: RegExp; hint: MessageKey }[] = [
+  { value: 'CC', pattern: /^\d{5,10}$/, hint: 'patient.documentHint.CC' },
+  { value: 'TI', pattern: /^\d{10,11}$/, hint: 'patient.documentHint.TI' },
+  { value: 'RC', pattern: /^\d{10,11}$/, hint: 'patient.documentHint.RC' },
+  { value: 'CE', pattern: /^\d{3,10}$/, hint: 'patient.documentHint.CE' },
+  { value: 'PA', pattern: /^[A-Z0-9]{5,15}$/, hint: 'patient.documentHint.PA' },
+];
+
+// Colombian document codes stay as they are; only the passport is spelled out.
+export const documentTypeLabel = (type: DocumentType, t: Translate) =>
+  t(`patient.documentType.${type}`);
+
+// '1.023.456-7' -> '10234567'
+export const normalizeDocumentNumber = (text: string) => text.replace(/[\s.\-]/g, '').toUpperCase();
+
+// Error message for a document number, or null when it is valid or blank.
+export const validateDocumentNumber = (
+  type: DocumentType,
+  text: string,
+  t: Translate
+): string | null => {
+  const number = normalizeDocumentNumber(text);
+  if (!number) return null;
+  const doc = DOCUMENT_TYPES.find((d) => d.value === type);
+  if (!doc || doc.pattern.test(number)) return null;
+  return t('patient.documentError', { type: documentTypeLabel(type, t), hint: t(doc.hint) });
+};
+
+const PATIENT_FIELDS: Exclude<keyof PatientInfo, 'documentType'>[] = [
+  'documentNumber',
+  'eps',
+  'bed',
+  'service',
+  'physician',
+  'prescribedFlow',
+];
+
+/** Filled-in encounter fields as label/value pairs, for reports and exports. */
+export const describePatient = (patient: PatientInfo, t: Translate): [string, string][] =>
+  PATIENT_FIELDS.flatMap((field): [string, string][] => {
+    const label = t(`patient.field.${field}`);
+    const value = patient[field].trim();
+    if (!value) return [];
+    if (field === 'documentNumber') return [[label, `${patient.documentType} ${value}`]];
+    if (field === 'prescribedFlow') return [[label, `${value} L/min`]];
+    return [[label, value]];
+  });
+
+// Reverse of describePatient for one line, used when importing a report. The
+// label may be in any of the app's languages.
+export const parsePatientLine = (label: string, value: string): Partial<PatientInfo> | null => {
+  const wanted = label.trim().toLowerCase();
+  const match = PATIENT_FIELDS.map((field) => ({
+    field,
+    labels: translateAll(`patient.field.${field}`).map((l) => l.toLowerCase()),
+  })).find((f) => f.labels.includes(wanted));
+  if (!match) return null;
+  const text = value.trim();
+  if (match.field === 'documentNumber') {
+    const m = /^(CC|TI|RC|CE|PA)\s+(.+)$/i.exec(text);
+    return m
+      ? { documentType: m[1].toUpperCase() as DocumentType, documentNumber: m[2] }
+      : { documentNumber: text };
+  }
+  if (match.field === 'prescribedFlow') return { prescribedFlow: text.replace(/\s*L\/min$/i, '') };
+  return { [match.field]: text };
+};
+
+const fold = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+// Case- and accent-insensitive search over the patient's name and encounter
+// fields; document numbers also match without their dots.
+export const matchesSessionQuery = (session: OxygenSession, query: string) => {
+  const wanted = fold(query.trim());
+  if (!wanted) return true;
+  const { patient } = session;
+  const haystack = [
+    session.patientLabel,
+    patient.documentNumber,
+    normalizeDocumentNumber(patient.documentNumber),
+    patient.eps,
+    patient.bed,
+    patient.service,
+    patient.physician,
+  ];
+  return haystack.some((value) => fold(value).includes(wanted));
+};
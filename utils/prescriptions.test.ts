@@ -0,0 +1,95 @@
+import { calculateMinutes } from '@/utils/billing';
+import { getTranslator } from '@/utils/i18n';
+import {
+  MAX_PRESCRIPTION_DAYS,
+  createSegment,
+  createTemplate,
+  generateEntries,
+  validateTemplate,
+} from '@/utils/prescriptions';
+
+const { t } = getTranslator('es');
+
+const validate = (...bands: [string, string, string][]) =>
+  validateTemplate(
+    'Nocturno',
+    bands.map((band) => createSegment(...band)),
+    t
+  );
+
+describe('validateTemplate', () => {
+  it('accepts bands that tile the day across midnight', () => {
+    expect(validate(['07:00', '22:00', '2'], ['22:00', '07:00', '3'])).toBeNull();
+    expect(validate(['07:00', '07:00', '2'])).toBeNull();
+  });
+
+  it('asks for a name, a band, valid times and a flow', () => {
+    expect(validateTemplate(' ', [createSegment('07:00', '09:00', '2')], t)).toBe(
+      t('prescriptions.error.name')
+    );
+    expect(validate()).toBe(t('prescriptions.error.empty'));
+    expect(validate(['07:00', '09:00', '2'], ['25:00', '09:00', '2'])).toBe(
+      t('prescriptions.error.time', { band: 2 })
+    );
+    expect(validate(['07:00', '09:00', '0'])).toBe(t('prescriptions.error.flow', { band: 1 }));
+  });
+
+  it('catches bands that overlap, also through midnight', () => {
+    const overlap = t('prescriptions.error.overlap', { first: 1, second: 2 });
+    expect(validate(['08:00', '12:00', '2'], ['11:00', '13:00', '3'])).toBe(overlap);
+    expect(validate(['20:00', '08:00', '2'], ['07:00', '09:00', '3'])).toBe(overlap);
+    expect(validate(['07:00', '07:00', '2'], ['13:00', '14:00', '3'])).toBe(overlap);
+  });
+});
+
+describe('generateEntries', () => {
+  it('lays the bands out on each day in start order, ending the night band the next day', () => {
+    const template = createTemplate(
+      'Nocturno',
+      [createSegment('22:00', '06:00', '3'), createSegment('08:00', '12:00', '2')],
+      'cannula'
+    );
+    const entries = generateEntries(template, '2026-10-19', '2026-10-20');
+    expect(entries).toMatchObject([
+      { startTime: '8:00 AM', startDate: '2026-10-19', endTime: '12:00 PM', endDate: '2026-10-19' },
+      { startTime: '10:00 PM', startDate: '2026-10-19', endTime: '6:00 AM', endDate: '2026-10-20' },
+      { startTime: '8:00 AM', startDate: '2026-10-20', endTime: '12:00 PM', endDate: '2026-10-20' },
+      { startTime: '10:00 PM', startDate: '2026-10-20', endTime: '6:00 AM', endDate: '2026-10-21' },
+    ]);
+    expect(entries.map((e) => [e.flowRate, e.device])).toEqual([
+      ['2', 'cannula'],
+      ['3', 'cannula'],
+      ['2', 'cannula'],
+      ['3', 'cannula'],
+    ]);
+    expect(new Set(entries.map((e) => e.id)).size).toBe(4);
+  });
+
+  it('bills a continuous band as a whole day', () => {
+    const [row] = generateEntries(
+      createTemplate('Continuo', [createSegment('07:00', '07:00', '2')]),
+      '2026-10-19',
+      '2026-10-19'
+    );
+    expect(row).toMatchObject({
+      startTime: '7:00 AM',
+      startDate: '2026-10-19',
+      endTime: '7:00 AM',
+      endDate: '2026-10-20',
+    });
+    expect(calculateMinutes(row)).toBe(24 * 60);
+  });
+
+  it(`stops after ${MAX_PRESCRIPTION_DAYS} days`, () => {
+    const template = createTemplate('Continuo', [createSegment('07:00', '07:00', '2')]);
+    const entries = generateEntries(template, '2026-10-01', '2026-12-31');
+    expect(entries).toHaveLength(MAX_PRESCRIPTION_DAYS);
+    expect(entries[entries.length - 1].startDate).toBe('2026-10-31');
+  });
+
+  it('generates nothing for a reversed or invalid range', () => {
+    const template = createTemplate('Continuo', [createSegment('07:00', '07:00', '2')]);
+    expect(generateEntries(template, '2026-10-20', '2026-10-19')).toEqual([]);
+    expect(generateEntries(template, '2026-13-01', '2026-10-19')).toEqual([]);
+  });
+});
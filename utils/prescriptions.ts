@@ -0,0 +1,119 @@
+// Standing prescriptions: a daily flow schedule saved as a template and laid
+// out over a range of days as ordinary dated rows, which can then be adjusted
+// one by one like any other.
+import type { DeliveryDevice, OxygenEntry } from '@/types/oxygen';
+import type { PrescriptionSegment, PrescriptionTemplate } from '@/types/prescription';
+import { MINUTES_PER_DAY, formatClock, parseFlowRate, parseTime } from '@/utils/billing';
+import { addDays, dateKeyToDayNumber, isValidDateKey } from '@/utils/dates';
+import { createEmptyEntry, createId } from '@/utils/entries';
+import type { Translate } from '@/utils/i18n';
+
+// Longest range generated at once; a month of rows is already a long table.
+export const MAX_PRESCRIPTION_DAYS = 31;
+
+export const createSegment = (start = '', end = '', flowRate = ''): PrescriptionSegment => ({
+  id: createId('segment'),
+  start,
+  end,
+  flowRate,
+});
+
+export const createTemplate = (
+  name: string,
+  segments: PrescriptionSegment[],
+  device?: DeliveryDevice
+): PrescriptionTemplate => ({
+  id: createId('prescription'),
+  name,
+  segments,
+  device,
+});
+
+// Minutes since midnight covered by a band, as [start, end) with `end` past
+// MINUTES_PER_DAY when it runs through midnight.
+const segmentRange = (segment: PrescriptionSegment): [number, number] | null => {
+  const start = parseTime(segment.start);
+  const end = parseTime(segment.end);
+  if (start === null || end === null) return null;
+  return [start, end > start ? end : end + MINUTES_PER_DAY];
+};
+
+/** Error message for a template being written, or null when it can be saved. */
+export const validateTemplate = (
+  name: string,
+  segments: PrescriptionSegment[],
+  t: Translate
+): string | null => {
+  if (!name.trim()) return t('prescriptions.error.name');
+  if (segments.length === 0) return t('prescriptions.error.empty');
+  const ranges: [number, number][] = [];
+  for (const [i, segment] of segments.entries()) {
+    const range = segmentRange(segment);
+    if (!range) return t('prescriptions.error.time', { band: i + 1 });
+    if (!parseFlowRate(segment.flowRate)) return t('prescriptions.error.flow', { band: i + 1 });
+    ranges.push(range);
+  }
+  // Compare each band against the others, also shifted by a day, so bands
+  // that wrap past midnight are caught overlapping the early ones.
+  for (let i = 0; i < ranges.length; i++) {
+    for (let j = i + 1; j < ranges.length; j++) {
+      const [a0, a1] = ranges[i];
+      const overlaps = [-MINUTES_PER_DAY, 0, MINUTES_PER_DAY].some(
+        (shift) => ranges[j][0] + shift < a1 && a0 < ranges[j][1] + shift
+      );
+      if (overlaps) return t('prescriptions.error.overlap', { first: i + 1, second: j + 1 });
+    }
+  }
+  return null;
+};
+
+// '2 L/min continuo' or '3 L/min 22:00–06:00'
+export const describeSegment = (segment: PrescriptionSegment, t: Translate) =>
+  segment.start === segment.end
+    ? t('prescriptions.continuous', { flow: segment.flowRate })
+    : `${segment.flowRate} L/min ${segment.start}–${segment.end}`;
+
+export const describeTemplate = (template: PrescriptionTemplate, t: Translate) =>
+  template.segments.map((segment) => describeSegment(segment, t)).join(' · ');
+
+// Number of days from `from` to `to`, both included, or null for an invalid
+// or reversed range.
+export const countRangeDays = (from: string, to: string): number | null => {
+  if (!isValidDateKey(from) || !isValidDateKey(to)) return null;
+  const days = dateKeyToDayNumber(to)! - dateKeyToDayNumber(from)! + 1;
+  return days > 0 ? days : null;
+};
+
+/**
+ * Dated rows for every band of the template on each day from `from` to `to`.
+ *
+ * Bands that run past midnight, and all-day bands, end on the following day,
+ * so the billed minutes come from the dates rather than the wrap-around rule.
+ */
+export const generateEntries = (
+  template: PrescriptionTemplate,
+  from: string,
+  to: string
+): OxygenEntry[] => {
+  const days = countRangeDays(from, to);
+  if (days === null) return [];
+  const segments = template.segments
+    .map((segment) => ({ segment, range: segmentRange(segment) }))
+    .filter((s): s is { segment: PrescriptionSegment; range: [number, number] } => s.range !== null)
+    .sort((a, b) => a.range[0] - b.range[0]);
+
+  const dayKeys = Array.from({ length: Math.min(days, MAX_PRESCRIPTION_DAYS) }, (_, i) =>
+    addDays(from, i)
+  );
+  return dayKeys.flatMap((day) =>
+    segments.map(({ segment, range: [start, end] }) => ({
+      ...createEmptyEntry(),
+      startTime: formatClock(start),
+      startDate: day,
+      endTime: formatClock(end % MINUTES_PER_DAY),
+      endDate: end >= MINUTES_PER_DAY ? addDays(day, 1) : day,
+      flowRate: segment.flowRate,
+      device: template.device,
+    }))
+  );
+};
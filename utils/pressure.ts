@@ -0,0 +1,46 @@
+// Pressure rows: home-care teams read the cylinder manometer before and after
+// a visit instead of timing it. Liters delivered are the pressure drop times
+// the cylinder's constant.
+import type { OxygenEntry, PressureUnit } from '@/types/oxygen';
+
+export const PSI_PER_BAR = 14.5038;
+
+// Liters per psi for common medical cylinder sizes.
+export const CYLINDER_TYPES: { id: string; label: string; litersPerPsi: number }[] = [
+  { id: 'D', label: 'D', litersPerPsi: 0.16 },
+  { id: 'E', label: 'E', litersPerPsi: 0.28 },
+  { id: 'M', label: 'M', litersPerPsi: 1.56 },
+  { id: 'G', label: 'G', litersPerPsi: 2.41 },
+  { id: 'H', label: 'H/K', litersPerPsi: 3.14 },
+];
+
+export const PRESSURE_UNITS: PressureUnit[] = ['psi', 'bar'];
+
+export const isPressureEntry = (entry: OxygenEntry) => entry.kind === 'pressure';
+
+export const parsePressure = (text: string | undefined): number | null => {
+  if (!text || !/^\s*\d+(?:[.,]\d+)?\s*$/.test(text)) return null;
+  return parseFloat(text.replace(',', '.'));
+};
+
+export const getCylinderType = (id: string | undefined) =>
+  CYLINDER_TYPES.find((type) => type.id === id);
+
+/** Liters delivered by a pressure row, or 0 when it is incomplete or rising. */
+export const calculatePressureLiters = (entry: OxygenEntry): number => {
+  const start = parsePressure(entry.startPressure);
+  const end = parsePressure(entry.endPressure);
+  const type = getCylinderType(entry.cylinderType);
+  if (start === null || end === null || !type || end > start) return 0;
+  const dropPsi = (start - end) * (entry.pressureUnit === 'bar' ? PSI_PER_BAR : 1);
+  return dropPsi * type.litersPerPsi;
+};
+
+// '2000 psi (E)' for the start reading, '1500 psi' for the end.
+export const formatPressure = (entry: OxygenEntry, field: 'startPressure' | 'endPressure') => {
+  const value = entry[field];
+  if (!value) return '';
+  const unit = entry.pressureUnit ?? 'psi';
+  const type = getCylinderType(entry.cylinderType);
+  return field === 'startPressure' && type ? `${value} ${unit} (${type.id})` : `${value} ${unit}`;
+};
@@ -0,0 +1,153 @@
+import { entry, session } from '@/__tests__/fixtures';
+import type { OxygenSession } from '@/types/oxygen';
+import { getTranslator } from '@/utils/i18n';
+import { EMPTY_PATIENT } from '@/utils/patient';
+import { type ReportOptions, buildReportHtml } from '@/utils/report';
+
+// Two billed rows and the trailing blank, for a patient with full details at
+// factor 2.5.
+const reportSession = (fields: Partial<OxygenSession> = {}) =>
+  session(
+    [
+      // 60 min × 2 L/min = 120 L, 300 at 2.5 per liter
+      entry('a', { startTime: '8:00 AM', endTime: '9:00 AM', flowRate: '2' }),
+      // 30 min × 1.5 L/min = 45 L, 112.5
+      entry('b', { startTime: '10:00 PM', endTime: '10:30 PM', flowRate: '1.5' }),
+      entry('blank'),
+    ],
+    {
+      patientLabel: 'Ana <Pérez>',
+      patient: { ...EMPTY_PATIENT, documentNumber: '1023456', eps: 'Sanitas', bed: '302B' },
+      tariff: { rateId: 'rate-1', label: 'Contributivo', factor: 2.5, effectiveFrom: '2026-01-01' },
+      ...fields,
+    }
+  );
+
+const options = (fields: Partial<ReportOptions> = {}): ReportOptions => ({
+  institution: 'Hospital San Rafael',
+  currency: 'COP',
+  rounding: { scope: 'total', increment: 1 },
+  timeFormat: '12h',
+  i18n: getTranslator('es'),
+  generatedAt: new Date(2026, 9, 19, 15, 30),
+  ...fields,
+});
+
+// Text of each cell of each body row, tags and surrounding space removed.
+const tableRows = (html: string) =>
+  [...html.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/g)].map((row) =>
+    [...row[1].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/g)].map((cell) => cell[1].trim())
+  );
+
+// Intl puts non-breaking spaces in currency amounts; compare on plain ones.
+const plain = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ');
+
+describe('buildReportHtml', () => {
+  it('writes the patient header, escaped', () => {
+    const html = buildReportHtml(reportSession(), options());
+    expect(html).toContain('<html lang="es">');
+    expect(html).toContain('<h1>Hospital San Rafael</h1>');
+    expect(html).toContain('<title>Reporte de oxígeno - Ana &lt;Pérez&gt;</title>');
+    expect(html).toContain('<dt>Paciente</dt><dd>Ana &lt;Pérez&gt;</dd>');
+    expect(html).toContain('<dd>CC 1023456</dd>');
+    expect(html).toContain('<dd>Sanitas</dd>');
+    expect(html).toContain('<dd>302B</dd>');
+    expect(html).toContain('<dt>Tipo de seguro</dt><dd>Contributivo</dd>');
+    expect(html).not.toContain('Sesión cerrada');
+  });
+
+  it('falls back to the default institution and an unnamed patient', () => {
+    const html = buildReportHtml(reportSession({ patientLabel: '' }), options({ institution: '' }));
+    expect(html).toContain('<h1>Institución</h1>');
+    expect(html).toContain('<dd>Sin nombre</dd>');
+  });
+
+  it('lists one line per filled row, numbered as on screen', () => {
+    const rows = tableRows(plain(buildReportHtml(reportSession(), options())));
+    expect(rows).toContainEqual(['1', '8:00 AM', '9:00 AM', '2', '-', '60', '120', '$ 300']);
+    expect(rows).toContainEqual(['2', '10:00 PM', '10:30 PM', '1.5', '-', '30', '45', '$ 113']);
+    expect(rows.filter((cells) => cells[0] === '3')).toHaveLength(0);
+  });
+
+  it('shows times in 24h when asked', () => {
+    const rows = tableRows(buildReportHtml(reportSession(), options({ timeFormat: '24h' })));
+    expect(rows.some((cells) => cells[1] === '22:00' && cells[2] === '22:30')).toBe(true);
+  });
+
+  it('adds up the totals', () => {
+    const rows = tableRows(plain(buildReportHtml(reportSession(), options())));
+    expect(rows).toContainEqual(['Minutos', '90']);
+    expect(rows).toContainEqual(['Litros', '165']);
+    expect(rows).toContainEqual(['Factor aplicado', '2.5 (vigente desde 2026-01-01)']);
+    // 300 + 112.5 rounded once on the total
+    expect(rows).toContainEqual(['Total a pagar', '$ 413']);
+  });
+
+  it('notes the rounding policy', () => {
+    const byTotal = tableRows(buildReportHtml(reportSession(), options()));
+    expect(byTotal).toContainEqual(['Redondeo', 'Redondeo al peso sobre el total']);
+
+    const byRow = tableRows(
+      plain(
+        buildReportHtml(reportSession(), options({ rounding: { scope: 'row', increment: 100 } }))
+      )
+    );
+    expect(byRow).toContainEqual(['Redondeo', 'Redondeo a la centena por fila']);
+    // Rows shown rounded: 300 and 112.5 become 300 and 100
+    expect(byRow.some((cells) => cells[0] === '2' && cells[7] === '$ 100')).toBe(true);
+    expect(byRow).toContainEqual(['Total a pagar', '$ 400']);
+  });
+
+  it('subtotals dated rows by day', () => {
+    const dated = reportSession({
+      entries: [
+        entry('a', {
+          startTime: '8:00 AM',
+          endTime: '9:00 AM',
+          flowRate: '2',
+          startDate: '2026-10-19',
+          endDate: '2026-10-19',
+        }),
+        entry('b', {
+          startTime: '11:00 PM',
+          endTime: '1:00 AM',
+          flowRate: '1',
+          startDate: '2026-10-19',
+          endDate: '2026-10-20',
+        }),
+      ],
+    });
+    const rows = tableRows(plain(buildReportHtml(dated, options())));
+    expect(rows).toContainEqual(['lunes, 19 de octubre de 2026']);
+    expect(rows.some((cells) => cells[2] === '20/10 1:00 AM')).toBe(true);
+    expect(rows).toContainEqual(['Subtotal', '180', '240', '$ 600']);
+  });
+
+  it('formats numbers, amounts and labels for the report language', () => {
+    const english = tableRows(
+      plain(
+        buildReportHtml(
+          reportSession(),
+          options({ i18n: getTranslator('en'), rounding: { scope: 'total', increment: 0.01 } })
+        )
+      )
+    );
+    expect(english).toContainEqual(['Liters', '165']);
+    expect(english).toContainEqual(['Rounding', 'Rounded to the nearest cent on the total']);
+    expect(english.some((cells) => cells[1] === 'COP 412.50')).toBe(true);
+
+    const portuguese = plain(
+      buildReportHtml(
+        reportSession(),
+        options({ i18n: getTranslator('pt'), rounding: { scope: 'total', increment: 0.01 } })
+      )
+    );
+    expect(portuguese).toContain('<html lang="pt">');
+    expect(portuguese).toContain('COP 412,50');
+  });
+
+  it('says so when there are no rows', () => {
+    const html = buildReportHtml(reportSession({ entries: [entry('blank', {})] }), options());
+    expect(html).toContain('<td colspan="8">Sin registros</td>');
+  });
+});
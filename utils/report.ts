@@ -0,0 +1,228 @@
+// Printable report of a session: a self-contained HTML document used for the
+// web print view and as the source of the PDF on mobile. Pure, so the output
+// can be checked without rendering anything.
+import type { OxygenEntry, OxygenSession } from '@/types/oxygen';
+import type { RoundingPolicy, TimeFormat } from '@/types/settings';
+import {
+  calculateEntryCost,
+  calculateLiters,
+  calculateLitersByKind,
+  calculateMinutes,
+  displayEntryCost,
+  getSessionTotal,
+} from '@/utils/billing';
+import { dateKeyToDate } from '@/utils/dates';
+import { describeDevice } from '@/utils/devices';
+import { numberEntries } from '@/utils/entries';
+import {
+  describeRounding,
+  formatCurrency,
+  formatEntryEnd,
+  formatEntryStart,
+  formatEntryTime,
+} from '@/utils/format';
+import type { Translator } from '@/utils/i18n';
+import { describePatient } from '@/utils/patient';
+import { isPressureEntry } from '@/utils/pressure';
+
+export interface ReportOptions {
+  institution: string;
+  currency: string;
+  rounding: RoundingPolicy;
+  timeFormat: TimeFormat;
+  // Language the report is written in.
+  i18n: Translator;
+  generatedAt?: Date;
+}
+
+interface ReportRow {
+  row: number;
+  entry: OxygenEntry;
+  minutes: number;
+  liters: number;
+  cost: number;
+}
+
+interface ReportGroup {
+  // Start date of the rows, or undefined for time-only rows.
+  date?: string;
+  rows: ReportRow[];
+}
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDay = (key: string, locale: string) =>
+  dateKeyToDate(key)?.toLocaleDateString(locale, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  }) ?? key;
+
+// Consecutive rows that start on the same day share a subtotal.
+const groupByDay = (rows: ReportRow[]): ReportGroup[] =>
+  rows.reduce<ReportGroup[]>((groups, row) => {
+    const last = groups[groups.length - 1];
+    if (last && last.date === row.entry.startDate) {
+      last.rows.push(row);
+    } else {
+      groups.push({ date: row.entry.startDate, rows: [row] });
+    }
+    return groups;
+  }, []);
+
+// Rows are grouped by start day, so only an end on another day needs a date.
+// Pressure rows have no day and show their manometer readings.
+const endCell = (entry: OxygenEntry, format: TimeFormat) =>
+  isPressureEntry(entry) || (entry.endDate && entry.endDate !== entry.startDate)
+    ? formatEntryEnd(entry, format)
+    : formatEntryTime(entry.endTime, undefined, format);
+
+const startCell = (entry: OxygenEntry, format: TimeFormat) =>
+  isPressureEntry(entry)
+    ? formatEntryStart(entry, format)
+    : formatEntryTime(entry.startTime, undefined, format);
+
+const sum = (rows: ReportRow[], field: 'minutes' | 'liters' | 'cost') =>
+  rows.reduce((acc, row) => acc + row[field], 0);
+
+const STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #1E293B; margin: 32px; font-size: 12px; }
+  header { border-bottom: 2px solid #9575CD; padding-bottom: 12px; margin-bottom: 16px; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 14px; margin: 4px 0 0; color: #64748B; font-weight: 600; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 12px; margin: 0 0 16px; }
+  dt { font-weight: 600; color: #64748B; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #E2E8F0; padding: 6px 8px; text-align: left; }
+  th { background: #F5F6FA; }
+  td.num, th.num { text-align: right; }
+  tr.day td { background: #FAFAFC; font-weight: 600; text-transform: capitalize; }
+  tr.subtotal td { font-weight: 600; }
+  .totals { margin-top: 16px; margin-left: auto; width: 50%; }
+  .totals td:first-child { font-weight: 600; color: #64748B; }
+  .total td { font-size: 16px; font-weight: 700; color: #9575CD; }
+  .note { margin-top: 8px; color: #64748B; }
+  .signatures { display: flex; gap: 48px; margin-top: 64px; }
+  .signature { flex: 1; border-top: 1px solid #1E293B; padding-top: 4px; text-align: center; }
+  @media print { body { margin: 0; } }
+`;
+
+export const buildReportHtml = (session: OxygenSession, options: ReportOptions): string => {
+  const { tariff } = session;
+  const { currency, rounding, timeFormat } = options;
+  const { locale, language, t } = options.i18n;
+  const money = (amount: number) => formatCurrency(amount, currency, rounding, locale);
+  const litersFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  const formatLiters = (liters: number) => litersFormat.format(liters);
+  const generatedAt = options.generatedAt ?? new Date();
+  const stamp = (date: Date) => date.toLocaleString(locale, { hour12: timeFormat === '12h' });
+
+  const rows: ReportRow[] = numberEntries(session.entries).map(({ row, entry }) => ({
+    row,
+    entry,
+    minutes: calculateMinutes(entry),
+    liters: calculateLiters(entry),
+    cost: displayEntryCost(calculateEntryCost(entry, tariff.factor), rounding),
+  }));
+  const groups = groupByDay(rows);
+  const byKind = calculateLitersByKind(session.entries);
+  const showDays = groups.some((group) => group.date);
+  // Column label and whether it holds numbers.
+  const headers: [string, boolean][] = [
+    [t('columns.number'), true],
+    [t('columns.start'), false],
+    [t('columns.end'), false],
+    [t('columns.flow'), true],
+    [t('columns.device'), false],
+    [t('columns.minutes'), true],
+    [t('columns.liters'), true],
+    [t('columns.cost'), true],
+  ];
+
+  const rowHtml = ({ row, entry, minutes, liters, cost }: ReportRow) => `
+      <tr>
+        <td class="num">${row}</td>
+        <td>${escapeHtml(startCell(entry, timeFormat) || '-')}</td>
+        <td>${escapeHtml(endCell(entry, timeFormat) || '-')}</td>
+        <td class="num">${escapeHtml(entry.flowRate || '-')}</td>
+        <td>${escapeHtml(describeDevice(entry, t) || '-')}</td>
+        <td class="num">${minutes}</td>
+        <td class="num">${formatLiters(liters)}</td>
+        <td class="num">${money(cost)}</td>
+      </tr>`;
+
+  const groupHtml = (group: ReportGroup) => `
+      ${showDays ? `<tr class="day"><td colspan="8">${escapeHtml(group.date ? formatDay(group.date, locale) : t('document.noDate'))}</td></tr>` : ''}
+      ${group.rows.map(rowHtml).join('')}
+      ${
+        showDays
+          ? `<tr class="subtotal">
+        <td colspan="5">${escapeHtml(t('document.subtotal'))}</td>
+        <td class="num">${sum(group.rows, 'minutes')}</td>
+        <td class="num">${formatLiters(sum(group.rows, 'liters'))}</td>
+        <td class="num">${money(sum(group.rows, 'cost'))}</td>
+      </tr>`
+          : ''
+      }`;
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(t('document.pageTitle', { patient: session.patientLabel }))}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(options.institution || t('document.institution'))}</h1>
+    <h2>${escapeHtml(t('document.title'))}</h2>
+  </header>
+  <dl>
+    <dt>${escapeHtml(t('document.patient'))}</dt><dd>${escapeHtml(session.patientLabel || t('document.unnamed'))}</dd>
+    ${describePatient(session.patient, t)
+      .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+      .join('\n    ')}
+    <dt>${escapeHtml(t('document.insurance'))}</dt><dd>${escapeHtml(tariff.label)}</dd>
+    <dt>${escapeHtml(t('document.sessionStarted'))}</dt><dd>${stamp(new Date(session.createdAt))}</dd>
+    ${session.closedAt ? `<dt>${escapeHtml(t('document.sessionClosed'))}</dt><dd>${stamp(new Date(session.closedAt))}</dd>` : ''}
+    <dt>${escapeHtml(t('document.generated'))}</dt><dd>${stamp(generatedAt)}</dd>
+  </dl>
+  <table>
+    <thead>
+      <tr>
+        ${headers.map(([label, num]) => `<th${num ? ' class="num"' : ''}>${escapeHtml(label)}</th>`).join('')}
+      </tr>
+    </thead>
+    <tbody>${rows.length ? groups.map(groupHtml).join('') : `<tr><td colspan="8">${escapeHtml(t('document.noEntries'))}</td></tr>`}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><td>${escapeHtml(t('columns.minutes'))}</td><td class="num">${sum(rows, 'minutes')}</td></tr>
+    <tr><td>${escapeHtml(t('columns.liters'))}</td><td class="num">${formatLiters(sum(rows, 'liters'))}</td></tr>
+    ${
+      byKind.pressureRows
+        ? `<tr><td>${escapeHtml(t('document.byTime'))}</td><td class="num">${formatLiters(byKind.time)}</td></tr>
+    <tr><td>${escapeHtml(t('document.byPressure'))}</td><td class="num">${formatLiters(byKind.pressure)}</td></tr>`
+        : ''
+    }
+    <tr><td>${escapeHtml(t('document.factor'))}</td><td class="num">${escapeHtml(t('document.factorValue', { factor: tariff.factor, date: tariff.effectiveFrom }))}</td></tr>
+    <tr><td>${escapeHtml(t('document.rounding'))}</td><td class="num">${escapeHtml(describeRounding(rounding, t))}</td></tr>
+    <tr class="total"><td>${escapeHtml(t('document.total'))}</td><td class="num">${money(getSessionTotal(session, rounding))}</td></tr>
+  </table>
+  ${byKind.pressureRows ? `<p class="note">${escapeHtml(t('pressure.note'))}</p>` : ''}
+  <div class="signatures">
+    <div class="signature">${escapeHtml(t('document.preparedBy'))}</div>
+    <div class="signature">${escapeHtml(t('document.reviewedBy'))}</div>
+  </div>
+</body>
+</html>`;
+};
@@ -0,0 +1,106 @@
+// Plain-text report of a session for WhatsApp and the share sheet. It is
+// written to be pasted back in (see importText), so the table layout and the
+// 'Factor aplicado' line are read by the import as well.
+import type { OxygenSession } from '@/types/oxygen';
+import type { RoundingPolicy, ShiftDefinition, TimeFormat } from '@/types/settings';
+import {
+  calculateEntryCost,
+  calculateLiters,
+  calculateLitersByKind,
+  calculateMinutes,
+  displayEntryCost,
+  getSessionTotal,
+} from '@/utils/billing';
+import { numberEntries } from '@/utils/entries';
+import {
+  describeRounding,
+  formatCurrency,
+  formatEntryEnd,
+  formatEntryStart,
+  litersFormatter,
+} from '@/utils/format';
+import type { Translator } from '@/utils/i18n';
+import { describePatient } from '@/utils/patient';
+import { calculateShiftTotals, describeShiftTotal } from '@/utils/shifts';
+
+export interface ShareOptions {
+  currency: string;
+  rounding: RoundingPolicy;
+  timeFormat: TimeFormat;
+  shifts: ShiftDefinition[];
+  // Language the message is written in.
+  i18n: Translator;
+}
+
+export const buildShareMessage = (session: OxygenSession, options: ShareOptions): string => {
+  const { entries, tariff } = session;
+  const { currency, rounding, timeFormat } = options;
+  const { locale, t } = options.i18n;
+  const litersFormat = litersFormatter(locale);
+  const formatMoney = (amount: number) => formatCurrency(amount, currency, rounding, locale);
+  const formatLiters = (liters: number) => litersFormat.format(liters);
+  const litersByKind = calculateLitersByKind(entries);
+  const shiftTotals = calculateShiftTotals(entries, options.shifts, tariff.factor);
+
+  const lines: string[] = [];
+  lines.push(t('share.title'));
+  lines.push(`${t('document.patient')}: ${session.patientLabel}`);
+  describePatient(session.patient, t).forEach(([label, value]) => lines.push(`${label}: ${value}`));
+  lines.push('');
+  // Header row
+  lines.push(
+    [
+      t('columns.number'),
+      t('columns.start'),
+      t('columns.end'),
+      t('columns.flow'),
+      t('columns.minutesShort'),
+      t('columns.liters'),
+      t('columns.cost'),
+    ].join(' | ')
+  );
+  lines.push('---------------------------------------------');
+  numberEntries(entries).forEach(({ row, entry }) => {
+    const mins = calculateMinutes(entry);
+    const cost = displayEntryCost(calculateEntryCost(entry, tariff.factor), rounding);
+    const inicio = formatEntryStart(entry, timeFormat) || '-';
+    const fin = formatEntryEnd(entry, timeFormat) || '-';
+    const flow = entry.flowRate || '-';
+    const costStr = cost > 0 ? formatMoney(cost) : '-';
+    const liters = formatLiters(calculateLiters(entry));
+    lines.push(`${row} | ${inicio} | ${fin} | ${flow} | ${mins} | ${liters} | ${costStr}`);
+  });
+  lines.push('');
+  lines.push(
+    t('share.totalLiters', { liters: formatLiters(litersByKind.time + litersByKind.pressure) })
+  );
+  if (litersByKind.pressureRows > 0) {
+    lines.push(
+      t('share.litersByKind', {
+        time: formatLiters(litersByKind.time),
+        pressure: formatLiters(litersByKind.pressure),
+      })
+    );
+    lines.push(t('pressure.note'));
+  }
+  if (shiftTotals.length > 0) {
+    lines.push('');
+    lines.push(t('share.shiftSubtotals'));
+    shiftTotals.forEach((total) =>
+      lines.push(
+        `${describeShiftTotal(total, timeFormat, t)}: ${total.minutes} min · ${formatLiters(total.liters)} L · ${formatMoney(total.cost)}`
+      )
+    );
+    lines.push('');
+  }
+  lines.push(`${t('document.total')}: ${formatMoney(getSessionTotal(session, rounding))}`);
+  lines.push(
+    t('share.factorLine', {
+      factor: tariff.factor,
+      tariff: tariff.label,
+      date: tariff.effectiveFrom,
+    })
+  );
+  lines.push(describeRounding(rounding, t));
+  return lines.join('\n');
+};
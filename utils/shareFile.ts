@@ -0,0 +1,67 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+// Uniform Type Identifiers so iOS offers apps that can open the file.
+const UTI_BY_MIME: Record<string, string> = {
+  'text/csv': 'public.comma-separated-values-text',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'org.openxmlformats.spreadsheetml.sheet',
+  'application/pdf': 'com.adobe.pdf',
+};
+
+// Time the browser gets to read a download before its object URL is released.
+const REVOKE_DELAY_MS = 10_000;
+
+const downloadOnWeb = (fileName: string, content: string | Uint8Array, mimeType: string) => {
+  const blob = new Blob([content as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // The download starts after click() returns, and revoking the URL right
+  // away can cancel it.
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+const openShareSheet = async (file: File, mimeType: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, {
+    mimeType,
+    UTI: UTI_BY_MIME[mimeType],
+    dialogTitle: file.name,
+  });
+};
+
+/**
+ * Hands a generated file to the user: a download on web, the native share
+ * sheet elsewhere. Rejects when sharing is unavailable on the device.
+ */
+export const shareFile = async (
+  fileName: string,
+  content: string | Uint8Array,
+  mimeType: string
+) => {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(fileName, content, mimeType);
+    return;
+  }
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+  await openShareSheet(file, mimeType);
+};
+
+/** Renders an HTML document to PDF and opens the share sheet (mobile only). */
+export const sharePdf = async (fileName: string, html: string) => {
+  const { uri } = await Print.printToFileAsync({ html });
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  new File(uri).move(file);
+  await openShareSheet(file, 'application/pdf');
+};
@@ -0,0 +1,113 @@
+import { entry } from '@/__tests__/fixtures';
+import type { ShiftDefinition } from '@/types/settings';
+import {
+  calculateShiftTotals,
+  formatShiftRange,
+  getShiftWindows,
+  splitMinutesByShift,
+} from '@/utils/shifts';
+
+const shifts: ShiftDefinition[] = [
+  { id: 'night', label: 'Noche', start: '19:00' },
+  { id: 'morning', label: 'Mañana', start: '07:00' },
+  { id: 'afternoon', label: 'Tarde', start: '13:00' },
+];
+
+const windows = getShiftWindows(shifts);
+
+const split = (fields: Parameters<typeof entry>[1]) =>
+  splitMinutesByShift(entry('a', fields), windows);
+
+describe('getShiftWindows', () => {
+  it('orders the shifts by start and wraps the last one into the first', () => {
+    expect(windows.map(({ shift, start, end }) => [shift.id, start, end])).toEqual([
+      ['morning', 7 * 60, 13 * 60],
+      ['afternoon', 13 * 60, 19 * 60],
+      ['night', 19 * 60, 31 * 60],
+    ]);
+  });
+});
+
+describe('formatShiftRange', () => {
+  it('writes the range in the chosen time format', () => {
+    expect(formatShiftRange(windows[2], '12h')).toBe('7:00 PM–7:00 AM');
+    expect(formatShiftRange(windows[2], '24h')).toBe('19:00–07:00');
+  });
+});
+
+describe('splitMinutesByShift', () => {
+  it('keeps a row past midnight in the night shift', () => {
+    expect(split({ startTime: '10:00 PM', endTime: '6:00 AM' })).toEqual({ night: 480 });
+  });
+
+  it('places the early hours in the night shift that started the day before', () => {
+    expect(split({ startTime: '2:00 AM', endTime: '8:00 AM' })).toEqual({
+      night: 300,
+      morning: 60,
+    });
+  });
+
+  it('splits a row at the start of the next shift', () => {
+    expect(split({ startTime: '12:00 PM', endTime: '2:00 PM' })).toEqual({
+      morning: 60,
+      afternoon: 60,
+    });
+  });
+
+  it('walks dated rows across several days', () => {
+    expect(
+      split({
+        startTime: '6:00 PM',
+        startDate: '2026-10-19',
+        endTime: '8:00 AM',
+        endDate: '2026-10-20',
+      })
+    ).toEqual({ afternoon: 60, night: 720, morning: 60 });
+    expect(
+      split({
+        startTime: '7:00 AM',
+        startDate: '2026-10-18',
+        endTime: '7:00 AM',
+        endDate: '2026-10-20',
+      })
+    ).toEqual({ morning: 720, afternoon: 720, night: 1440 });
+  });
+
+  it('returns nothing for a row without a start', () => {
+    expect(split({ endTime: '8:00 AM' })).toEqual({});
+  });
+});
+
+describe('calculateShiftTotals', () => {
+  it('shares liters and cost out by the minutes in each shift', () => {
+    const totals = calculateShiftTotals(
+      [entry('a', { startTime: '12:00 PM', endTime: '2:00 PM', flowRate: '2' })],
+      shifts,
+      1.5
+    );
+    expect(
+      totals.map(({ window, minutes, liters, cost }) => [window?.shift.id, minutes, liters, cost])
+    ).toEqual([
+      ['morning', 60, 120, 180],
+      ['afternoon', 60, 120, 180],
+    ]);
+  });
+
+  it('totals pressure rows apart, after the shifts', () => {
+    // 1000 psi drop on an E cylinder is 280 L; at 2 L/min, 140 min.
+    const pressure = entry('p', {
+      kind: 'pressure',
+      cylinderType: 'E',
+      pressureUnit: 'psi',
+      startPressure: '2000',
+      endPressure: '1000',
+      flowRate: '2',
+    });
+    const timed = entry('a', { startTime: '8:00 PM', endTime: '9:00 PM', flowRate: '1' });
+    const totals = calculateShiftTotals([pressure, timed], shifts, 1);
+    expect(totals).toHaveLength(2);
+    expect(totals[0]).toMatchObject({ minutes: 60, liters: 60, cost: 60 });
+    expect(totals[0].window?.shift.id).toBe('night');
+    expect(totals[1]).toEqual({ window: null, minutes: 140, liters: 280, cost: 280 });
+  });
+});
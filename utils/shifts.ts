@@ -0,0 +1,157 @@
+// Shifts for billing and nurse handover. A shift is defined by its start time
+// alone and runs until the next shift starts, so the definitions always tile
+// the day; the last one wraps past midnight into the first.
+import type { OxygenEntry } from '@/types/oxygen';
+import type { ShiftDefinition, TimeFormat } from '@/types/settings';
+import {
+  MINUTES_PER_DAY,
+  calculateEntryCost,
+  calculateLiters,
+  calculateMinutes,
+  formatClock,
+  parseTime,
+} from '@/utils/billing';
+import { createId } from '@/utils/entries';
+import type { Translate } from '@/utils/i18n';
+import { isPressureEntry } from '@/utils/pressure';
+
+// Labels are stored with the shifts, so they stay in the language they were
+// created in.
+export const defaultShifts = (t: Translate): ShiftDefinition[] => [
+  { id: 'morning', label: t('shifts.morning'), start: '07:00' },
+  { id: 'afternoon', label: t('shifts.afternoon'), start: '13:00' },
+  { id: 'night', label: t('shifts.night'), start: '19:00' },
+];
+
+export interface ShiftWindow {
+  shift: ShiftDefinition;
+  // Minutes since midnight; `end` is past MINUTES_PER_DAY for the shift that
+  // crosses midnight.
+  start: number;
+  end: number;
+}
+
+export interface ShiftTotal {
+  // Null for rows that cannot be placed in a shift (pressure rows).
+  window: ShiftWindow | null;
+  minutes: number;
+  liters: number;
+  cost: number;
+}
+
+export const createShift = (label: string, start: string): ShiftDefinition => ({
+  id: createId('shift'),
+  label,
+  start,
+});
+
+/** Error message for a set of shifts, or null when every start is valid and distinct. */
+export const validateShifts = (shifts: ShiftDefinition[], t: Translate): string | null => {
+  if (shifts.length === 0) return t('shifts.error.empty');
+  if (shifts.some((shift) => !shift.label.trim())) return t('shifts.error.unnamed');
+  const starts = shifts.map((shift) => parseTime(shift.start));
+  if (starts.some((start) => start === null)) return t('shifts.error.time');
+  if (new Set(starts).size !== starts.length) return t('shifts.error.sameStart');
+  return null;
+};
+
+/** Shifts in day order with the minute range each one covers. */
+export const getShiftWindows = (shifts: ShiftDefinition[]): ShiftWindow[] => {
+  const sorted = shifts
+    .map((shift) => ({ shift, start: parseTime(shift.start) }))
+    .filter((s): s is { shift: ShiftDefinition; start: number } => s.start !== null)
+    .sort((a, b) => a.start - b.start);
+  return sorted.map(({ shift, start }, i) => ({
+    shift,
+    start,
+    end: i + 1 < sorted.length ? sorted[i + 1].start : sorted[0].start + MINUTES_PER_DAY,
+  }));
+};
+
+// '7:00 AM–1:00 PM', or '07:00–13:00' in 24h format.
+export const formatShiftRange = (window: ShiftWindow, format: TimeFormat) => {
+  const clock = (minutes: number) => formatClock(minutes % MINUTES_PER_DAY, format);
+  return `${clock(window.start)}–${clock(window.end)}`;
+};
+
+// 'Mañana (7:00 AM–1:00 PM)', or the bucket for rows without times.
+export const describeShiftTotal = (total: ShiftTotal, format: TimeFormat, t: Translate) =>
+  total.window
+    ? `${total.window.shift.label} (${formatShiftRange(total.window, format)})`
+    : t('shifts.unplaced');
+
+/**
+ * Minutes of a row that fall in each shift, keyed by shift id.
+ *
+ * The row is walked from its start time for `calculateMinutes` minutes, so it
+ * wraps past midnight, and spans several days, the same way the billed
+ * duration does. A shift that starts before midnight keeps the minutes after
+ * it until the next shift begins.
+ */
+export const splitMinutesByShift = (
+  entry: OxygenEntry,
+  windows: ShiftWindow[]
+): Record<string, number> => {
+  const start = parseTime(entry.startTime);
+  const total = calculateMinutes(entry);
+  const split: Record<string, number> = {};
+  if (start === null || total <= 0 || windows.length === 0) return split;
+
+  let cursor = start;
+  let remaining = total;
+  while (remaining > 0) {
+    const timeOfDay = cursor % MINUTES_PER_DAY;
+    // The window containing this minute, looking at the wrapped tail of the
+    // last shift for the early hours before the first one starts.
+    const window =
+      windows.find((w) => timeOfDay >= w.start && timeOfDay < w.end) ?? windows[windows.length - 1];
+    const windowEnd = timeOfDay >= window.start ? window.end : window.end - MINUTES_PER_DAY;
+    const chunk = Math.min(remaining, windowEnd - timeOfDay);
+    split[window.shift.id] = (split[window.shift.id] ?? 0) + chunk;
+    cursor += chunk;
+    remaining -= chunk;
+  }
+  return split;
+};
+
+/**
+ * Minutes, liters and unrounded cost per shift, in day order.
+ *
+ * Rows that cross a boundary are split in proportion to the minutes on each
+ * side. Pressure rows have no times and are totalled apart, with a null shift.
+ * Shifts without any minutes are left out.
+ */
+export const calculateShiftTotals = (
+  entries: OxygenEntry[],
+  shifts: ShiftDefinition[],
+  paymentFactor: number
+): ShiftTotal[] => {
+  const windows = getShiftWindows(shifts);
+  const totals = new Map<string, ShiftTotal>(
+    windows.map((window) => [window.shift.id, { window, minutes: 0, liters: 0, cost: 0 }])
+  );
+  const unplaced: ShiftTotal = { window: null, minutes: 0, liters: 0, cost: 0 };
+
+  entries.forEach((entry) => {
+    const minutes = calculateMinutes(entry);
+    const liters = calculateLiters(entry);
+    const cost = calculateEntryCost(entry, paymentFactor);
+    if (isPressureEntry(entry)) {
+      unplaced.minutes += minutes;
+      unplaced.liters += liters;
+      unplaced.cost += cost;
+      return;
+    }
+    if (minutes <= 0) return;
+    Object.entries(splitMinutesByShift(entry, windows)).forEach(([id, part]) => {
+      const total = totals.get(id);
+      if (!total) return;
+      const share = part / minutes;
+      total.minutes += part;
+      total.liters += liters * share;
+      total.cost += cost * share;
+    });
+  });
+
+  return [...totals.values(), unplaced].filter((total) => total.minutes > 0 || total.liters > 0);
+};
@@ -0,0 +1,76 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EMPTY_PATIENT } from '@/utils/patient';
+import { sessionStore, settingsStore } from '@/utils/storage';
+
+const log = (id: string, fields: object = {}) => ({
+  id,
+  insuranceType: 'subsidiado',
+  entries: [{ id: `${id}-row`, startTime: '8:00 AM', endTime: '10:00 AM', flowRate: '2' }],
+  startedAt: '2025-01-01T10:00:00.000Z',
+  updatedAt: '2025-01-01T12:00:00.000Z',
+  ...fields,
+});
+
+const store = (key: string, value: unknown) => AsyncStorage.setItem(key, JSON.stringify(value));
+
+describe('persisted stores', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('migrates the first saved version to sessions', async () => {
+    await store('oxycalc:state', {
+      version: 1,
+      current: log('log-1'),
+      archive: [log('log-2', { archivedAt: '2025-01-02T00:00:00.000Z' })],
+    });
+    const state = await sessionStore.load();
+    expect(state?.activeSessionId).toBe('log-1');
+    expect(state?.sessions).toMatchObject([
+      { id: 'log-1', patient: EMPTY_PATIENT, tariff: { factor: 0.25 } },
+      // 120 min at 2 L/min is 240 L, at 0.25.
+      { id: 'log-2', closedAt: '2025-01-02T00:00:00.000Z', totalCost: 60 },
+    ]);
+    expect(state?.sessions[0].closedAt).toBeUndefined();
+  });
+
+  it('adds the patient to sessions saved before it existed', async () => {
+    const saved = {
+      id: 'session-1',
+      patientLabel: 'Ana Pérez',
+      insuranceType: 'subsidiado',
+      tariff: {
+        rateId: 'subsidiado-1',
+        label: 'Subsidiado',
+        factor: 0.25,
+        effectiveFrom: '2000-01-01',
+      },
+      entries: [],
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T12:00:00.000Z',
+    };
+    await store('oxycalc:state', { version: 3, sessions: [saved], activeSessionId: 'session-1' });
+    await expect(sessionStore.load()).resolves.toEqual({
+      sessions: [{ ...saved, patient: EMPTY_PATIENT }],
+      activeSessionId: 'session-1',
+    });
+  });
+
+  it.each([
+    ['a log on a regime it never had', { current: log('log-1', { insuranceType: 'prepagada' }) }],
+    ['a log without rows', { current: log('log-1', { entries: undefined }) }],
+    ['an archive that is not a list', { current: log('log-1'), archive: log('log-2') }],
+  ])('starts fresh from a first version with %s', async (_, state) => {
+    await store('oxycalc:state', { version: 1, ...state });
+    await expect(sessionStore.load()).resolves.toBeNull();
+  });
+
+  it.each([
+    ['not JSON', '{'],
+    ['unversioned', JSON.stringify({ sessions: [] })],
+    ['from a newer build', JSON.stringify({ version: 99, currency: 'COP', rounding: {} })],
+    ['invalid', JSON.stringify({ version: 1, currency: 3 })],
+  ])('starts fresh from data that is %s', async (_, json) => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await AsyncStorage.setItem('oxycalc:settings', json);
+    await expect(settingsStore.load()).resolves.toBeNull();
+  });
+});
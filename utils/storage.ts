@@ -0,0 +1,233 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { OxygenEntry, OxygenSession } from '@/types/oxygen';
+import type { PrescriptionTemplate } from '@/types/prescription';
+import type { Settings } from '@/types/settings';
+import type { TariffRegime } from '@/types/tariff';
+import { calculateTotalCost } from '@/utils/billing';
+import { detectLanguage, getTranslator } from '@/utils/i18n';
+import { EMPTY_PATIENT } from '@/utils/patient';
+
+interface Versioned {
+  version: number;
+}
+
+// Each migration is keyed by the version being migrated *from* and returns the
+// shape of the next version, or null when the stored data does not have the
+// shape that version is meant to have.
+type Migration = (state: unknown) => object | null;
+type Migrations = Record<number, Migration>;
+
+// A migration step that checks the shape it reads before upgrading it.
+const migration =
+  <From>(accepts: (state: unknown) => state is From, upgrade: (state: From) => object): Migration =>
+  (state) =>
+    accepts(state) ? upgrade(state) : null;
+
+interface PersistedStoreConfig<T> {
+  key: string;
+  // Bump this whenever the persisted shape changes and add a migration that
+  // upgrades the previous version.
+  version: number;
+  migrations: Migrations;
+  // Checks data of the current version before it is trusted to be a `T`.
+  isValid: (state: Partial<T>) => boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isVersioned = (value: unknown): value is Versioned =>
+  isRecord(value) && typeof value.version === 'number';
+
+export interface PersistedStore<T> {
+  load: () => Promise<T | null>;
+  save: (state: T) => Promise<void>;
+}
+
+const createPersistedStore = <T extends object>({
+  key,
+  version,
+  migrations,
+  isValid,
+}: PersistedStoreConfig<T>): PersistedStore<T> => {
+  const migrate = (raw: unknown): T | null => {
+    if (!isVersioned(raw)) return null;
+    let state: Versioned = raw;
+    while (state.version < version) {
+      const next = migrations[state.version]?.(state);
+      if (!next) return null;
+      state = { ...next, version: state.version + 1 };
+    }
+    const current = state as Versioned & Partial<T>;
+    // Data written by a newer build: don't guess, start fresh instead.
+    if (current.version !== version || !isValid(current)) return null;
+    const { version: _version, ...data } = current;
+    return data as T;
+  };
+
+  return {
+    load: async () => {
+      try {
+        const json = await AsyncStorage.getItem(key);
+        if (!json) return null;
+        return migrate(JSON.parse(json));
+      } catch (e) {
+        console.warn(`Failed to restore ${key}`, e);
+        return null;
+      }
+    },
+    save: async (state) => {
+      try {
+        await AsyncStorage.setItem(key, JSON.stringify({ version, ...state }));
+      } catch (e) {
+        console.warn(`Failed to save ${key}`, e);
+      }
+    },
+  };
+};
+
+// Factors that were hardcoded before the tariff catalog existed. Frozen here
+// so old data keeps migrating to the same totals whatever the catalog says.
+const LEGACY_TARIFFS: Record<string, { label: string; factor: number }> = {
+  contributivo: { label: 'Contributivo', factor: 0.45 },
+  subsidiado: { label: 'Subsidiado', factor: 0.25 },
+};
+
+const legacyAppliedTariff = (insuranceType: string) => ({
+  rateId: `${insuranceType}-1`,
+  label: LEGACY_TARIFFS[insuranceType].label,
+  factor: LEGACY_TARIFFS[insuranceType].factor,
+  effectiveFrom: '2000-01-01',
+});
+
+export interface SessionsState {
+  sessions: OxygenSession[];
+  activeSessionId: string;
+}
+
+// Earlier shapes of the sessions state, as the migrations read them.
+interface LogV1 {
+  id: string;
+  insuranceType: string;
+  entries: OxygenEntry[];
+  startedAt: string;
+  updatedAt: string;
+  archivedAt?: string;
+}
+
+interface SessionsStateV1 {
+  current: LogV1;
+  archive?: LogV1[];
+}
+
+interface SessionsStateV2 {
+  sessions: Omit<OxygenSession, 'tariff' | 'patient'>[];
+  activeSessionId: string;
+}
+
+interface SessionsStateV3 {
+  sessions: Omit<OxygenSession, 'patient'>[];
+  activeSessionId: string;
+}
+
+// The shape checks go as deep as the migrations read: logs and sessions must
+// name a regime the legacy factors know, rows are carried over as they are.
+const hasLegacyTariff = (value: Record<string, unknown>) =>
+  typeof value.insuranceType === 'string' && value.insuranceType in LEGACY_TARIFFS;
+
+const isLogV1 = (value: unknown): value is LogV1 =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  hasLegacyTariff(value) &&
+  Array.isArray(value.entries);
+
+const isSessionsStateV1 = (state: unknown): state is SessionsStateV1 =>
+  isRecord(state) &&
+  isLogV1(state.current) &&
+  (state.archive === undefined || (Array.isArray(state.archive) && state.archive.every(isLogV1)));
+
+const hasSessions = (state: unknown): state is { sessions: unknown[]; activeSessionId: string } =>
+  isRecord(state) && Array.isArray(state.sessions) && typeof state.activeSessionId === 'string';
+
+const isSessionsStateV2 = (state: unknown): state is SessionsStateV2 =>
+  hasSessions(state) &&
+  state.sessions.every((session) => isRecord(session) && hasLegacyTariff(session));
+
+const isSessionsStateV3 = (state: unknown): state is SessionsStateV3 =>
+  hasSessions(state) && state.sessions.every(isRecord);
+
+export const sessionStore = createPersistedStore<SessionsState>({
+  key: 'oxycalc:state',
+  version: 4,
+  migrations: {
+    // v1 kept a single current log plus an archive of finished ones. Each log
+    // becomes a session; archived logs are closed with their total frozen.
+    1: migration(isSessionsStateV1, (state): SessionsStateV2 => {
+      const toSession = (log: LogV1, index: number) => ({
+        id: log.id,
+        patientLabel: getTranslator(detectLanguage()).t('sessions.defaultLabel', {
+          number: index + 1,
+        }),
+        insuranceType: log.insuranceType,
+        entries: log.entries,
+        createdAt: log.startedAt,
+        updatedAt: log.updatedAt,
+        ...(log.archivedAt && {
+          closedAt: log.archivedAt,
+          totalCost: calculateTotalCost(log.entries, LEGACY_TARIFFS[log.insuranceType].factor, {
+            scope: 'total',
+            increment: 0.01,
+          }),
+        }),
+      });
+      const logs = [state.current, ...(state.archive ?? [])];
+      return {
+        sessions: logs.map(toSession),
+        activeSessionId: state.current.id,
+      };
+    }),
+    // v3 snapshots the tariff version on each session.
+    2: migration(isSessionsStateV2, (state): SessionsStateV3 => ({
+      ...state,
+      sessions: state.sessions.map((session) => ({
+        ...session,
+        tariff: legacyAppliedTariff(session.insuranceType),
+      })),
+    })),
+    // v4 adds the patient and encounter details.
+    3: migration(isSessionsStateV3, (state): SessionsState => ({
+      ...state,
+      sessions: state.sessions.map((session) => ({ ...session, patient: EMPTY_PATIENT })),
+    })),
+  },
+  isValid: (state) => Array.isArray(state.sessions) && state.sessions.length > 0,
+});
+
+export interface TariffsState {
+  regimes: TariffRegime[];
+}
+
+export const tariffStore = createPersistedStore<TariffsState>({
+  key: 'oxycalc:tariffs',
+  version: 1,
+  migrations: {},
+  isValid: (state) => Array.isArray(state.regimes) && state.regimes.length > 0,
+});
+
+export interface PrescriptionsState {
+  templates: PrescriptionTemplate[];
+}
+
+export const prescriptionStore = createPersistedStore<PrescriptionsState>({
+  key: 'oxycalc:prescriptions',
+  version: 1,
+  migrations: {},
+  isValid: (state) => Array.isArray(state.templates),
+});
+
+export const settingsStore = createPersistedStore<Settings>({
+  key: 'oxycalc:settings',
+  version: 1,
+  migrations: {},
+  isValid: (state) => typeof state.currency === 'string' && !!state.rounding,
+});
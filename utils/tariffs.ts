@@ -0,0 +1,39 @@
+import type { AppliedTariff, TariffRate, TariffRegime } from '@/types/tariff';
+import { toDateKey } from '@/utils/dates';
+
+export const DEFAULT_TARIFFS: TariffRegime[] = [
+  {
+    id: 'contributivo',
+    label: 'Contributivo',
+    rates: [{ id: 'contributivo-1', factor: 0.45, effectiveFrom: '2000-01-01' }],
+  },
+  {
+    id: 'subsidiado',
+    label: 'Subsidiado',
+    rates: [{ id: 'subsidiado-1', factor: 0.25, effectiveFrom: '2000-01-01' }],
+  },
+];
+
+// Latest rate already in force on `date`, or undefined when every version
+// starts in the future.
+export const getEffectiveRate = (
+  regime: TariffRegime,
+  date: Date = new Date()
+): TariffRate | undefined => {
+  const key = toDateKey(date);
+  return regime.rates
+    .filter((rate) => rate.effectiveFrom <= key)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+};
+
+export const toAppliedTariff = (regime: TariffRegime, rate: TariffRate): AppliedTariff => ({
+  rateId: rate.id,
+  label: regime.label,
+  factor: rate.factor,
+  effectiveFrom: rate.effectiveFrom,
+});
+
+export const parseFactor = (value: string): number | null => {
+  const n = parseFloat(value.replace(',', '.'));
+  return isNaN(n) || n <= 0 ? null : n;
+};
@@ -0,0 +1,107 @@
+import { entry } from '@/__tests__/fixtures';
+import type { OxygenEntry } from '@/types/oxygen';
+import { getTranslator } from '@/utils/i18n';
+import { validateEntries } from '@/utils/validation';
+
+const { t } = getTranslator('es');
+
+// A row at 2 L/min.
+const timed = (id: string, startTime: string, endTime: string, fields: Partial<OxygenEntry> = {}) =>
+  entry(id, { startTime, endTime, flowRate: '2', ...fields });
+
+// Messages per row id, without severities.
+const messages = (entries: OxygenEntry[]) =>
+  Object.fromEntries(
+    Object.entries(validateEntries(entries, t)).map(([id, list]) => [
+      id,
+      list.map((i) => i.message),
+    ])
+  );
+
+describe('validateEntries timeline', () => {
+  it('accepts back-to-back rows', () => {
+    expect(messages([timed('a', '8:00 AM', '9:00 AM'), timed('b', '9:00 AM', '10:00 AM')])).toEqual(
+      {}
+    );
+  });
+
+  it('flags overlapping neighbours on both rows', () => {
+    expect(
+      messages([timed('a', '8:00 AM', '10:00 AM'), timed('b', '9:30 AM', '11:00 AM')])
+    ).toEqual({
+      a: ['Se superpone 30 min con la fila 2.'],
+      b: ['Se superpone 30 min con la fila 1.'],
+    });
+  });
+
+  it('reports a gap after the latest end', () => {
+    expect(messages([timed('a', '8:00 AM', '9:00 AM'), timed('b', '9:45 AM', '10:00 AM')])).toEqual(
+      { b: ['Hueco de 45 min desde el fin de la fila 1.'] }
+    );
+  });
+
+  it('compares rows typed out of order by time, not by position', () => {
+    // 8-9 comes first in time: an hour's gap before row 1, no overlap.
+    expect(
+      messages([timed('a', '10:00 AM', '11:00 AM'), timed('b', '8:00 AM', '9:00 AM')])
+    ).toEqual({ a: ['Hueco de 1 h desde el fin de la fila 2.'] });
+  });
+
+  it('blames an overlap on the row it actually overlaps', () => {
+    expect(
+      messages([
+        timed('a', '8:00 AM', '12:00 PM'),
+        timed('b', '12:00 PM', '1:00 PM'),
+        timed('c', '9:00 AM', '10:00 AM'),
+      ])
+    ).toEqual({
+      a: ['Se superpone 1 h con la fila 3.'],
+      c: ['Se superpone 1 h con la fila 1.'],
+    });
+  });
+
+  it('reports every row still running, not just the latest', () => {
+    expect(
+      messages([
+        timed('a', '8:00 AM', '12:00 PM'),
+        timed('b', '9:00 AM', '10:00 AM'),
+        timed('c', '9:30 AM', '11:00 AM'),
+      ])
+    ).toEqual({
+      a: ['Se superpone 1 h con la fila 2.', 'Se superpone 1 h 30 min con la fila 3.'],
+      b: ['Se superpone 1 h con la fila 1.', 'Se superpone 30 min con la fila 3.'],
+      c: ['Se superpone 1 h 30 min con la fila 1.', 'Se superpone 30 min con la fila 2.'],
+    });
+  });
+
+  it('follows time-only rows past midnight', () => {
+    expect(
+      messages([timed('a', '10:00 PM', '12:00 AM'), timed('b', '12:00 AM', '2:00 AM')])
+    ).toEqual({});
+  });
+
+  it('places dated rows on their days', () => {
+    expect(
+      messages([
+        timed('a', '8:00 AM', '9:00 AM', { startDate: '2026-10-20', endDate: '2026-10-20' }),
+        timed('b', '8:30 AM', '9:00 AM', { startDate: '2026-10-19', endDate: '2026-10-19' }),
+      ])
+    ).toEqual({ a: ['Hueco de 23 h desde el fin de la fila 2.'] });
+  });
+});
+
+describe('validateEntries rows', () => {
+  it('flags a time-only row that starts and ends at the same time', () => {
+    expect(messages([timed('a', '8:00 AM', '8:00 AM')])).toEqual({
+      a: ['El inicio y el fin son la misma hora: la fila no suma minutos.'],
+    });
+  });
+
+  it('accepts a dated row spanning a full day', () => {
+    expect(
+      messages([
+        timed('a', '8:00 AM', '8:00 AM', { startDate: '2026-10-19', endDate: '2026-10-20' }),
+      ])
+    ).toEqual({});
+  });
+});
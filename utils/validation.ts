@@ -0,0 +1,205 @@
+import type { OxygenEntry } from '@/types/oxygen';
+import { MINUTES_PER_DAY, calculateMinutes, parseFlowRate, parseTime } from '@/utils/billing';
+import { dateKeyToDayNumber } from '@/utils/dates';
+import { deviceLabel, getDevice, getVenturiSetting } from '@/utils/devices';
+import type { Translate } from '@/utils/i18n';
+import { isPressureEntry, parsePressure } from '@/utils/pressure';
+
+// Above this a nasal cannula reading is almost certainly a typo.
+export const MAX_CANNULA_FLOW = 15;
+
+// Time-only rows longer than this are usually an AM/PM slip (e.g. 7:00 PM
+// typed for 7:00 AM) rather than a real half-day administration.
+const SUSPICIOUS_DURATION_MINUTES = 12 * 60;
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface EntryIssue {
+  severity: IssueSeverity;
+  message: string;
+}
+
+export type EntryIssues = Record<string, EntryIssue[]>;
+
+type AddIssue = (entry: OxygenEntry, severity: IssueSeverity, message: string) => void;
+
+// Rows with a device are held to its flow range; rows without one only get
+// the typo check.
+const validateFlowRange = (entry: OxygenEntry, flow: number, add: AddIssue, t: Translate) => {
+  const device = getDevice(entry.device);
+  if (!device) {
+    if (flow > MAX_CANNULA_FLOW) add(entry, 'warning', t('validation.unusualFlow', { flow }));
+    return;
+  }
+  if (flow < device.minFlow || flow > device.maxFlow) {
+    add(
+      entry,
+      'warning',
+      t('validation.flowOutOfRange', {
+        flow,
+        device: deviceLabel(device.id, t).toLowerCase(),
+        min: device.minFlow,
+        max: device.maxFlow,
+      })
+    );
+  }
+  const setting = device.id === 'venturi' ? getVenturiSetting(entry.fio2) : undefined;
+  if (setting && setting.flow !== flow) {
+    add(entry, 'warning', t('validation.venturiFlow', { fio2: setting.fio2, flow: setting.flow }));
+  }
+};
+
+interface Interval {
+  entry: OxygenEntry;
+  row: number;
+  start: number;
+  end: number;
+}
+
+const formatDuration = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m} min`;
+  return m ? `${h} h ${m} min` : `${h} h`;
+};
+
+const isDated = (entry: OxygenEntry) => !!entry.startDate && !!entry.endDate;
+
+// Places each complete row on an absolute minute axis so rows can be
+// compared. Rows with a start date use it when the previous row was dated
+// too; otherwise a row is anchored next to the previous one, on whichever
+// side of it is closest (within 12 h).
+const toIntervals = (entries: OxygenEntry[]): Interval[] => {
+  const intervals: Interval[] = [];
+  let previousEnd: number | null = null;
+  let previousDated = true;
+  entries.forEach((entry, row) => {
+    const startOfDay = parseTime(entry.startTime);
+    const minutes = calculateMinutes(entry);
+    if (startOfDay === null || minutes <= 0) return;
+    let start: number;
+    const startDay = entry.startDate ? dateKeyToDayNumber(entry.startDate) : null;
+    if (startDay !== null && previousDated) {
+      start = startDay * MINUTES_PER_DAY + startOfDay;
+    } else if (previousEnd === null) {
+      start = startOfDay;
+    } else {
+      let offset = (startOfDay - (previousEnd % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+      if (offset > MINUTES_PER_DAY / 2) offset -= MINUTES_PER_DAY;
+      start = previousEnd + offset;
+    }
+    const interval = { entry, row, start, end: start + minutes };
+    intervals.push(interval);
+    previousEnd = interval.end;
+    previousDated = startDay !== null;
+  });
+  return intervals;
+};
+
+// Compares rows in time order rather than table order, so a row typed out
+// of sequence is checked against the rows it actually runs alongside. Each
+// row is checked against every earlier one still running when it starts, and
+// a gap is reported when it starts after all of them have ended.
+const checkTimeline = (intervals: Interval[], add: AddIssue, t: Translate) => {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start || a.row - b.row);
+  let running: Interval[] = [];
+  let latest: Interval | null = null;
+  sorted.forEach((curr) => {
+    running = running.filter((other) => other.end > curr.start);
+    running.forEach((other) => {
+      const duration = formatDuration(Math.min(other.end, curr.end) - curr.start);
+      add(curr.entry, 'error', t('validation.overlap', { duration, row: other.row + 1 }));
+      add(other.entry, 'error', t('validation.overlap', { duration, row: curr.row + 1 }));
+    });
+    if (latest && curr.start > latest.end) {
+      add(
+        curr.entry,
+        'warning',
+        t('validation.gap', { duration: formatDuration(curr.start - latest.end), row: latest.row + 1 })
+      );
+    }
+    running.push(curr);
+    if (!latest || curr.end > latest.end) latest = curr;
+  });
+};
+
+// Pressure rows are checked on their manometer readings; they bill without a
+// flow, which is only needed to estimate minutes.
+const validatePressureEntry = (entry: OxygenEntry, add: AddIssue, t: Translate) => {
+  const start = parsePressure(entry.startPressure);
+  const end = parsePressure(entry.endPressure);
+  const flow = parseFlowRate(entry.flowRate);
+
+  if (entry.startPressure && start === null) add(entry, 'error', t('validation.invalidStartPressure'));
+  if (entry.endPressure && end === null) add(entry, 'error', t('validation.invalidEndPressure'));
+  if (entry.flowRate && flow === null) add(entry, 'error', t('validation.invalidFlow'));
+  if (!entry.startPressure || !entry.endPressure) {
+    if (entry.startPressure || entry.endPressure || entry.flowRate) {
+      add(entry, 'warning', t('validation.incompletePressure'));
+    }
+    return;
+  }
+  if (start !== null && end !== null && end > start) {
+    add(entry, 'error', t('validation.pressureRises'));
+  }
+  if (!entry.flowRate || flow === 0) {
+    add(entry, 'warning', t('validation.pressureWithoutFlow'));
+  } else if (flow !== null) {
+    validateFlowRange(entry, flow, add, t);
+  }
+};
+
+// `liveEntryId` is the row being timed live, whose missing end is expected.
+export const validateEntries = (
+  entries: OxygenEntry[],
+  t: Translate,
+  liveEntryId?: string
+): EntryIssues => {
+  const issues: EntryIssues = {};
+  const add: AddIssue = (entry, severity, message) => {
+    (issues[entry.id] ??= []).push({ severity, message });
+  };
+
+  entries.forEach((entry) => {
+    if (isPressureEntry(entry)) {
+      validatePressureEntry(entry, add, t);
+      return;
+    }
+    const start = entry.startTime ? parseTime(entry.startTime) : null;
+    const end = entry.endTime ? parseTime(entry.endTime) : null;
+    const flow = parseFlowRate(entry.flowRate);
+
+    if (entry.startTime && start === null) add(entry, 'error', t('validation.invalidStart'));
+    if (entry.endTime && end === null) add(entry, 'error', t('validation.invalidEnd'));
+    if (entry.flowRate && flow === null) add(entry, 'error', t('validation.invalidFlow'));
+
+    const hasTimes = !!entry.startTime && !!entry.endTime;
+    if (!hasTimes && (entry.endTime || entry.flowRate) && entry.id !== liveEntryId) {
+      add(entry, 'warning', t('validation.incompleteTimes'));
+    }
+    if (start === null || end === null) return;
+
+    const minutes = calculateMinutes(entry);
+    if (isDated(entry) && minutes <= 0) {
+      add(entry, 'error', t('validation.endNotAfterStart'));
+    } else if (!isDated(entry) && start === end) {
+      // Could be a slip or a full day; either way it bills nothing as typed.
+      add(entry, 'error', t('validation.sameTimes'));
+    }
+    if (!entry.flowRate || flow === 0) {
+      add(entry, 'error', t('validation.noFlow'));
+    } else if (flow !== null) {
+      validateFlowRange(entry, flow, add, t);
+    }
+    if (!isDated(entry) && minutes > SUSPICIOUS_DURATION_MINUTES) {
+      add(entry, 'warning', t('validation.longDuration', { duration: formatDuration(minutes) }));
+    }
+  });
+
+  checkTimeline(toIntervals(entries), add, t);
+
+  return issues;
+};
+
+export const countRowsWithErrors = (issues: EntryIssues) =>
+  Object.values(issues).filter((list) => list.some((issue) => issue.severity === 'error')).length;
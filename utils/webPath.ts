@@ -0,0 +1,9 @@
+import Constants from 'expo-constants';
+
+// The web build is served under `web.basePath` from app.json ('/oxycalc'),
+// so URLs opened outside the router, such as a new tab, must carry it.
+const BASE_PATH = (
+  (Constants.expoConfig?.web as { basePath?: string } | undefined)?.basePath ?? ''
+).replace(/\/+$/, '');
+
+export const withBasePath = (path: string) => `${BASE_PATH}${path}`;
@@ -0,0 +1,70 @@
+import { createXlsx } from '@/utils/xlsx';
+
+// Parts of the archive by name, read back through the local headers, plus
+// where the end record says the central directory starts.
+const unzip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const parts: Record<string, string> = {};
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    const size = view.getUint32(pos + 18, true);
+    const nameLength = view.getUint16(pos + 26, true);
+    const name = decoder.decode(bytes.subarray(pos + 30, pos + 30 + nameLength));
+    const start = pos + 30 + nameLength;
+    parts[name] = decoder.decode(bytes.subarray(start, start + size));
+    pos = start + size;
+  }
+  const end = bytes.length - 22;
+  return {
+    parts,
+    centralOffset: pos,
+    end: {
+      signature: view.getUint32(end, true),
+      count: view.getUint16(end + 10, true),
+      centralOffset: view.getUint32(end + 16, true),
+    },
+  };
+};
+
+describe('createXlsx', () => {
+  it('writes a zip whose end record matches its entries', () => {
+    const { parts, centralOffset, end } = unzip(createXlsx([['a']], 'Hoja'));
+    expect(Object.keys(parts)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(end).toEqual({ signature: 0x06054b50, count: 5, centralOffset });
+  });
+
+  it('writes numbers as numeric cells and text as escaped inline strings', () => {
+    const sheet = unzip(createXlsx([['L/min', 1.5, '', '<a & "b">']], 'Hoja')).parts[
+      'xl/worksheets/sheet1.xml'
+    ];
+    expect(sheet).toContain(
+      '<row r="1">' +
+        '<c r="A1" t="inlineStr"><is><t xml:space="preserve">L/min</t></is></c>' +
+        '<c r="B1"><v>1.5</v></c>' +
+        '<c r="D1" t="inlineStr"><is><t xml:space="preserve">&lt;a &amp; &quot;b&quot;&gt;</t></is></c>' +
+        '</row>'
+    );
+  });
+
+  it('names columns past Z with two letters', () => {
+    const row = Array.from({ length: 28 }, (_, i) => i);
+    const sheet = unzip(createXlsx([row], 'Hoja')).parts['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain(
+      '<c r="Z1"><v>25</v></c><c r="AA1"><v>26</v></c><c r="AB1"><v>27</v></c>'
+    );
+  });
+
+  it('keeps the sheet name within what spreadsheet apps accept', () => {
+    const workbook = unzip(createXlsx([], 'Oxígeno [UCI] 2026/10: cama 3 & más')).parts[
+      'xl/workbook.xml'
+    ];
+    expect(workbook).toContain('<sheet name="Oxígeno  UCI  2026 10  cama 3 &amp;"');
+  });
+});